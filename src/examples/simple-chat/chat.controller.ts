@@ -14,7 +14,7 @@ export class ChatController extends BaseController {
    * POST /api/chat
    */
   public async chat(req: RequestWithUser, res: Response): Promise<void> {
-    await this.handleRequest(req, res, async () => {
+    await this.handleRequest(req, res, async (signal) => {
       const { message, authToken } = req.body;
       
       if (!message || typeof message !== 'string') {
@@ -24,7 +24,8 @@ export class ChatController extends BaseController {
       const request: ChatRequest = {
         prompt: message,
         message,
-        authToken
+        authToken,
+        signal
       };
 
       const result = await this.chatUseCase.execute(request);
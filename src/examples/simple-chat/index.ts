@@ -4,6 +4,7 @@ import dotenv from 'dotenv';
 import { ChatController } from './chat.controller';
 import { appConfig } from '../../middleware/shared/config/app.config';
 import { logger } from '../../middleware/shared/utils/logging.utils';
+import { OllamaModelManager } from '../../middleware/services/llm';
 import { RequestWithUser } from '../../middleware/shared/types/base-request.types';
 import { Request, Response, NextFunction } from 'express';
 
@@ -47,6 +48,9 @@ app.post('/api/chat', (req: any, res: Response) => {
 // Start server
 const port = appConfig.server.port;
 
+// Warn about configured models that are missing on their Ollama host
+new OllamaModelManager().checkConfiguredModels().catch(() => undefined);
+
 app.listen(port, () => {
   logger.info(`Simple Chat Example Server running on port ${port}`, {
     context: 'SimpleChatExample',
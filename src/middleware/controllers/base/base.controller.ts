@@ -2,6 +2,27 @@ import { Response } from 'express';
 import { RequestWithUser } from '../../shared/types/base-request.types';
 import { logger } from '../../shared/utils/logging.utils';
 import { sendErrorResponse, sendSuccessResponse } from '../../shared/utils/http.utils';
+import { LLMError, LLMErrorCode, LLMRateLimitError, LLMCircuitOpenError } from '../../services/llm';
+
+/**
+ * HTTP status sent to the client for each LLM error code
+ * Provider-side failures map to 502/503/504, caller mistakes to 4xx
+ */
+const LLM_ERROR_STATUS: Record<LLMErrorCode, number> = {
+  authentication: 502,
+  rate_limit: 429,
+  context_length_exceeded: 413,
+  model_not_found: 502,
+  insufficient_memory: 503,
+  timeout: 504,
+  upstream: 502,
+  network: 503,
+  invalid_request: 400,
+  circuit_open: 503,
+  queue_timeout: 503,
+  aborted: 499,
+  unknown: 502
+};
 
 /**
  * Base controller class providing common functionality for all controllers
@@ -10,19 +31,38 @@ import { sendErrorResponse, sendSuccessResponse } from '../../shared/utils/http.
 export abstract class BaseController {
   /**
    * Generic request handler with error handling and logging
+   * LLM errors are answered with a matching status code and their error code
    * @param req - Express request with user and client info
    * @param res - Express response
-   * @param handler - Function to execute the actual logic
+   * @param handler - Function to execute the actual logic; receives a signal that aborts when the client disconnects
    */
   protected async handleRequest(
     req: RequestWithUser,
     res: Response,
-    handler: () => Promise<any>
+    handler: (signal: AbortSignal) => Promise<any>
   ): Promise<void> {
+    // The response (not the request) closes when the connection drops: the request stream
+    // already closes once its body has been read
+    const abortController = new AbortController();
+    const abortOnClose = () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
+    };
+    res.on('close', abortOnClose);
+
     try {
-      const result = await handler();
+      const result = await handler(abortController.signal);
       sendSuccessResponse(res, result, req.clientInfo);
     } catch (error) {
+      if (abortController.signal.aborted) {
+        logger.info('Request aborted by client', {
+          context: this.constructor.name,
+          metadata: { path: req.path, method: req.method }
+        });
+        return;
+      }
+
       logger.error('Controller error', {
         context: this.constructor.name,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -30,9 +70,23 @@ export abstract class BaseController {
           path: req.path,
           method: req.method,
           query: req.query,
-          params: req.params
+          params: req.params,
+          ...(error instanceof LLMError && {
+            code: error.code,
+            provider: error.provider,
+            model: error.model,
+            statusCode: error.statusCode
+          })
         }
       });
+
+      if (error instanceof LLMError) {
+        if ((error instanceof LLMRateLimitError || error instanceof LLMCircuitOpenError) && error.retryAfterMs !== undefined) {
+          res.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+        }
+        sendErrorResponse(res, LLM_ERROR_STATUS[error.code], error.message, req.clientInfo, error.code);
+        return;
+      }
       
       sendErrorResponse(
         res,
@@ -40,6 +94,8 @@ export abstract class BaseController {
         error instanceof Error ? error.message : 'Unknown error',
         req.clientInfo
       );
+    } finally {
+      res.off('close', abortOnClose);
     }
   }
 }
\ No newline at end of file
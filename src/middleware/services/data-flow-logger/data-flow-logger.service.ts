@@ -43,7 +43,7 @@ export interface DataFlowEntry {
   timestamp: string;
   requestId: string;
   stage: string;
-  operation: 'request' | 'response' | 'error' | 'context-prep' | 'json-cleaning';
+  operation: 'request' | 'response' | 'error' | 'context-prep' | 'json-cleaning' | 'retry';
   contextId: string;
   contextType: string;
   data: any;
@@ -245,6 +245,36 @@ export class DataFlowLoggerService {
     });
   }
 
+  /**
+   * Log a failed LLM request attempt that is retried
+   */
+  logRetryAttempt(stage: string, context: any, retryDetails: {
+    provider: string;
+    model?: string;
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+    error?: any;
+  }): void {
+    const id = this.currentRequestId || 'unknown';
+
+    this.logEntry({
+      requestId: id,
+      stage,
+      operation: 'retry',
+      contextId: this.getContextIdentifier(context),
+      contextType: ContextTypeHelper.detectContextType(context),
+      data: {
+        ...retryDetails,
+        error: retryDetails.error ? {
+          message: retryDetails.error.message,
+          type: retryDetails.error.constructor?.name,
+          code: retryDetails.error.code
+        } : undefined
+      }
+    });
+  }
+
   /**
    * Log complete flow for a stage
    */
@@ -0,0 +1 @@
+export * from './llm.errors';
\ No newline at end of file
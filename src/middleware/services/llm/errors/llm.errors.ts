@@ -0,0 +1,179 @@
+/**
+ * Typed errors thrown by LLM providers
+ * All providers map HTTP and network failures to these classes, so callers can
+ * react to the kind of failure instead of parsing messages
+ */
+
+/**
+ * Machine-readable error code (also sent by BaseController)
+ */
+export type LLMErrorCode =
+  | 'authentication'
+  | 'rate_limit'
+  | 'context_length_exceeded'
+  | 'model_not_found'
+  | 'insufficient_memory'
+  | 'timeout'
+  | 'upstream'
+  | 'network'
+  | 'invalid_request'
+  | 'circuit_open'
+  | 'queue_timeout'
+  | 'aborted'
+  | 'unknown';
+
+/**
+ * Options for creating an LLMError
+ */
+export interface LLMErrorOptions {
+  /** Provider (instance) name */
+  provider: string;
+  /** Requested model */
+  model?: string;
+  /** HTTP status code returned by the provider (if any) */
+  statusCode?: number;
+  /** Raw error body or additional details from the provider */
+  details?: unknown;
+  /** Original error */
+  cause?: unknown;
+}
+
+/**
+ * Base class of all provider errors
+ */
+export class LLMError extends Error {
+  public readonly code: LLMErrorCode = 'unknown';
+  /** Whether retrying the same request may succeed */
+  public readonly retryable: boolean = false;
+  public readonly provider: string;
+  public readonly model?: string;
+  public readonly statusCode?: number;
+  public readonly details?: unknown;
+  public readonly cause?: unknown;
+
+  constructor(message: string, options: LLMErrorOptions) {
+    super(message);
+    this.name = new.target.name;
+    this.provider = options.provider;
+    this.model = options.model;
+    this.statusCode = options.statusCode;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Invalid, missing or insufficient credentials (HTTP 401/403)
+ */
+export class LLMAuthenticationError extends LLMError {
+  public readonly code: LLMErrorCode = 'authentication';
+}
+
+/**
+ * Too many requests (HTTP 429, Anthropic 529 overloaded is an LLMUpstreamError)
+ */
+export class LLMRateLimitError extends LLMError {
+  public readonly code: LLMErrorCode = 'rate_limit';
+  public readonly retryable = true;
+  /** Wait time requested by the provider via Retry-After, in milliseconds */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, options: LLMErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Prompt (plus requested output) exceeds the model's context window
+ */
+export class LLMContextLengthError extends LLMError {
+  public readonly code: LLMErrorCode = 'context_length_exceeded';
+}
+
+/**
+ * Model does not exist on the provider (or is not pulled, for Ollama)
+ */
+export class LLMModelNotFoundError extends LLMError {
+  public readonly code: LLMErrorCode = 'model_not_found';
+}
+
+/**
+ * The provider cannot load the model because of missing (GPU) memory
+ */
+export class LLMInsufficientMemoryError extends LLMError {
+  public readonly code: LLMErrorCode = 'insufficient_memory';
+}
+
+/**
+ * The request did not complete in time
+ */
+export class LLMTimeoutError extends LLMError {
+  public readonly code: LLMErrorCode = 'timeout';
+  public readonly retryable = true;
+  /** Timeout that was exceeded, in milliseconds */
+  public readonly timeoutMs?: number;
+
+  constructor(message: string, options: LLMErrorOptions & { timeoutMs?: number }) {
+    super(message, options);
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/**
+ * Server-side failure of the provider (HTTP 5xx)
+ */
+export class LLMUpstreamError extends LLMError {
+  public readonly code: LLMErrorCode = 'upstream';
+  public readonly retryable = true;
+}
+
+/**
+ * The provider could not be reached (connection refused, DNS failure, connection reset)
+ */
+export class LLMNetworkError extends LLMError {
+  public readonly code: LLMErrorCode = 'network';
+  public readonly retryable = true;
+}
+
+/**
+ * The provider rejected the request (HTTP 400/422 other than context length)
+ */
+export class LLMInvalidRequestError extends LLMError {
+  public readonly code: LLMErrorCode = 'invalid_request';
+}
+
+/**
+ * The circuit breaker of the provider endpoint is open, the request was not sent
+ */
+export class LLMCircuitOpenError extends LLMError {
+  public readonly code: LLMErrorCode = 'circuit_open';
+  /** Time until the circuit allows a trial request, in milliseconds */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, options: LLMErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The request waited longer than its queue timeout for a free slot of the endpoint, it was not sent
+ */
+export class LLMQueueTimeoutError extends LLMError {
+  public readonly code: LLMErrorCode = 'queue_timeout';
+  /** Time the request waited, in milliseconds */
+  public readonly waitMs: number;
+
+  constructor(message: string, options: LLMErrorOptions & { waitMs: number }) {
+    super(message, options);
+    this.waitMs = options.waitMs;
+  }
+}
+
+/**
+ * The request was cancelled via its AbortSignal (e.g. the HTTP client disconnected)
+ */
+export class LLMAbortedError extends LLMError {
+  public readonly code: LLMErrorCode = 'aborted';
+}
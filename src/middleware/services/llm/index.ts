@@ -1,9 +1,15 @@
 // Main LLM Service
 export * from './llm.service';
 
+// Ollama model management
+export * from './ollama-model-manager';
+
 // Types
 export * from './types';
 
+// Errors
+export * from './errors';
+
 // Providers
 export * from './providers';
 
@@ -6,34 +6,172 @@
 import { BaseLLMProvider } from './providers/base-llm-provider';
 import { OllamaProvider } from './providers/ollama-provider';
 import { AnthropicProvider } from './providers/anthropic-provider';
-import { LLMProvider, CommonLLMOptions, CommonLLMResponse } from './types';
+import { OpenAIProvider } from './providers/openai-provider';
+import { GoogleProvider } from './providers/google-provider';
+import { logger } from '../../shared/utils/logging.utils';
+import { DataFlowLoggerService } from '../data-flow-logger';
+import { resolveRetryPolicy, withRetry, RetryAttemptInfo } from './utils/retry.utils';
+import {
+  CircuitBreaker,
+  ResolvedCircuitBreakerConfig,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  getCircuitBreakerKey
+} from './utils/circuit-breaker.utils';
+import { ConcurrencyLimiter, resolveMaxConcurrent } from './utils/concurrency-limiter.utils';
+import { MemoryCacheStore, CacheKeyInput, createCacheKey, isCacheEntryExpired } from './utils/response-cache.utils';
+import { SingleFlight, createDeduplicationKey } from './utils/single-flight.utils';
+import {
+  SemanticCacheIndex,
+  getSemanticCachePrompt,
+  DEFAULT_SEMANTIC_CACHE_THRESHOLD
+} from './utils/semantic-cache.utils';
+import {
+  LLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  LLMStreamEvent,
+  ChatMessage,
+  EmbeddingOptions,
+  EmbeddingResponse,
+  LLMServiceCallOptions,
+  FallbackStep,
+  FallbackConditions,
+  FallbackAttempt,
+  LLMInterceptor,
+  LLMRequestContext,
+  LLMCallMethod,
+  RetryPolicy,
+  CircuitBreakerConfig,
+  CircuitBreakerStatus,
+  CircuitStateChangeEvent,
+  ConcurrencyLimitConfig,
+  EndpointQueueStatus,
+  QueueInfo,
+  ResponseCacheConfig,
+  ResponseCacheStore,
+  CachedResponse,
+  CacheInfo
+} from './types';
+import { LLMTimeoutError, LLMInvalidRequestError } from './errors';
+
+/**
+ * Connection settings that belong to a specific provider and are not carried over
+ * to fallback steps that use a different provider
+ */
+const CONNECTION_OPTIONS = ['model', 'baseUrl', 'hosts', 'authToken'];
+
+/**
+ * Options the service reads before invoking a provider
+ */
+type ProviderInvocationOptions = Pick<
+  CommonLLMOptions,
+  'retry' | 'model' | 'baseUrl' | 'debugContext' | 'signal' | 'priority' | 'queueTimeoutMs'
+>;
 
 export class LLMService {
-  private providers: Map<LLMProvider, BaseLLMProvider>;
-  private defaultProvider: LLMProvider = LLMProvider.OLLAMA;
+  private providers: Map<LLMProvider | string, BaseLLMProvider>;
+  private defaultProvider: LLMProvider | string = LLMProvider.OLLAMA;
+  private fallbackChains: Map<string, FallbackStep[]> = new Map();
+  private interceptors: LLMInterceptor[] = [];
+  private retryPolicy: RetryPolicy | false = false;
+  private circuitBreakerConfig: ResolvedCircuitBreakerConfig | null = null;
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private circuitListeners: Array<(event: CircuitStateChangeEvent) => void> = [];
+  private concurrencyConfig: ConcurrencyLimitConfig | null = null;
+  private concurrencyLimiters: Map<string, ConcurrencyLimiter> = new Map();
+  private responseCache: {
+    store: ResponseCacheStore;
+    ttlMs?: number;
+    semantic?: { embed: (text: string) => Promise<number[]>; threshold: number; index: SemanticCacheIndex };
+  } | null = null;
+  private deduplication = true;
+  private singleFlight = new SingleFlight();
+  private dataFlowLogger = DataFlowLoggerService.getInstance();
 
   constructor() {
     this.providers = new Map();
     // Initialize available providers
     this.providers.set(LLMProvider.OLLAMA, new OllamaProvider());
     this.providers.set(LLMProvider.ANTHROPIC, new AnthropicProvider());
+    this.providers.set(LLMProvider.OPENAI, new OpenAIProvider());
+    this.providers.set(LLMProvider.GOOGLE, new GoogleProvider());
+  }
+
+  /**
+   * Register a provider instance under a name
+   * Any BaseLLMProvider subclass can be registered, including several instances of the
+   * same class (e.g. two Ollama hosts) under different names. Registering an existing
+   * name replaces the previous instance.
+   *
+   * @param name - Name used to select the provider via `options.provider`
+   * @param provider - The provider instance
+   *
+   * @example
+   * ```typescript
+   * llmService.registerProvider('ollama-gpu', new OllamaProvider({ name: 'ollama-gpu', baseUrl: 'http://gpu-box:11434' }));
+   * await llmService.call('Hello', { provider: 'ollama-gpu', model: 'llama3.1' });
+   * ```
+   */
+  public registerProvider(name: LLMProvider | string, provider: BaseLLMProvider): void {
+    if (!name) {
+      throw new Error('Provider name must not be empty');
+    }
+    if (!(provider instanceof BaseLLMProvider)) {
+      throw new Error(`Provider ${name} must extend BaseLLMProvider`);
+    }
+    this.providers.set(name, provider);
+  }
+
+  /**
+   * Remove a registered provider
+   *
+   * @param name - Name the provider was registered under
+   * @returns true if a provider was removed, false if none was registered under that name
+   * @throws Error if the provider is the current default provider
+   */
+  public unregisterProvider(name: LLMProvider | string): boolean {
+    if (name === this.defaultProvider && this.providers.has(name)) {
+      throw new Error(`Provider ${name} is the default provider. Set another default provider before unregistering it.`);
+    }
+    return this.providers.delete(name);
+  }
+
+  /**
+   * Check whether a provider is registered under a name
+   */
+  public hasProvider(name: LLMProvider | string): boolean {
+    return this.providers.has(name);
   }
 
   /**
    * Get a specific provider instance
+   * Pass the expected provider class to get a typed instance (checked at runtime)
+   *
+   * @example
+   * ```typescript
+   * const ollama = llmService.getProvider('ollama-gpu', OllamaProvider); // typed as OllamaProvider
+   * ```
+   *
+   * @throws Error if no provider is registered under the name, or it is not an instance of providerClass
    */
-  public getProvider(provider: LLMProvider): BaseLLMProvider {
+  public getProvider<T extends BaseLLMProvider = BaseLLMProvider>(
+    provider: LLMProvider | string,
+    providerClass?: abstract new (...args: any[]) => T
+  ): T {
     const providerInstance = this.providers.get(provider);
     if (!providerInstance) {
       throw new Error(`Provider ${provider} is not available. Available providers: ${Array.from(this.providers.keys()).join(', ')}`);
     }
-    return providerInstance;
+    if (providerClass && !(providerInstance instanceof providerClass)) {
+      throw new Error(`Provider ${provider} is a ${providerInstance.constructor.name}, not a ${providerClass.name}`);
+    }
+    return providerInstance as T;
   }
 
   /**
    * Set the default provider for all requests
    */
-  public setDefaultProvider(provider: LLMProvider): void {
+  public setDefaultProvider(provider: LLMProvider | string): void {
     if (!this.providers.has(provider)) {
       throw new Error(`Provider ${provider} is not available`);
     }
@@ -43,10 +181,265 @@ export class LLMService {
   /**
    * Get the current default provider
    */
-  public getDefaultProvider(): LLMProvider {
+  public getDefaultProvider(): LLMProvider | string {
     return this.defaultProvider;
   }
 
+  /**
+   * Add an interceptor to the end of the pipeline
+   * Interceptors run around every call(), callWithSystemMessage() and callWithMessages()
+   * on every provider (streaming and embedding calls are not intercepted)
+   *
+   * @example
+   * ```typescript
+   * llmService.addInterceptor({
+   *   name: 'tenant',
+   *   beforeRequest: (context) => {
+   *     context.options.headers = { ...context.options.headers, 'X-Tenant-Id': tenantId };
+   *   }
+   * });
+   * ```
+   */
+  public addInterceptor(interceptor: LLMInterceptor): void {
+    if (!interceptor.beforeRequest && !interceptor.afterResponse && !interceptor.onError) {
+      throw new Error(`Interceptor ${interceptor.name || '(unnamed)'} must implement at least one hook`);
+    }
+    this.interceptors.push(interceptor);
+  }
+
+  /**
+   * Remove an interceptor by instance or name
+   * @returns true if an interceptor was removed
+   */
+  public removeInterceptor(interceptor: LLMInterceptor | string): boolean {
+    const index = this.interceptors.findIndex(candidate =>
+      typeof interceptor === 'string' ? candidate.name === interceptor : candidate === interceptor
+    );
+    if (index === -1) {
+      return false;
+    }
+    this.interceptors.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the registered interceptors in pipeline order
+   */
+  public getInterceptors(): LLMInterceptor[] {
+    return [...this.interceptors];
+  }
+
+  /**
+   * Set the retry policy for all calls (false disables retries, the default)
+   * Calls can override single fields or disable retries via `options.retry`
+   *
+   * @example
+   * ```typescript
+   * llmService.setRetryPolicy({ maxAttempts: 4, initialDelayMs: 1000, deadlineMs: 120000 });
+   *
+   * // No retries for this call
+   * await llmService.call(prompt, { retry: false });
+   * ```
+   */
+  public setRetryPolicy(policy: RetryPolicy | false): void {
+    this.retryPolicy = policy;
+  }
+
+  /**
+   * Get the retry policy for all calls
+   */
+  public getRetryPolicy(): RetryPolicy | false {
+    return this.retryPolicy;
+  }
+
+  /**
+   * Enable circuit breakers per provider endpoint (provider name + base URL), or disable them with false
+   * While an endpoint's circuit is open, calls fail fast with LLMCircuitOpenError instead of
+   * waiting for the request timeout. Changing the config resets all breakers.
+   * A load-balanced Ollama host pool is one endpoint; failing hosts within it are handled by the pool's hostHealth.
+   * Streaming calls pass the breaker too.
+   *
+   * @example
+   * ```typescript
+   * llmService.setCircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 60000 });
+   * llmService.onCircuitStateChange(event => alerting.notify(`${event.key}: ${event.from} -> ${event.to}`));
+   * ```
+   */
+  public setCircuitBreaker(config: CircuitBreakerConfig | false): void {
+    this.circuitBreakerConfig = config ? { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config } : null;
+    this.circuitBreakers.clear();
+  }
+
+  /**
+   * Get the state of every endpoint that has been called since circuit breakers were enabled
+   * Suitable for health check endpoints
+   */
+  public getCircuitBreakerStatus(): CircuitBreakerStatus[] {
+    return Array.from(this.circuitBreakers.values()).map(breaker => breaker.getStatus());
+  }
+
+  /**
+   * Close the circuit of one endpoint (by key, see CircuitBreakerStatus.key) or of all endpoints
+   * @returns true if a circuit was reset
+   */
+  public resetCircuitBreaker(key?: string): boolean {
+    if (key === undefined) {
+      this.circuitBreakers.forEach(breaker => breaker.reset());
+      return this.circuitBreakers.size > 0;
+    }
+    const breaker = this.circuitBreakers.get(key);
+    breaker?.reset();
+    return !!breaker;
+  }
+
+  /**
+   * Listen for circuit state changes
+   * @returns Function that removes the listener
+   */
+  public onCircuitStateChange(listener: (event: CircuitStateChangeEvent) => void): () => void {
+    this.circuitListeners.push(listener);
+    return () => {
+      this.circuitListeners = this.circuitListeners.filter(candidate => candidate !== listener);
+    };
+  }
+
+  /**
+   * Limit concurrent requests per provider endpoint (provider name + base URL), or remove the limit with false
+   * Requests over the limit wait in a queue ordered by `options.priority`. Changing the config applies
+   * to new requests; requests already queued or running keep their slot.
+   * A load-balanced Ollama host pool is one endpoint, so the limit applies to the pool as a whole.
+   * A streaming call holds its slot until the stream ends or the consumer stops reading.
+   *
+   * @example
+   * ```typescript
+   * llmService.setConcurrencyLimit({ maxConcurrent: 2, queueTimeoutMs: 120000, endpoints: { anthropic: 20 } });
+   *
+   * // Nightly job: queued behind interactive and normal requests
+   * await llmService.call(prompt, { priority: 'batch' });
+   * ```
+   */
+  public setConcurrencyLimit(config: ConcurrencyLimitConfig | false): void {
+    this.concurrencyConfig = config ? { ...config } : null;
+    this.concurrencyLimiters.clear();
+  }
+
+  /**
+   * Get active and queued requests of every endpoint that has been called since the limit was set
+   */
+  public getQueueStatus(): EndpointQueueStatus[] {
+    return Array.from(this.concurrencyLimiters.values()).map(limiter => limiter.getStatus());
+  }
+
+  /**
+   * Cache responses of call(), callWithSystemMessage() and callWithMessages(), or disable the cache with false
+   * Responses are keyed by provider, model, messages and the parameters that change the answer
+   * (not by URL, auth token, headers, timeouts or logging options). Calls choose via
+   * `options.cachePolicy` whether they read and write the cache. With `semantic`, prompts similar to a
+   * cached prompt of the same provider, model, system message and parameters are answered as well.
+   *
+   * @example
+   * ```typescript
+   * // Keep answers across test runs
+   * llmService.setResponseCache({ store: new FileCacheStore('.cache/llm'), ttlMs: 7 * 24 * 3600 * 1000 });
+   *
+   * // Always ask the model, but store the new answer
+   * await llmService.call(prompt, { cachePolicy: 'refresh' });
+   *
+   * // Match rephrased prompts
+   * llmService.setResponseCache({
+   *   semantic: {
+   *     embed: async text => (await llmService.embed(text, { model: 'nomic-embed-text' }))!.embeddings[0],
+   *     threshold: 0.97
+   *   }
+   * });
+   * ```
+   *
+   * @throws Error if the semantic threshold is not greater than 0 and at most 1
+   */
+  public setResponseCache(config: ResponseCacheConfig | false): void {
+    if (!config) {
+      this.responseCache = null;
+      return;
+    }
+
+    const { semantic } = config;
+    const threshold = semantic?.threshold ?? DEFAULT_SEMANTIC_CACHE_THRESHOLD;
+    if (!(threshold > 0 && threshold <= 1)) {
+      throw new Error('Semantic cache threshold must be greater than 0 and at most 1');
+    }
+    this.responseCache = {
+      store: config.store || new MemoryCacheStore(),
+      ttlMs: config.ttlMs,
+      ...(semantic && { semantic: { embed: semantic.embed, threshold, index: new SemanticCacheIndex(semantic.maxEntries) } })
+    };
+  }
+
+  /**
+   * Remove all entries from the response cache
+   */
+  public async clearResponseCache(): Promise<void> {
+    this.responseCache?.semantic?.index.clear();
+    await this.responseCache?.store.clear();
+  }
+
+  /**
+   * Let concurrent identical calls share one provider call (the default), or turn this off with false
+   * Requests are identical if provider, model, messages and the parameters that change the answer match
+   * and they use the same connection (base URL or hosts, authToken, headers) and timeoutMs.
+   * Calls opt out via `options.deduplicate: false`.
+   * A caller that aborts leaves the shared call; it is cancelled once every caller has aborted.
+   */
+  public setDeduplication(enabled: boolean): void {
+    this.deduplication = enabled;
+  }
+
+  /**
+   * Register a named fallback chain
+   * Select it per call via `options.fallbackChain` (or BaseAIUseCase.getFallbackChain())
+   *
+   * @param name - Name of the chain
+   * @param steps - Providers to try in order
+   *
+   * @example
+   * ```typescript
+   * llmService.registerFallbackChain('resilient', [
+   *   { provider: LLMProvider.OLLAMA, fallbackOn: { timeoutMs: 60000 } },
+   *   { provider: LLMProvider.OLLAMA, model: 'llama3.2:3b' },
+   *   { provider: LLMProvider.ANTHROPIC, model: 'claude-3-5-haiku-20241022' }
+   * ]);
+   *
+   * const response = await llmService.call(prompt, { model: 'llama3.1:70b', fallbackChain: 'resilient' });
+   * console.log(response?.metadata?.fallback); // { step: 1, provider: 'ollama', model: 'llama3.2:3b', attempts: [...] }
+   * ```
+   */
+  public registerFallbackChain(name: string, steps: FallbackStep[]): void {
+    if (!name) {
+      throw new Error('Fallback chain name must not be empty');
+    }
+    this.validateFallbackSteps(steps);
+    this.fallbackChains.set(name, steps);
+  }
+
+  /**
+   * Remove a registered fallback chain
+   * @returns true if a chain was removed, false if none was registered under that name
+   */
+  public unregisterFallbackChain(name: string): boolean {
+    return this.fallbackChains.delete(name);
+  }
+
+  /**
+   * Get the steps of a registered fallback chain
+   * @throws Error if no chain is registered under the name
+   */
+  public getFallbackChain(name: string): FallbackStep[] {
+    const steps = this.fallbackChains.get(name);
+    if (!steps) {
+      throw new Error(`Fallback chain ${name} is not registered. Registered chains: ${Array.from(this.fallbackChains.keys()).join(', ') || 'none'}`);
+    }
+    return steps;
+  }
+
   /**
    * Call an LLM with a custom system message
    * Uses the specified provider or the default provider
@@ -54,11 +447,13 @@ export class LLMService {
   public async callWithSystemMessage(
     userPrompt: string,
     systemMessage: string,
-    options: CommonLLMOptions & { provider?: LLMProvider } = {}
+    options: LLMServiceCallOptions = {}
   ): Promise<CommonLLMResponse | null> {
-    const provider = options.provider || this.defaultProvider;
-    const providerInstance = this.getProvider(provider);
-    return providerInstance.callWithSystemMessage(userPrompt, systemMessage, options);
+    return this.runInterceptors(
+      this.createRequestContext('callWithSystemMessage', options, { userPrompt, systemMessage }),
+      (providerInstance, callOptions, context) =>
+        providerInstance.callWithSystemMessage(context.userPrompt!, context.systemMessage!, callOptions)
+    );
   }
 
   /**
@@ -67,19 +462,724 @@ export class LLMService {
    */
   public async call(
     prompt: string,
-    options: CommonLLMOptions & { provider?: LLMProvider } = {}
+    options: LLMServiceCallOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    return this.runInterceptors(
+      this.createRequestContext('call', options, { userPrompt: prompt }),
+      (providerInstance, callOptions, context) => providerInstance.call(context.userPrompt!, callOptions)
+    );
+  }
+
+  /**
+   * Call an LLM with a multi-turn message array (chat history, assistant turns)
+   * Uses the specified provider or the default provider
+   *
+   * @example
+   * ```typescript
+   * const response = await llmService.callWithMessages([
+   *   { role: 'system', content: 'You are a helpful assistant.' },
+   *   { role: 'user', content: 'What is the capital of France?' },
+   *   { role: 'assistant', content: 'Paris.' },
+   *   { role: 'user', content: 'And of Germany?' }
+   * ], { provider: LLMProvider.ANTHROPIC });
+   * ```
+   */
+  public async callWithMessages(
+    messages: ChatMessage[],
+    options: LLMServiceCallOptions = {}
   ): Promise<CommonLLMResponse | null> {
+    return this.runInterceptors(
+      this.createRequestContext('callWithMessages', options, { messages }),
+      (providerInstance, callOptions, context) => providerInstance.callWithMessages(context.messages!, callOptions)
+    );
+  }
+
+  /**
+   * Stream an LLM response for a multi-turn message array
+   * Uses the specified provider or the default provider
+   */
+  public streamWithMessages(
+    messages: ChatMessage[],
+    options: CommonLLMOptions & { provider?: LLMProvider | string } = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const provider = options.provider || this.defaultProvider;
+    const providerInstance = this.getProvider(provider);
+    return this.guardStream(providerInstance, String(provider), options, streamOptions =>
+      providerInstance.streamWithMessages(messages, streamOptions)
+    );
+  }
+
+  /**
+   * Stream an LLM response with a custom system message
+   * Uses the specified provider or the default provider
+   *
+   * @example
+   * ```typescript
+   * for await (const event of llmService.streamWithSystemMessage(prompt, system, { model })) {
+   *   if (event.type === 'delta') process.stdout.write(event.content);
+   *   else console.log(event.usage);
+   * }
+   * ```
+   */
+  public streamWithSystemMessage(
+    userPrompt: string,
+    systemMessage: string,
+    options: CommonLLMOptions & { provider?: LLMProvider | string } = {}
+  ): AsyncGenerator<LLMStreamEvent> {
     const provider = options.provider || this.defaultProvider;
     const providerInstance = this.getProvider(provider);
-    return providerInstance.call(prompt, options);
+    return this.guardStream(providerInstance, String(provider), options, streamOptions =>
+      providerInstance.streamWithSystemMessage(userPrompt, systemMessage, streamOptions)
+    );
+  }
+
+  /**
+   * Stream an LLM response with the default system message
+   * Uses the specified provider or the default provider
+   */
+  public stream(
+    prompt: string,
+    options: CommonLLMOptions & { provider?: LLMProvider | string } = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const provider = options.provider || this.defaultProvider;
+    const providerInstance = this.getProvider(provider);
+    return this.guardStream(providerInstance, String(provider), options, streamOptions =>
+      providerInstance.stream(prompt, streamOptions)
+    );
+  }
+
+  /**
+   * Create embedding vectors for one or more texts
+   * Uses the specified provider or the default provider
+   *
+   * @example
+   * ```typescript
+   * const result = await llmService.embed(['first chunk', 'second chunk'], {
+   *   provider: LLMProvider.OLLAMA,
+   *   model: 'nomic-embed-text'
+   * });
+   * console.log(result?.dimensions, result?.usage?.inputTokens);
+   * ```
+   */
+  public async embed(
+    texts: string | string[],
+    options: EmbeddingOptions & { provider?: LLMProvider | string } = {}
+  ): Promise<EmbeddingResponse | null> {
+    const provider = options.provider || this.defaultProvider;
+    const providerInstance = this.getProvider(provider);
+    return this.invokeProvider(providerInstance, String(provider), options, callOptions => providerInstance.embed(texts, callOptions));
   }
 
   /**
    * Get list of available providers
    */
-  public getAvailableProviders(): LLMProvider[] {
+  public getAvailableProviders(): Array<LLMProvider | string> {
     return Array.from(this.providers.keys());
   }
+
+  /**
+   * Create the request context for the interceptor pipeline
+   */
+  private createRequestContext(
+    method: LLMCallMethod,
+    options: LLMServiceCallOptions,
+    input: Pick<LLMRequestContext, 'userPrompt' | 'systemMessage' | 'messages'>
+  ): LLMRequestContext {
+    return {
+      method,
+      provider: options.provider || this.defaultProvider,
+      ...input,
+      options: { ...options },
+      state: {}
+    };
+  }
+
+  /**
+   * Run a call through the interceptor pipeline
+   * beforeRequest hooks run in order and may short-circuit with a response; afterResponse and
+   * onError hooks run in reverse order for every interceptor whose beforeRequest stage was reached
+   */
+  private async runInterceptors(
+    context: LLMRequestContext,
+    invoke: (providerInstance: BaseLLMProvider, options: CommonLLMOptions, context: LLMRequestContext) => Promise<CommonLLMResponse | null>
+  ): Promise<CommonLLMResponse | null> {
+    const entered: LLMInterceptor[] = [];
+    let response: CommonLLMResponse | null | undefined;
+
+    try {
+      for (const interceptor of this.interceptors) {
+        entered.push(interceptor);
+        const shortCircuit = interceptor.beforeRequest ? await interceptor.beforeRequest(context) : undefined;
+        if (shortCircuit) {
+          response = shortCircuit;
+          break;
+        }
+      }
+
+      if (response === undefined) {
+        response = await this.dispatch(context, invoke);
+      }
+    } catch (error) {
+      for (const interceptor of [...entered].reverse()) {
+        const recovered = interceptor.onError ? await interceptor.onError(error, context) : undefined;
+        if (recovered) {
+          return recovered;
+        }
+      }
+      throw error;
+    }
+
+    for (const interceptor of [...entered].reverse()) {
+      if (!interceptor.afterResponse) continue;
+      const replacement = await interceptor.afterResponse(response, context);
+      if (replacement !== undefined) {
+        response = replacement;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Call the context's provider, or its fallback chain if one is set
+   */
+  private async dispatch(
+    context: LLMRequestContext,
+    invoke: (providerInstance: BaseLLMProvider, options: CommonLLMOptions, context: LLMRequestContext) => Promise<CommonLLMResponse | null>
+  ): Promise<CommonLLMResponse | null> {
+    const options: LLMServiceCallOptions = { ...context.options, provider: context.provider };
+    const call = (providerInstance: BaseLLMProvider, provider: string, callOptions: CommonLLMOptions) =>
+      this.withResponseCache(provider, callOptions, context, uncachedOptions =>
+        this.deduplicate(provider, uncachedOptions, context, sharedOptions =>
+          this.invokeProvider(providerInstance, provider, sharedOptions, providerOptions => invoke(providerInstance, providerOptions, context))
+        )
+      );
+
+    if (options.fallbackChain) {
+      return this.callWithFallback(options, (providerInstance, stepOptions, provider) => call(providerInstance, provider, stepOptions));
+    }
+    return call(this.getProvider(context.provider), String(context.provider), options);
+  }
+
+  /**
+   * Answer a call from the response cache, or invoke the provider and store its response
+   * Fallback steps are cached separately; cache options are not passed on to the provider.
+   * A failing cache store or embedding function is logged and never fails the call.
+   * @throws LLMInvalidRequestError if semanticCacheThreshold is not greater than 0 and at most 1
+   */
+  private async withResponseCache(
+    provider: string,
+    options: CommonLLMOptions,
+    context: LLMRequestContext,
+    invoke: (options: CommonLLMOptions) => Promise<CommonLLMResponse | null>
+  ): Promise<CommonLLMResponse | null> {
+    const { cachePolicy = 'use', cacheTtlMs, semanticCacheThreshold, ...callOptions } = options;
+    if (semanticCacheThreshold !== undefined && !(semanticCacheThreshold > 0 && semanticCacheThreshold <= 1)) {
+      throw new LLMInvalidRequestError('Semantic cache threshold must be greater than 0 and at most 1', {
+        provider,
+        model: callOptions.model
+      });
+    }
+    if (!this.responseCache || cachePolicy === 'bypass') {
+      return invoke(callOptions);
+    }
+
+    const { store, semantic } = this.responseCache;
+    const ttlMs = cacheTtlMs ?? this.responseCache.ttlMs;
+    const keyInput: CacheKeyInput = {
+      provider,
+      model: callOptions.model,
+      method: context.method,
+      userPrompt: context.userPrompt,
+      systemMessage: context.systemMessage,
+      messages: context.messages,
+      options: callOptions
+    };
+    const key = createCacheKey(keyInput);
+    const prompt = semantic ? getSemanticCachePrompt(keyInput) : undefined;
+    const embedPrompt = (): Promise<number[] | undefined> =>
+      this.runCacheOperation('embedding', () => semantic!.embed(prompt!.text));
+    let vector: number[] | undefined;
+
+    if (cachePolicy === 'use') {
+      const entry = await this.readCacheEntry(store, key);
+      if (entry) {
+        return this.toCachedResponse(entry, { hit: true, key }, provider, callOptions.model);
+      }
+
+      if (semantic && prompt) {
+        vector = await embedPrompt();
+        const match = vector && semantic.index.findMatch(prompt.scope, vector, semanticCacheThreshold ?? semantic.threshold);
+        const matchedEntry = match && await this.readCacheEntry(store, match.key);
+        if (match && matchedEntry) {
+          return this.toCachedResponse(matchedEntry, { hit: true, key: match.key, similarity: match.similarity }, provider, callOptions.model);
+        }
+        if (match) {
+          semantic.index.remove(match.key);
+        }
+      }
+    }
+
+    const response = await invoke(callOptions);
+    if (!response) {
+      return response;
+    }
+
+    // Queueing and deduplication belong to this request, not to later answers from the cache
+    const cached: CommonLLMResponse = JSON.parse(JSON.stringify(response));
+    delete cached.metadata?.queue;
+    delete cached.metadata?.deduplicated;
+    const createdAt = Date.now();
+    await this.runCacheOperation('write', () => store.set(key, {
+      response: cached,
+      createdAt,
+      ...(ttlMs !== undefined && { expiresAt: createdAt + ttlMs })
+    }));
+
+    if (semantic && prompt) {
+      vector = vector ?? await embedPrompt();
+      if (vector) {
+        semantic.index.add(key, prompt.scope, vector);
+      }
+    }
+
+    response.metadata = {
+      ...(response.metadata || { provider, model: callOptions.model || '' }),
+      cache: { hit: false, key }
+    };
+    return response;
+  }
+
+  /**
+   * Share the provider call with identical requests in flight (unless deduplication is off)
+   * The provider is called with a shared signal; requests that joined get a copy of the response.
+   */
+  private async deduplicate(
+    provider: string,
+    options: CommonLLMOptions,
+    context: LLMRequestContext,
+    invoke: (options: CommonLLMOptions) => Promise<CommonLLMResponse | null>
+  ): Promise<CommonLLMResponse | null> {
+    const { deduplicate = this.deduplication, ...callOptions } = options;
+    if (!deduplicate) {
+      return invoke(callOptions);
+    }
+
+    const key = createDeduplicationKey({
+      provider,
+      model: callOptions.model,
+      method: context.method,
+      userPrompt: context.userPrompt,
+      systemMessage: context.systemMessage,
+      messages: context.messages,
+      options: callOptions
+    });
+    const { result, shared } = await this.singleFlight.run(
+      key,
+      provider,
+      callOptions.signal,
+      // Without a signal of its own, the starting request never leaves, so the shared signal never aborts
+      signal => invoke(callOptions.signal ? { ...callOptions, signal } : callOptions),
+      response => response && JSON.parse(JSON.stringify(response))
+    );
+
+    if (shared && result) {
+      result.metadata = { ...(result.metadata || { provider, model: callOptions.model || '' }), deduplicated: true };
+    }
+    return result;
+  }
+
+  /**
+   * Read a cache entry, deleting it if it has expired
+   */
+  private async readCacheEntry(store: ResponseCacheStore, key: string): Promise<CachedResponse | undefined> {
+    const entry = await this.runCacheOperation('read', () => store.get(key));
+    if (entry && isCacheEntryExpired(entry)) {
+      await this.runCacheOperation('delete', () => store.delete(key));
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Copy a cached response (so callers cannot modify the entry) and record the cache hit
+   */
+  private toCachedResponse(
+    entry: CachedResponse,
+    info: Omit<CacheInfo, 'ageMs'>,
+    provider: string,
+    model?: string
+  ): CommonLLMResponse {
+    const response: CommonLLMResponse = JSON.parse(JSON.stringify(entry.response));
+    response.metadata = {
+      ...(response.metadata || { provider, model: model || '' }),
+      cache: { ...info, ageMs: Date.now() - entry.createdAt }
+    };
+    return response;
+  }
+
+  /**
+   * Run a cache store operation, logging instead of throwing on failure
+   */
+  private async runCacheOperation<T>(operation: string, run: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await run();
+    } catch (error) {
+      logger.warn(`Response cache ${operation} failed: ${error instanceof Error ? error.message : String(error)}`, {
+        context: this.constructor.name
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Run a call through a fallback chain
+   * Each step is tried in order until one answers; the step's fallbackOn conditions decide whether
+   * an error, timeout, null or empty response moves on to the next step. The last step's outcome
+   * is returned (or thrown) as is.
+   */
+  private async callWithFallback(
+    options: LLMServiceCallOptions,
+    invoke: (providerInstance: BaseLLMProvider, stepOptions: CommonLLMOptions, provider: string) => Promise<CommonLLMResponse | null>
+  ): Promise<CommonLLMResponse | null> {
+    const { fallbackChain, provider: callProvider = this.defaultProvider, ...callOptions } = options;
+    const chainName = typeof fallbackChain === 'string' ? fallbackChain : undefined;
+    const steps = typeof fallbackChain === 'string' ? this.getFallbackChain(fallbackChain) : fallbackChain!;
+    this.validateFallbackSteps(steps);
+
+    const attempts: FallbackAttempt[] = [];
+
+    for (let step = 0; step < steps.length; step++) {
+      const { provider, model, options: stepOverrides, fallbackOn = {} } = steps[step];
+      const isLastStep = step === steps.length - 1;
+      const providerInstance = this.getProvider(provider);
+
+      // Model, URL, hosts and token of the call only apply to the provider they were meant for
+      const baseOptions: CommonLLMOptions = { ...callOptions };
+      if (provider !== callProvider) {
+        CONNECTION_OPTIONS.forEach(key => delete (baseOptions as Record<string, unknown>)[key]);
+      }
+      // A step with a time limit gets its own signal, so that its call is cancelled when the limit expires
+      const stepController = fallbackOn.timeoutMs ? new AbortController() : undefined;
+      const stepOptions: CommonLLMOptions = {
+        ...baseOptions,
+        ...(model && { model }),
+        ...stepOverrides,
+        ...(stepController && { signal: stepController.signal })
+      };
+
+      const stepStartTime = Date.now();
+      const recordAttempt = (reason: FallbackAttempt['reason'], error?: string): void => {
+        const attempt: FallbackAttempt = {
+          step,
+          provider: String(provider),
+          ...(stepOptions.model && { model: stepOptions.model }),
+          reason,
+          ...(error && { error }),
+          durationMs: Date.now() - stepStartTime
+        };
+        attempts.push(attempt);
+        logger.warn(`Fallback step ${step} (${attempt.provider}) failed: ${reason}. Trying the next step.`, {
+          context: this.constructor.name,
+          metadata: { chain: chainName, ...attempt }
+        });
+      };
+
+      let response: CommonLLMResponse | null;
+      try {
+        response = await this.runWithTimeout(
+          () => invoke(providerInstance, stepOptions, String(provider)),
+          { provider: String(provider), model: stepOptions.model, timeoutMs: fallbackOn.timeoutMs },
+          stepController,
+          callOptions.signal
+        );
+      } catch (error) {
+        const isTimeout = !!stepController?.signal.aborted && !callOptions.signal?.aborted;
+        // A cancelled call ends the chain
+        if (isLastStep || callOptions.signal?.aborted || (!isTimeout && !this.matchesErrorCondition(error, fallbackOn))) {
+          throw error;
+        }
+        recordAttempt(isTimeout ? 'timeout' : 'error', error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      if (!response) {
+        if (isLastStep || fallbackOn.nullResponse === false) {
+          return null;
+        }
+        recordAttempt('null');
+        continue;
+      }
+
+      const isEmpty = !response.message?.content?.trim() && !(response.toolCalls && response.toolCalls.length > 0);
+      if (isEmpty && !isLastStep && fallbackOn.emptyResponse !== false) {
+        recordAttempt('empty');
+        continue;
+      }
+
+      const answeredProvider = response.metadata?.provider || String(provider);
+      const answeredModel = response.metadata?.model || stepOptions.model;
+      response.metadata = {
+        ...(response.metadata || { provider: answeredProvider, model: answeredModel || '' }),
+        fallback: {
+          ...(chainName && { chain: chainName }),
+          step,
+          provider: answeredProvider,
+          ...(answeredModel && { model: answeredModel }),
+          attempts
+        }
+      };
+      return response;
+    }
+
+    // Unreachable: the last step always returns or throws
+    return null;
+  }
+
+  /**
+   * Invoke a provider, retrying failed attempts according to the service and call retry policies
+   * Each attempt passes the endpoint's circuit breaker and then waits for a slot of its concurrency
+   * limit (if enabled). Retry and queue options are not passed on to the provider; the queueing of
+   * the answering attempt is recorded in the result's metadata.
+   */
+  private async invokeProvider<TOptions extends ProviderInvocationOptions, TResult>(
+    providerInstance: BaseLLMProvider,
+    provider: string,
+    options: TOptions,
+    invoke: (options: Omit<TOptions, 'retry' | 'priority' | 'queueTimeoutMs'>) => Promise<TResult>
+  ): Promise<TResult> {
+    const { retry, priority, queueTimeoutMs, ...callOptions } = options;
+    const policy = resolveRetryPolicy(this.retryPolicy, retry);
+    const baseUrl = providerInstance.getBaseUrl(options);
+    const breaker = this.getCircuitBreaker(provider, baseUrl);
+    const limiter = this.getConcurrencyLimiter(provider, baseUrl);
+
+    let queue: QueueInfo | undefined;
+    const attempt = (): Promise<TResult> => limiter
+      ? limiter.run(
+        () => invoke(callOptions),
+        { priority, queueTimeoutMs: queueTimeoutMs ?? this.concurrencyConfig?.queueTimeoutMs, signal: options.signal },
+        info => { queue = info; }
+      )
+      : invoke(callOptions);
+
+    const result = await withRetry(
+      () => breaker ? breaker.execute(attempt) : attempt(),
+      policy,
+      info => this.logRetry(provider, callOptions, info),
+      options.signal
+    );
+
+    const metadata = (result as { metadata?: { queue?: QueueInfo } } | null)?.metadata;
+    if (queue && metadata) {
+      metadata.queue = queue;
+    }
+    return result;
+  }
+
+  /**
+   * Run a stream through the endpoint's circuit breaker and concurrency limit (if enabled)
+   * The stream holds its slot until it ends or the consumer stops reading; a failed stream counts
+   * as a failure of the endpoint. Streams are not retried.
+   */
+  private async *guardStream(
+    providerInstance: BaseLLMProvider,
+    provider: string,
+    options: CommonLLMOptions,
+    open: (options: CommonLLMOptions) => AsyncGenerator<LLMStreamEvent>
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { priority, queueTimeoutMs, ...streamOptions } = options;
+    const baseUrl = providerInstance.getBaseUrl(options);
+    const breaker = this.getCircuitBreaker(provider, baseUrl);
+    const limiter = this.getConcurrencyLimiter(provider, baseUrl);
+    if (!breaker && !limiter) {
+      yield* open(streamOptions);
+      return;
+    }
+
+    let started!: () => void;
+    let finish!: (error?: unknown) => void;
+    const slot = new Promise<void>(resolve => { started = resolve; });
+    const done = new Promise<void>((resolve, reject) => {
+      finish = error => error === undefined ? resolve() : reject(error);
+    });
+    const hold = (): Promise<void> => {
+      started();
+      return done;
+    };
+    const attempt = (): Promise<void> => limiter
+      ? limiter.run(hold, { priority, queueTimeoutMs: queueTimeoutMs ?? this.concurrencyConfig?.queueTimeoutMs, signal: options.signal })
+      : hold();
+    const lifetime = breaker ? breaker.execute(attempt) : attempt();
+    lifetime.catch(() => undefined);
+
+    // Rejects right away if the circuit is open, or when the queue wait times out or is aborted
+    await Promise.race([slot, lifetime]);
+    try {
+      yield* open(streamOptions);
+      finish();
+    } catch (error) {
+      finish(error ?? new Error('Stream failed'));
+      throw error;
+    } finally {
+      // The consumer stopped reading early
+      finish();
+    }
+  }
+
+  /**
+   * Get (or create) the concurrency limiter of a provider endpoint
+   * @returns undefined if no concurrency limit is set
+   */
+  private getConcurrencyLimiter(provider: string, baseUrl?: string): ConcurrencyLimiter | undefined {
+    if (!this.concurrencyConfig) {
+      return undefined;
+    }
+
+    const key = getCircuitBreakerKey(provider, baseUrl);
+    let limiter = this.concurrencyLimiters.get(key);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(provider, baseUrl, resolveMaxConcurrent(this.concurrencyConfig, provider, baseUrl));
+      this.concurrencyLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Get (or create) the circuit breaker of a provider endpoint
+   * @returns undefined if circuit breakers are disabled
+   */
+  private getCircuitBreaker(provider: string, baseUrl?: string): CircuitBreaker | undefined {
+    if (!this.circuitBreakerConfig) {
+      return undefined;
+    }
+
+    const key = getCircuitBreakerKey(provider, baseUrl);
+    let breaker = this.circuitBreakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(provider, baseUrl, this.circuitBreakerConfig, event => this.emitCircuitStateChange(event));
+      this.circuitBreakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Log a circuit state change and notify the listeners
+   */
+  private emitCircuitStateChange(event: CircuitStateChangeEvent): void {
+    const message = `Circuit breaker for ${event.key} changed from ${event.from} to ${event.to}`;
+    const meta = {
+      context: this.constructor.name,
+      metadata: {
+        provider: event.provider,
+        baseUrl: event.baseUrl,
+        ...(event.error !== undefined && { error: event.error instanceof Error ? event.error.message : String(event.error) })
+      }
+    };
+    if (event.to === 'open') {
+      logger.warn(message, meta);
+    } else {
+      logger.info(message, meta);
+    }
+
+    for (const listener of this.circuitListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Circuit state listener failed', {
+          context: this.constructor.name,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Log a retried attempt to the application log and the data flow log
+   */
+  private logRetry(provider: string, options: { model?: string; debugContext?: string }, info: RetryAttemptInfo): void {
+    const errorMessage = info.error instanceof Error ? info.error.message : String(info.error);
+    logger.warn(`Attempt ${info.attempt}/${info.maxAttempts} with ${provider} failed: ${errorMessage}. Retrying in ${info.delayMs}ms.`, {
+      context: this.constructor.name,
+      metadata: { provider, model: options.model, attempt: info.attempt, delayMs: info.delayMs, fromRetryAfter: info.fromRetryAfter }
+    });
+    this.dataFlowLogger.logRetryAttempt(
+      options.debugContext || `${provider}-retry`,
+      { debugContext: options.debugContext },
+      {
+        provider,
+        model: options.model,
+        attempt: info.attempt,
+        maxAttempts: info.maxAttempts,
+        delayMs: info.delayMs,
+        error: info.error
+      }
+    );
+  }
+
+  /**
+   * Check whether an error should move a fallback chain to the next step
+   */
+  private matchesErrorCondition(error: unknown, conditions: FallbackConditions): boolean {
+    const errorCondition = conditions.error ?? true;
+    if (typeof errorCondition === 'boolean') {
+      return errorCondition;
+    }
+    return errorCondition.some(errorClass => error instanceof errorClass);
+  }
+
+  /**
+   * Run a fallback step, or reject with LLMTimeoutError and abort the step's controller after timeoutMs
+   * The controller also aborts when the caller's signal aborts.
+   */
+  private async runWithTimeout<T>(
+    call: () => Promise<T>,
+    step: { provider: string; model?: string; timeoutMs?: number },
+    controller: AbortController | undefined,
+    callerSignal: AbortSignal | undefined
+  ): Promise<T> {
+    const { provider, model, timeoutMs } = step;
+    if (!timeoutMs || !controller) {
+      return call();
+    }
+
+    const forwardAbort = () => controller.abort();
+    if (callerSignal?.aborted) {
+      controller.abort();
+    } else {
+      callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new LLMTimeoutError(`Provider ${provider} did not answer within ${timeoutMs}ms`, { provider, model, timeoutMs }));
+        controller.abort();
+      }, timeoutMs);
+    });
+
+    const result = call();
+    // The cancelled call rejects after the timeout has been reported
+    result.catch(() => undefined);
+    try {
+      return await Promise.race([result, timeout]);
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  /**
+   * Validate the steps of a fallback chain
+   */
+  private validateFallbackSteps(steps: FallbackStep[] | undefined): void {
+    if (!steps || steps.length === 0) {
+      throw new Error('Fallback chain requires at least one step');
+    }
+    if (steps.some(step => !step.provider)) {
+      throw new Error('Every fallback step requires a provider');
+    }
+  }
 }
 
 // Export singleton instance
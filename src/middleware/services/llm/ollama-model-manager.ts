@@ -0,0 +1,278 @@
+/**
+ * Ollama Model Manager
+ * Lists, inspects, pulls and deletes models on an Ollama host, and checks at startup
+ * that every configured model is available
+ */
+
+import axios from 'axios';
+import { logger } from '../../shared/utils/logging.utils';
+import { MODELS } from '../../shared/config/models.config';
+import { ModelsConfigMap } from '../../shared/types';
+import {
+  OllamaModelManagerConfig,
+  OllamaModelRequestOptions,
+  OllamaPullOptions,
+  OllamaModel,
+  OllamaModelInfo,
+  OllamaRunningModel,
+  OllamaPullProgress,
+  OllamaModelCheckResult
+} from './types/ollama.types';
+import { parseNDJSON, readStreamToString } from './utils/stream.utils';
+import { toLLMError, createHttpError, LLMErrorContext } from './utils/llm-error.utils';
+import { DEFAULT_REQUEST_TIMEOUT_MS } from './utils/timeout.utils';
+
+/**
+ * Add the default tag to a model name without one ('llama3.1' -> 'llama3.1:latest')
+ */
+export function normalizeOllamaModelName(name: string): string {
+  const lastSegment = name.split('/').pop() || name;
+  return lastSegment.includes(':') ? name : `${name}:latest`;
+}
+
+export class OllamaModelManager {
+  /**
+   * @param config - Default connection settings, e.g. for a GPU host other than MODEL1_URL
+   */
+  constructor(private readonly config: OllamaModelManagerConfig = {}) {}
+
+  /**
+   * List the models available on the host (/api/tags)
+   */
+  public async listModels(options: OllamaModelRequestOptions = {}): Promise<OllamaModel[]> {
+    const data = await this.request<{ models?: OllamaModel[] }>('get', '/api/tags', undefined, options);
+    return data.models || [];
+  }
+
+  /**
+   * Check whether a model is available on the host
+   * Names without a tag match the 'latest' tag
+   */
+  public async hasModel(model: string, options: OllamaModelRequestOptions = {}): Promise<boolean> {
+    const wanted = normalizeOllamaModelName(model);
+    const models = await this.listModels(options);
+    return models.some(candidate => normalizeOllamaModelName(candidate.name) === wanted);
+  }
+
+  /**
+   * Get details, parameters, template and capabilities of a model (/api/show)
+   * @throws LLMModelNotFoundError if the model is not available on the host
+   */
+  public async showModel(model: string, options: OllamaModelRequestOptions = {}): Promise<OllamaModelInfo> {
+    return this.request<OllamaModelInfo>('post', '/api/show', { model }, options, model);
+  }
+
+  /**
+   * List the models currently loaded into memory (/api/ps)
+   */
+  public async listRunningModels(options: OllamaModelRequestOptions = {}): Promise<OllamaRunningModel[]> {
+    const data = await this.request<{ models?: OllamaRunningModel[] }>('get', '/api/ps', undefined, options);
+    return data.models || [];
+  }
+
+  /**
+   * Delete a model from the host (/api/delete)
+   * @throws LLMModelNotFoundError if the model is not available on the host
+   */
+  public async deleteModel(model: string, options: OllamaModelRequestOptions = {}): Promise<void> {
+    await this.request('delete', '/api/delete', { model }, options, model);
+    logger.info(`Deleted model ${model}`, {
+      context: this.constructor.name,
+      metadata: { baseUrl: this.getBaseUrl(options) }
+    });
+  }
+
+  /**
+   * Download a model from the registry (/api/pull), yielding progress events as they arrive
+   * The last event has status 'success'; breaking out of the loop cancels the download.
+   *
+   * @example
+   * ```typescript
+   * for await (const progress of manager.pullModel('llama3.1:8b')) {
+   *   if (progress.total) console.log(`${progress.status}: ${Math.round(100 * (progress.completed || 0) / progress.total)}%`);
+   * }
+   * ```
+   *
+   * @throws LLMError (subclass) when the pull fails
+   */
+  public async *pullModel(model: string, options: OllamaPullOptions = {}): AsyncGenerator<OllamaPullProgress> {
+    const baseUrl = this.getBaseUrl(options);
+    const errorContext = this.getErrorContext(options, model);
+    let stream: any;
+
+    logger.info(`Pulling model ${model}`, {
+      context: this.constructor.name,
+      metadata: { baseUrl }
+    });
+
+    try {
+      const response = await axios.post(`${baseUrl}/api/pull`, {
+        model,
+        stream: true,
+        ...(options.insecure !== undefined && { insecure: options.insecure })
+      }, {
+        headers: this.getHeaders(options),
+        responseType: 'stream',
+        timeout: errorContext.timeoutMs,
+        signal: options.signal
+      });
+      stream = response.data;
+
+      for await (const progress of parseNDJSON<OllamaPullProgress & { error?: string }>(stream)) {
+        if (progress.error) {
+          throw new Error(progress.error);
+        }
+        yield progress;
+        if (progress.status === 'success') {
+          logger.info(`Pulled model ${model}`, {
+            context: this.constructor.name,
+            metadata: { baseUrl }
+          });
+          return;
+        }
+      }
+      throw new Error(`Pull of model ${model} ended without success`);
+    } catch (error) {
+      const axiosError = error as any;
+      // With responseType 'stream' the error body is a stream as well
+      if (axiosError?.isAxiosError && axiosError.response) {
+        let errorData = axiosError.response.data;
+        if (errorData && typeof errorData[Symbol.asyncIterator] === 'function') {
+          const rawBody = await readStreamToString(errorData).catch(() => '');
+          try {
+            errorData = JSON.parse(rawBody);
+          } catch {
+            errorData = rawBody;
+          }
+        }
+        throw createHttpError(axiosError.response.status, errorData, errorContext, axiosError.response.headers, error);
+      }
+      throw toLLMError(error, errorContext);
+    } finally {
+      // Release the connection if the consumer stopped early or an error occurred
+      if (stream && typeof stream.destroy === 'function' && !stream.destroyed) {
+        stream.destroy();
+      }
+    }
+  }
+
+  /**
+   * Check that every configured model is available on its host(s)
+   * Run it at startup so that a missing model shows up immediately instead of on the first request.
+   * Every host of a load-balanced config (baseUrls) is checked; each host is asked once per bearer token.
+   *
+   * @param models - Model configs to check (default: MODELS)
+   * @param options.throwOnMissing - Throw if any model is not available (default: false, only log warnings)
+   * @returns One result per config and host
+   * @throws Error listing the unavailable models if throwOnMissing is set
+   *
+   * @example
+   * ```typescript
+   * await new OllamaModelManager().checkConfiguredModels(MODELS, { throwOnMissing: true });
+   * app.listen(port);
+   * ```
+   */
+  public async checkConfiguredModels(
+    models: ModelsConfigMap = MODELS,
+    options: { throwOnMissing?: boolean } = {}
+  ): Promise<OllamaModelCheckResult[]> {
+    const hostModels = new Map<string, Promise<OllamaModel[]>>();
+    const results: OllamaModelCheckResult[] = [];
+
+    for (const [key, config] of Object.entries(models)) {
+      const hosts = config.baseUrls?.length ? config.baseUrls : [config.baseUrl];
+      for (const host of hosts) {
+        if (!config.name) {
+          results.push({ key, host, available: false, error: 'No model name configured' });
+          continue;
+        }
+
+        const listKey = JSON.stringify([host, config.bearerToken ?? null]);
+        if (!hostModels.has(listKey)) {
+          hostModels.set(listKey, this.listModels({ baseUrl: host, authToken: config.bearerToken }));
+        }
+        try {
+          const wanted = normalizeOllamaModelName(config.name);
+          const available = (await hostModels.get(listKey)!).some(model => normalizeOllamaModelName(model.name) === wanted);
+          results.push({
+            key,
+            model: config.name,
+            host,
+            available,
+            ...(!available && { error: `Model ${config.name} is not available on ${host} (pull it with: ollama pull ${config.name})` })
+          });
+        } catch (error) {
+          results.push({
+            key,
+            model: config.name,
+            host,
+            available: false,
+            error: `Host ${host} could not be reached: ${error instanceof Error ? error.message : String(error)}`
+          });
+        }
+      }
+    }
+
+    const missing = results.filter(result => !result.available);
+    missing.forEach(result => logger.warn(`Model check failed for ${result.key}: ${result.error}`, {
+      context: this.constructor.name,
+      metadata: { key: result.key, model: result.model, host: result.host }
+    }));
+    if (missing.length === 0) {
+      logger.info(`All configured models are available (${results.length} checked)`, { context: this.constructor.name });
+    }
+
+    if (options.throwOnMissing && missing.length > 0) {
+      throw new Error(`Configured models are not available: ${missing.map(result => `${result.key} (${result.error})`).join('; ')}`);
+    }
+    return results;
+  }
+
+  /**
+   * Send a request to the Ollama API and map failures to typed errors
+   */
+  private async request<T>(
+    method: 'get' | 'post' | 'delete',
+    path: string,
+    body: Record<string, any> | undefined,
+    options: OllamaModelRequestOptions,
+    model?: string
+  ): Promise<T> {
+    const errorContext = this.getErrorContext(options, model);
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${this.getBaseUrl(options)}${path}`,
+        ...(body && { data: body }),
+        headers: this.getHeaders(options),
+        timeout: errorContext.timeoutMs,
+        signal: options.signal
+      });
+      return response.data;
+    } catch (error) {
+      throw toLLMError(error, errorContext);
+    }
+  }
+
+  private getBaseUrl(options: OllamaModelRequestOptions): string {
+    return options.baseUrl || this.config.baseUrl || process.env.MODEL1_URL || 'http://localhost:11434';
+  }
+
+  private getHeaders(options: OllamaModelRequestOptions): Record<string, string> {
+    const authToken = options.authToken || this.config.authToken;
+    return {
+      'Content-Type': 'application/json',
+      ...options.headers,
+      ...(authToken && { Authorization: `Bearer ${authToken}` })
+    };
+  }
+
+  private getErrorContext(options: OllamaModelRequestOptions, model?: string): LLMErrorContext {
+    return {
+      provider: 'ollama',
+      model,
+      timeoutMs: options.timeoutMs ?? this.config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+      signal: options.signal
+    };
+  }
+}
@@ -2,14 +2,44 @@ import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../../shared/utils/logging.utils';
 import { BaseLLMProvider } from './base-llm-provider';
-import { LLMProvider, CommonLLMResponse, TokenUsage } from '../types';
+import {
+  LLMProvider,
+  CommonLLMResponse,
+  TokenUsage,
+  LLMStreamEvent,
+  ChatMessage,
+  ToolDefinition,
+  ToolChoice,
+  ResponseFormat,
+  ResponseFormatEnforcement,
+  LLMFinishReason
+} from '../types';
 import {
   AnthropicRequestOptions,
   AnthropicAPIRequest,
   AnthropicAPIResponse,
-  AnthropicResponse
+  AnthropicResponse,
+  AnthropicStreamEvent,
+  AnthropicUsage,
+  AnthropicMessage,
+  AnthropicTool,
+  AnthropicToolChoice,
+  AnthropicThinkingBlock,
+  AnthropicRedactedThinkingBlock
 } from '../types/anthropic.types';
 import { LLMDebugger, LLMDebugInfo } from '../utils/debug-llm.utils';
+import { parseSSE, readStreamToString } from '../utils/stream.utils';
+import {
+  buildChatMessages,
+  splitSystemMessages,
+  getLastUserMessage
+} from '../utils/chat-message.utils';
+import { createToolCall } from '../utils/tool-call.utils';
+import { getImageAttachmentInfo } from '../utils/image.utils';
+import { toLLMError, createHttpError, LLMErrorContext } from '../utils/llm-error.utils';
+import { LLMInvalidRequestError } from '../errors';
+import { DEFAULT_REQUEST_TIMEOUT_MS, StreamTimeouts } from '../utils/timeout.utils';
+import { appendResponseFormatInstruction, getResponseFormatPrefill } from '../utils/response-format.utils';
 import { DataFlowLoggerService } from '../../data-flow-logger';
 
 /**
@@ -29,18 +59,45 @@ export class AnthropicProvider extends BaseLLMProvider {
     this.dataFlowLogger = DataFlowLoggerService.getInstance();
   }
 
+  /**
+   * Get the API base URL (requests always go to api.anthropic.com)
+   */
+  public getBaseUrl(): string {
+    return this.BASE_URL;
+  }
+
   /**
    * Call the Anthropic API with a custom system message
    * @param userPrompt - The user's prompt for the model
    * @param systemMessage - The system message defining AI behavior
    * @param options - Options for the API call
-   * @returns The API response or null on error
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
    */
   public async callWithSystemMessage(
     userPrompt: string,
     systemMessage: string,
     options: AnthropicRequestOptions = {}
   ): Promise<CommonLLMResponse | null> {
+    return this.callWithMessages(buildChatMessages(systemMessage, userPrompt), options);
+  }
+
+  /**
+   * Call the Anthropic API with a multi-turn message array
+   * System messages are moved to the root-level `system` field, as required by the Messages API
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Options for the API call
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
+   */
+  public async callWithMessages(
+    messages: ChatMessage[],
+    options: AnthropicRequestOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    const resolvedMessages = await this.prepareMessages(messages, options);
+    const { systemMessage: conversationSystemMessage, conversation } = splitSystemMessages(resolvedMessages);
+    const userPrompt = getLastUserMessage(messages);
+
     const {
       authToken = process.env.ANTHROPIC_API_KEY,
       model = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
@@ -53,27 +110,47 @@ export class AnthropicProvider extends BaseLLMProvider {
       sessionId = uuidv4(),
       chapterNumber,
       pageNumber,
-      pageName
+      pageName,
+      tools,
+      toolChoice,
+      responseFormat,
+      thinking,
+      signal,
+      timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
     } = options;
+    const thinkingEnabled = thinking?.type === 'enabled';
+
+    // Anthropic has no JSON mode: emulate it via system prompt and assistant prefill
+    const { systemMessage, anthropicMessages, prefill, enforcement } = this.applyResponseFormat(
+      conversationSystemMessage,
+      this.toAnthropicMessages(conversation),
+      responseFormat,
+      (!!tools && tools.length > 0) || thinkingEnabled
+    );
 
     // Validate that API key is provided
     if (!authToken) {
-      throw new Error(
+      throw new LLMInvalidRequestError(
         'Anthropic API key is required but not provided. ' +
-        'Please set ANTHROPIC_API_KEY in your .env file or pass authToken in options.'
+        'Please set ANTHROPIC_API_KEY in your .env file or pass authToken in options.',
+        { provider: this.providerName }
       );
     }
 
     // Validate that model is provided
     if (!model) {
-      throw new Error(
+      throw new LLMInvalidRequestError(
         'Model name is required but not provided. ' +
-        'Please set ANTHROPIC_MODEL in your .env file or pass model in options.'
+        'Please set ANTHROPIC_MODEL in your .env file or pass model in options.',
+        { provider: this.providerName }
       );
     }
 
+    const errorContext: LLMErrorContext = { provider: this.providerName, model, timeoutMs, signal };
+
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...options.headers,
       'x-api-key': authToken,
       'anthropic-version': this.API_VERSION
     };
@@ -81,15 +158,17 @@ export class AnthropicProvider extends BaseLLMProvider {
     // Build the request payload
     const requestPayload: AnthropicAPIRequest = {
       model: model,
-      messages: [
-        { role: 'user', content: userPrompt }
-      ],
+      messages: anthropicMessages,
       max_tokens: maxTokens,
-      temperature: temperature,
-      system: systemMessage,
+      // Extended thinking does not support temperature or top_k modifications
+      ...(!thinkingEnabled && { temperature }),
+      ...(systemMessage && { system: systemMessage }),
       ...(top_p !== undefined && { top_p }),
-      ...(top_k !== undefined && { top_k }),
-      ...(stop_sequences && { stop_sequences })
+      ...(top_k !== undefined && !thinkingEnabled && { top_k }),
+      ...(thinking && { thinking }),
+      ...(stop_sequences && { stop_sequences }),
+      ...(tools && tools.length > 0 && { tools: this.toAnthropicTools(tools) }),
+      ...(tools && tools.length > 0 && toolChoice && { tool_choice: this.toAnthropicToolChoice(toolChoice) })
     };
 
     // Get client request body from global scope
@@ -114,7 +193,8 @@ export class AnthropicProvider extends BaseLLMProvider {
       sessionId: sessionId,
       chapterNumber: chapterNumber,
       pageNumber: pageNumber,
-      pageName: pageName
+      pageName: pageName,
+      attachments: getImageAttachmentInfo(resolvedMessages)
     };
 
     // Log request
@@ -171,7 +251,8 @@ export class AnthropicProvider extends BaseLLMProvider {
         requestPayload,
         {
           headers,
-          timeout: 90000 // 90 second timeout
+          timeout: timeoutMs,
+          signal
         }
       );
 
@@ -180,24 +261,33 @@ export class AnthropicProvider extends BaseLLMProvider {
       if (response && response.status === 200) {
         const apiResponse: AnthropicAPIResponse = response.data;
 
-        // Extract text from content blocks
-        const responseText = apiResponse.content
+        // Extract text from content blocks (the prefill is not part of the response)
+        const responseText = prefill + apiResponse.content
+          .filter(block => block.type === 'text')
           .map(block => block.text)
           .join('\n');
 
+        // Extract extended thinking (redacted blocks are encrypted and only counted)
+        const thinkingText = apiResponse.content
+          .filter(block => block.type === 'thinking')
+          .map(block => block.thinking)
+          .join('\n\n');
+        const redactedThinkingBlocks = apiResponse.content.filter(block => block.type === 'redacted_thinking').length;
+        // Kept with their signatures so that tool-use conversations can send them back
+        const thinkingBlocks = apiResponse.content.filter(
+          (block): block is AnthropicThinkingBlock | AnthropicRedactedThinkingBlock =>
+            block.type === 'thinking' || block.type === 'redacted_thinking'
+        );
+
+        // Extract tool calls from tool_use blocks
+        const toolCalls = await Promise.all(
+          apiResponse.content
+            .filter(block => block.type === 'tool_use')
+            .map(block => createToolCall(block.name, block.input, block.id))
+        );
+
         // Normalize token usage to provider-agnostic format
-        const tokenUsage: TokenUsage = {
-          inputTokens: apiResponse.usage.input_tokens,
-          outputTokens: apiResponse.usage.output_tokens,
-          totalTokens: apiResponse.usage.input_tokens + apiResponse.usage.output_tokens,
-          // Include Anthropic-specific cache metadata if present
-          ...(apiResponse.usage.cache_creation_input_tokens || apiResponse.usage.cache_read_input_tokens ? {
-            cacheMetadata: {
-              cacheCreationTokens: apiResponse.usage.cache_creation_input_tokens,
-              cacheReadTokens: apiResponse.usage.cache_read_input_tokens
-            }
-          } : {})
-        };
+        const tokenUsage = this.normalizeUsage(apiResponse.usage);
 
         // Normalize to CommonLLMResponse format
         const normalizedResponse: AnthropicResponse = {
@@ -209,15 +299,22 @@ export class AnthropicProvider extends BaseLLMProvider {
             provider: this.providerName,
             model: apiResponse.model,
             tokensUsed: tokenUsage.totalTokens,
-            processingTime: requestDuration
+            processingTime: requestDuration,
+            ...(enforcement && { responseFormat: enforcement })
           },
           // Standardized token usage
           usage: tokenUsage,
+          ...(toolCalls.length > 0 && { toolCalls }),
+          ...(thinkingText && { thinking: thinkingText }),
+          ...(thinkingBlocks.length > 0 && { thinkingBlocks }),
+          finishReason: this.normalizeFinishReason(apiResponse.stop_reason),
           // Anthropic-specific fields (kept for backward compatibility)
           id: apiResponse.id,
           stop_reason: apiResponse.stop_reason || undefined,
           input_tokens: apiResponse.usage.input_tokens,
-          output_tokens: apiResponse.usage.output_tokens
+          output_tokens: apiResponse.usage.output_tokens,
+          content_blocks: apiResponse.content,
+          ...(redactedThinkingBlocks > 0 && { redacted_thinking_blocks: redactedThinkingBlocks })
         };
 
         // Add response info to debug
@@ -225,9 +322,11 @@ export class AnthropicProvider extends BaseLLMProvider {
         debugInfo.response = responseText;
         debugInfo.rawResponseData = apiResponse;
 
-        // Try to extract thinking content (if model uses <think> tags)
+        // Prefer extended thinking blocks, fall back to <think> tags in the text
         const thinkMatch = responseText.match(/<think>([\s\S]*?)<\/think>/);
-        if (thinkMatch && thinkMatch[1]) {
+        if (thinkingText) {
+          debugInfo.thinking = thinkingText;
+        } else if (thinkMatch && thinkMatch[1]) {
           debugInfo.thinking = thinkMatch[1].trim();
         }
 
@@ -247,7 +346,7 @@ export class AnthropicProvider extends BaseLLMProvider {
 
         return normalizedResponse;
       } else {
-        const error = new Error(`Status ${response?.status || 'unknown'}`);
+        const error = createHttpError(response?.status || 0, response?.data, errorContext);
         logger.error('Error calling Anthropic API', {
           context: this.constructor.name,
           error: error.message,
@@ -266,7 +365,7 @@ export class AnthropicProvider extends BaseLLMProvider {
           requestId
         );
 
-        return null;
+        throw error;
       }
     } catch (error: unknown) {
       // Type-safe error handling
@@ -357,9 +456,509 @@ export class AnthropicProvider extends BaseLLMProvider {
       // Log error
       await LLMDebugger.logError(debugInfo);
 
-      return null;
+      throw toLLMError(error, errorContext);
     }
   }
+
+  /**
+   * Stream the Anthropic Messages API response (SSE) for a multi-turn message array
+   * The assembled response is logged to LLMDebugger and DataFlowLogger once the stream completes.
+   * Tool calling is not supported while streaming; use callWithMessages instead.
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Options for the API call
+   * @throws LLMError (subclass) when the request fails or is invalid
+   */
+  public async *streamWithMessages(
+    messages: ChatMessage[],
+    options: AnthropicRequestOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    if (options.tools && options.tools.length > 0) {
+      throw new LLMInvalidRequestError('Tool calling is not supported for streaming requests. Use callWithMessages instead.', {
+        provider: this.providerName,
+        model: options.model
+      });
+    }
+    const resolvedMessages = await this.prepareMessages(messages, options);
+    const { systemMessage: conversationSystemMessage, conversation } = splitSystemMessages(resolvedMessages);
+    const userPrompt = getLastUserMessage(messages);
+
+    const {
+      authToken = process.env.ANTHROPIC_API_KEY,
+      model = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
+      temperature = 0.7,
+      maxTokens = 4096,
+      top_p,
+      top_k,
+      stop_sequences,
+      debugContext,
+      sessionId = uuidv4(),
+      chapterNumber,
+      pageNumber,
+      pageName,
+      responseFormat,
+      thinking,
+      signal,
+      timeoutMs,
+      connectTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+      firstTokenTimeoutMs
+    } = options;
+    const thinkingEnabled = thinking?.type === 'enabled';
+
+    // Anthropic has no JSON mode: emulate it via system prompt and assistant prefill
+    const { systemMessage, anthropicMessages, prefill, enforcement } = this.applyResponseFormat(
+      conversationSystemMessage,
+      this.toAnthropicMessages(conversation),
+      responseFormat,
+      thinkingEnabled
+    );
+
+    // Validate that API key is provided
+    if (!authToken) {
+      throw new LLMInvalidRequestError(
+        'Anthropic API key is required but not provided. ' +
+        'Please set ANTHROPIC_API_KEY in your .env file or pass authToken in options.',
+        { provider: this.providerName }
+      );
+    }
+
+    const errorContext: LLMErrorContext = { provider: this.providerName, model, timeoutMs: connectTimeoutMs, signal };
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers,
+      'x-api-key': authToken,
+      'anthropic-version': this.API_VERSION
+    };
+
+    const requestPayload: AnthropicAPIRequest = {
+      model: model,
+      messages: anthropicMessages,
+      max_tokens: maxTokens,
+      // Extended thinking does not support temperature or top_k modifications
+      ...(!thinkingEnabled && { temperature }),
+      ...(systemMessage && { system: systemMessage }),
+      stream: true,
+      ...(top_p !== undefined && { top_p }),
+      ...(top_k !== undefined && !thinkingEnabled && { top_k }),
+      ...(thinking && { thinking }),
+      ...(stop_sequences && { stop_sequences })
+    };
+
+    // Prepare debug info
+    const debugInfo: LLMDebugInfo = {
+      timestamp: new Date(),
+      provider: this.providerName,
+      model: model,
+      baseUrl: this.BASE_URL,
+      systemMessage: systemMessage,
+      userMessage: userPrompt,
+      requestData: requestPayload,
+      useCase: debugContext,
+      clientRequestBody: (global as any).currentRequestBody,
+      sessionId: sessionId,
+      chapterNumber: chapterNumber,
+      pageNumber: pageNumber,
+      pageName: pageName,
+      attachments: getImageAttachmentInfo(resolvedMessages)
+    };
+
+    await LLMDebugger.logRequest(debugInfo);
+
+    const contextForLogger = {
+      currentChapterNr: chapterNumber,
+      currentPage: pageNumber,
+      debugContext
+    };
+
+    const requestId = this.dataFlowLogger.startRequest(debugContext || 'anthropic-stream', contextForLogger);
+
+    this.dataFlowLogger.logLLMRequest(
+      {
+        stage: debugContext || 'anthropic-stream',
+        prompt: userPrompt,
+        systemMessage: systemMessage,
+        modelName: model,
+        temperature: temperature,
+        contextInfo: {
+          sessionId,
+          chapterNumber,
+          pageNumber,
+          pageName,
+          streaming: true,
+          parameters: {
+            maxTokens,
+            top_p,
+            top_k,
+            stop_sequences
+          }
+        }
+      },
+      contextForLogger,
+      requestId
+    );
+
+    const requestStartTime = Date.now();
+    let content = '';
+    let thinkingText = '';
+    let stream: any;
+    const timeouts = new StreamTimeouts({ firstTokenTimeoutMs, totalTimeoutMs: timeoutMs }, signal);
+
+    try {
+      logger.info('Sending streaming request to Anthropic API', {
+        context: 'AnthropicProvider',
+        metadata: {
+          url: `${this.BASE_URL}/messages`,
+          model: model,
+          promptLength: userPrompt.length,
+          maxTokens: maxTokens
+        }
+      });
+
+      const response = await axios.post(`${this.BASE_URL}/messages`, requestPayload, {
+        headers,
+        responseType: 'stream',
+        timeout: connectTimeoutMs,
+        signal: timeouts.signal
+      });
+      stream = response.data;
+
+      let messageId: string | undefined;
+      let responseModel = model;
+      let stopReason: string | undefined;
+      let usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
+
+      if (prefill) {
+        content = prefill;
+        yield { type: 'delta', content: prefill };
+      }
+
+      for await (const sseEvent of parseSSE(stream)) {
+        const event = JSON.parse(sseEvent.data) as AnthropicStreamEvent;
+
+        if (event.type === 'message_start') {
+          messageId = event.message.id;
+          responseModel = event.message.model || model;
+          usage = { ...usage, ...event.message.usage };
+        } else if (event.type === 'content_block_delta') {
+          timeouts.tokenReceived();
+          if (event.delta.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            yield { type: 'delta', content: event.delta.text };
+          } else if (event.delta.type === 'thinking_delta' && event.delta.thinking) {
+            // Thinking is collected into response.thinking, not streamed as content
+            thinkingText += event.delta.thinking;
+          }
+        } else if (event.type === 'message_delta') {
+          stopReason = event.delta.stop_reason || undefined;
+          if (event.usage) {
+            usage.output_tokens = event.usage.output_tokens;
+          }
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic stream error (${event.error.type}): ${event.error.message}`);
+        } else if (event.type === 'message_stop') {
+          break;
+        }
+      }
+
+      const requestDuration = Date.now() - requestStartTime;
+      const tokenUsage = this.normalizeUsage(usage);
+
+      const normalizedResponse: AnthropicResponse = {
+        message: {
+          content
+        },
+        sessionId: sessionId,
+        metadata: {
+          provider: this.providerName,
+          model: responseModel,
+          tokensUsed: tokenUsage.totalTokens,
+          processingTime: requestDuration,
+          ...(enforcement && { responseFormat: enforcement })
+        },
+        usage: tokenUsage,
+        ...(thinkingText && { thinking: thinkingText }),
+        finishReason: this.normalizeFinishReason(stopReason),
+        id: messageId,
+        stop_reason: stopReason,
+        input_tokens: usage.input_tokens,
+        output_tokens: usage.output_tokens
+      };
+
+      debugInfo.responseTimestamp = new Date();
+      debugInfo.response = content;
+      debugInfo.rawResponseData = {
+        id: messageId,
+        model: responseModel,
+        stop_reason: stopReason,
+        usage
+      };
+
+      const thinkMatch = content.match(/<think>([\s\S]*?)<\/think>/);
+      if (thinkingText) {
+        debugInfo.thinking = thinkingText;
+      } else if (thinkMatch && thinkMatch[1]) {
+        debugInfo.thinking = thinkMatch[1].trim();
+      }
+
+      await LLMDebugger.logResponse(debugInfo);
+
+      this.dataFlowLogger.logLLMResponse(
+        debugContext || 'anthropic-stream',
+        {
+          rawResponse: content,
+          processingTime: requestDuration
+        },
+        contextForLogger,
+        requestId
+      );
+
+      yield {
+        type: 'done',
+        finishReason: normalizedResponse.finishReason,
+        usage: tokenUsage,
+        response: normalizedResponse
+      };
+    } catch (error: unknown) {
+      const timeoutError = timeouts.createError(errorContext);
+      let errorMessage = timeoutError?.message || (error instanceof Error ? error.message : 'Unknown error');
+      let errorDetails: Record<string, any> = {};
+
+      const axiosError = error as any;
+      if (axiosError?.isAxiosError && axiosError.response) {
+        // With responseType 'stream' the error body is a stream as well
+        let errorData = axiosError.response.data;
+        if (errorData && typeof errorData[Symbol.asyncIterator] === 'function') {
+          try {
+            const rawBody = await readStreamToString(errorData);
+            try {
+              errorData = JSON.parse(rawBody);
+            } catch {
+              errorData = rawBody;
+            }
+          } catch {
+            errorData = undefined;
+          }
+        }
+
+        errorDetails = {
+          statusCode: axiosError.response.status,
+          statusText: axiosError.response.statusText,
+          data: errorData
+        };
+
+        if (typeof errorData?.error?.message === 'string') {
+          errorMessage = errorData.error.message;
+        }
+      }
+
+      logger.error('Error in streaming API request', {
+        context: this.constructor.name,
+        error: errorMessage,
+        metadata: {
+          ...errorDetails,
+          requestModel: model,
+          sessionId: sessionId,
+          receivedLength: content.length
+        }
+      });
+
+      this.dataFlowLogger.logLLMResponse(
+        debugContext || 'anthropic-stream',
+        {
+          rawResponse: content,
+          processingTime: Date.now() - requestStartTime,
+          error: error instanceof Error ? error : new Error(errorMessage)
+        },
+        contextForLogger,
+        requestId
+      );
+
+      debugInfo.responseTimestamp = new Date();
+      debugInfo.response = content || undefined;
+      debugInfo.error = {
+        message: errorMessage,
+        details: errorDetails
+      };
+
+      await LLMDebugger.logError(debugInfo);
+
+      if (timeoutError) {
+        throw timeoutError;
+      }
+      if (axiosError?.isAxiosError && axiosError.response) {
+        throw createHttpError(axiosError.response.status, errorDetails.data, errorContext, axiosError.response.headers, error);
+      }
+      throw toLLMError(error, errorContext);
+    } finally {
+      timeouts.dispose();
+      // Release the connection if the consumer stopped early or an error occurred
+      if (stream && typeof stream.destroy === 'function' && !stream.destroyed) {
+        stream.destroy();
+      }
+    }
+  }
+
+  /**
+   * Convert conversation messages to the Anthropic format
+   * Images become image blocks, assistant tool calls become tool_use blocks (preceded by the thinking blocks
+   * of the turn, which the API requires with extended thinking) and tool results are sent as tool_result
+   * blocks in a user turn
+   * (consecutive tool results are merged into one turn)
+   */
+  private toAnthropicMessages(conversation: ChatMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    for (const message of conversation) {
+      if (message.role === 'tool') {
+        const block = { type: 'tool_result' as const, tool_use_id: message.toolCallId!, content: message.content };
+        const previous = result[result.length - 1];
+        if (
+          previous &&
+          previous.role === 'user' &&
+          Array.isArray(previous.content) &&
+          previous.content.every(existing => existing.type === 'tool_result')
+        ) {
+          previous.content.push(block);
+        } else {
+          result.push({ role: 'user', content: [block] });
+        }
+      } else if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        result.push({
+          role: 'assistant',
+          content: [
+            ...(message.thinkingBlocks || []),
+            ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+            ...message.toolCalls.map(call => ({
+              type: 'tool_use' as const,
+              id: call.id,
+              name: call.name,
+              input: call.arguments
+            }))
+          ]
+        });
+      } else if (message.role === 'user' && message.images && message.images.length > 0) {
+        // Images are resolved before mapping; Anthropic recommends placing them before the text
+        result.push({
+          role: 'user',
+          content: [
+            ...message.images.map(image => ({
+              type: 'image' as const,
+              source: { type: 'base64' as const, media_type: image.mimeType!, data: image.data! }
+            })),
+            ...(message.content ? [{ type: 'text' as const, text: message.content }] : [])
+          ]
+        });
+      } else {
+        result.push({ role: message.role as 'user' | 'assistant', content: message.content });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Emulate a response format: append JSON instructions to the system prompt and prefill the
+   * assistant turn with '{' (or '['). The prefill is skipped when the conversation does not end
+   * with a user turn, or when tools or extended thinking are enabled (both are incompatible with prefill).
+   */
+  private applyResponseFormat(
+    systemMessage: string,
+    anthropicMessages: AnthropicMessage[],
+    responseFormat: ResponseFormat | undefined,
+    skipPrefill: boolean
+  ): {
+    systemMessage: string;
+    anthropicMessages: AnthropicMessage[];
+    prefill: string;
+    enforcement?: ResponseFormatEnforcement;
+  } {
+    if (!responseFormat) {
+      return { systemMessage, anthropicMessages, prefill: '' };
+    }
+
+    const formattedSystemMessage = appendResponseFormatInstruction(systemMessage, responseFormat);
+    const lastMessage = anthropicMessages[anthropicMessages.length - 1];
+
+    if (skipPrefill || !lastMessage || lastMessage.role !== 'user') {
+      return { systemMessage: formattedSystemMessage, anthropicMessages, prefill: '', enforcement: 'prompt' };
+    }
+
+    const prefill = getResponseFormatPrefill(responseFormat);
+    return {
+      systemMessage: formattedSystemMessage,
+      anthropicMessages: [...anthropicMessages, { role: 'assistant', content: prefill }],
+      prefill,
+      enforcement: 'prompt-prefill'
+    };
+  }
+
+  /**
+   * Convert tool definitions to Anthropic tools
+   */
+  private toAnthropicTools(tools: ToolDefinition[]): AnthropicTool[] {
+    return tools.map(tool => ({
+      name: tool.name,
+      ...(tool.description && { description: tool.description }),
+      input_schema: tool.parameters
+    }));
+  }
+
+  /**
+   * Map the provider-agnostic tool choice to Anthropic's tool_choice
+   */
+  private toAnthropicToolChoice(toolChoice: ToolChoice): AnthropicToolChoice {
+    if (typeof toolChoice === 'object') {
+      return { type: 'tool', name: toolChoice.name };
+    }
+    switch (toolChoice) {
+      case 'required':
+        return { type: 'any' };
+      case 'none':
+        return { type: 'none' };
+      default:
+        return { type: 'auto' };
+    }
+  }
+
+  /**
+   * Normalize Anthropic's stop_reason to the provider-agnostic finish reason
+   */
+  private normalizeFinishReason(stopReason: string | null | undefined): LLMFinishReason | undefined {
+    switch (stopReason) {
+      case 'end_turn':
+      case 'stop_sequence':
+        return 'stop';
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_calls';
+      case 'refusal':
+        return 'content_filter';
+      case null:
+      case undefined:
+        return undefined;
+      default:
+        return 'other';
+    }
+  }
+
+  /**
+   * Normalize Anthropic usage to the provider-agnostic TokenUsage format
+   */
+  private normalizeUsage(usage: AnthropicUsage): TokenUsage {
+    return {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      totalTokens: usage.input_tokens + usage.output_tokens,
+      // Include Anthropic-specific cache metadata if present
+      ...(usage.cache_creation_input_tokens || usage.cache_read_input_tokens ? {
+        cacheMetadata: {
+          cacheCreationTokens: usage.cache_creation_input_tokens,
+          cacheReadTokens: usage.cache_read_input_tokens
+        }
+      } : {})
+    };
+  }
 }
 
 // Export singleton instance
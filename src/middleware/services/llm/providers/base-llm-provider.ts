@@ -3,7 +3,20 @@
  * Defines the contract that all providers must implement
  */
 
-import { CommonLLMOptions, CommonLLMResponse, LLMProvider } from '../types';
+import {
+  CommonLLMOptions,
+  CommonLLMResponse,
+  LLMProvider,
+  LLMStreamEvent,
+  ChatMessage,
+  EmbeddingOptions,
+  EmbeddingResponse
+} from '../types';
+import { buildChatMessages, splitSystemMessages, validateChatMessages } from '../utils/chat-message.utils';
+import { hasToolMessages } from '../utils/tool-call.utils';
+import { hasImageAttachments, resolveMessageImages } from '../utils/image.utils';
+import { toInvalidRequestError } from '../utils/llm-error.utils';
+import { LLMError, LLMInvalidRequestError } from '../errors';
 
 export abstract class BaseLLMProvider {
   protected providerName: LLMProvider;
@@ -19,6 +32,14 @@ export abstract class BaseLLMProvider {
     return this.providerName;
   }
 
+  /**
+   * Get the base URL a request with these options is sent to
+   * Used to keep per-endpoint state such as circuit breakers; override in providers with a default endpoint
+   */
+  public getBaseUrl(options: CommonLLMOptions = {}): string | undefined {
+    return options.baseUrl;
+  }
+
   /**
    * Call the LLM API with a custom system message
    * This is the main method that all providers must implement
@@ -26,7 +47,8 @@ export abstract class BaseLLMProvider {
    * @param userPrompt - The user's prompt for the model
    * @param systemMessage - The system message defining AI behavior
    * @param options - Provider-specific options
-   * @returns The API response or null on error
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
    */
   abstract callWithSystemMessage(
     userPrompt: string,
@@ -34,12 +56,52 @@ export abstract class BaseLLMProvider {
     options: CommonLLMOptions
   ): Promise<CommonLLMResponse | null>;
 
+  /**
+   * Call the LLM API with a multi-turn message array
+   * System messages are placed where the provider's API expects them.
+   *
+   * The default implementation only supports an optional system message followed by
+   * a single user message and delegates to callWithSystemMessage. Providers with
+   * native multi-turn (and tool calling) support override this method.
+   *
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Provider-specific options
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
+   * @throws LLMInvalidRequestError if the conversation cannot be represented by this provider
+   */
+  public async callWithMessages(
+    messages: ChatMessage[],
+    options: CommonLLMOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    try {
+      validateChatMessages(messages);
+    } catch (error) {
+      throw toInvalidRequestError(error, { provider: this.providerName, model: options.model });
+    }
+    const errorOptions = { provider: this.providerName, model: options.model };
+    if ((options.tools && options.tools.length > 0) || hasToolMessages(messages)) {
+      throw new LLMInvalidRequestError(`Provider ${this.providerName} does not support tool calling`, errorOptions);
+    }
+    if (hasImageAttachments(messages)) {
+      throw new LLMInvalidRequestError(`Provider ${this.providerName} does not support image attachments on messages; use options.images`, errorOptions);
+    }
+
+    const { systemMessage, conversation } = splitSystemMessages(messages);
+    if (conversation.length !== 1 || conversation[0].role !== 'user') {
+      throw new LLMInvalidRequestError(`Provider ${this.providerName} does not support multi-turn messages`, errorOptions);
+    }
+
+    return this.callWithSystemMessage(conversation[0].content, systemMessage, options);
+  }
+
   /**
    * Call the LLM API with default system message
    *
    * @param prompt - The prompt for the model
    * @param options - Provider-specific options
-   * @returns The API response or null on error
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
    */
   public async call(
     prompt: string,
@@ -49,15 +111,114 @@ export abstract class BaseLLMProvider {
     return this.callWithSystemMessage(prompt, defaultSystemMessage, options);
   }
 
+  /**
+   * Stream the LLM response for a multi-turn message array
+   * Yields content deltas as they arrive, followed by a single 'done' event
+   * with the assembled response, usage and finish reason.
+   *
+   * Providers without native streaming support fall back to a regular call
+   * and emit the complete content as one delta. Override this in providers
+   * that support streaming.
+   *
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Provider-specific options
+   * @throws LLMError if the provider returns no response
+   */
+  public async *streamWithMessages(
+    messages: ChatMessage[],
+    options: CommonLLMOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.callWithMessages(messages, options);
+    if (!response) {
+      throw new LLMError(`No response received from the ${this.providerName} provider`, {
+        provider: this.providerName,
+        model: options.model
+      });
+    }
+
+    yield { type: 'delta', content: response.message.content };
+    yield { type: 'done', finishReason: response.finishReason, usage: response.usage, response };
+  }
+
+  /**
+   * Stream the LLM response with a custom system message
+   *
+   * @param userPrompt - The user's prompt for the model
+   * @param systemMessage - The system message defining AI behavior
+   * @param options - Provider-specific options
+   */
+  public streamWithSystemMessage(
+    userPrompt: string,
+    systemMessage: string,
+    options: CommonLLMOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    return this.streamWithMessages(buildChatMessages(systemMessage, userPrompt), options);
+  }
+
+  /**
+   * Stream the LLM response with default system message
+   *
+   * @param prompt - The prompt for the model
+   * @param options - Provider-specific options
+   */
+  public stream(
+    prompt: string,
+    options: CommonLLMOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const defaultSystemMessage = "You are a helpful assistant, who provides clear and precise answers.";
+    return this.streamWithSystemMessage(prompt, defaultSystemMessage, options);
+  }
+
+  /**
+   * Create embedding vectors for one or more texts
+   * Inputs larger than the batch size are sent in several requests and merged in input order.
+   * Override this in providers that offer an embeddings endpoint.
+   *
+   * @param texts - Text or texts to embed
+   * @param options - Provider-specific embedding options
+   * @returns The embeddings with dimensions and usage
+   * @throws LLMError (subclass) when a batch fails
+   * @throws LLMInvalidRequestError if the provider does not support embeddings
+   */
+  public async embed(
+    texts: string | string[],
+    options: EmbeddingOptions = {}
+  ): Promise<EmbeddingResponse | null> {
+    throw new LLMInvalidRequestError(`Provider ${this.providerName} does not support embeddings`, {
+      provider: this.providerName,
+      model: options.model
+    });
+  }
+
+  /**
+   * Validate a conversation and resolve its image attachments before the request is sent
+   * @param provider - Name reported on the error (defaults to the provider type)
+   * @throws LLMInvalidRequestError if a message is invalid or an image cannot be read or identified
+   */
+  protected async prepareMessages(
+    messages: ChatMessage[],
+    options: CommonLLMOptions,
+    provider: string = this.providerName
+  ): Promise<ChatMessage[]> {
+    try {
+      validateChatMessages(messages);
+      return await resolveMessageImages(messages, options.images);
+    } catch (error) {
+      throw toInvalidRequestError(error, { provider, model: options.model });
+    }
+  }
+
   /**
    * Validate that required configuration is present
    * Override this in specific providers if they need validation
+   * @throws LLMInvalidRequestError if the model is missing
    */
   protected validateConfig(options: CommonLLMOptions): void {
     if (!options.model) {
-      throw new Error(
+      throw new LLMInvalidRequestError(
         `Model name is required for ${this.providerName} provider. ` +
-        'Please ensure model is set in your options or environment variables.'
+        'Please ensure model is set in your options or environment variables.',
+        { provider: this.providerName }
       );
     }
   }
@@ -0,0 +1,466 @@
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../shared/utils/logging.utils';
+import { BaseLLMProvider } from './base-llm-provider';
+import { LLMProvider, CommonLLMOptions, CommonLLMResponse, TokenUsage, ChatMessage, LLMFinishReason } from '../types';
+import {
+  GoogleRequestOptions,
+  GoogleAPIRequest,
+  GoogleAPIResponse,
+  GoogleResponse
+} from '../types/google.types';
+import { LLMDebugger, LLMDebugInfo } from '../utils/debug-llm.utils';
+import { DataFlowLoggerService } from '../../data-flow-logger';
+import {
+  buildChatMessages,
+  splitSystemMessages,
+  getLastUserMessage
+} from '../utils/chat-message.utils';
+import { hasToolMessages } from '../utils/tool-call.utils';
+import { getImageAttachmentInfo } from '../utils/image.utils';
+import { toLLMError, createHttpError, LLMErrorContext } from '../utils/llm-error.utils';
+import { LLMInvalidRequestError } from '../errors';
+import { DEFAULT_REQUEST_TIMEOUT_MS } from '../utils/timeout.utils';
+
+/**
+ * Google Gemini provider implementation (generateContent API) with advanced features:
+ * - Comprehensive debugging and logging
+ * - Error handling for auth, rate limit and bad request errors
+ * - Session management
+ * - Parameter handling
+ */
+export class GoogleProvider extends BaseLLMProvider {
+  private dataFlowLogger: DataFlowLoggerService;
+  private readonly BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+  constructor() {
+    super(LLMProvider.GOOGLE);
+    this.dataFlowLogger = DataFlowLoggerService.getInstance();
+  }
+
+  /**
+   * Get the API base URL a request is sent to (options, GOOGLE_BASE_URL or the Gemini API)
+   */
+  public getBaseUrl(options: CommonLLMOptions = {}): string {
+    return options.baseUrl || process.env.GOOGLE_BASE_URL || this.BASE_URL;
+  }
+
+  /**
+   * Call the Google Gemini generateContent API with a custom system message
+   * @param userPrompt - The user's prompt for the model
+   * @param systemMessage - The system message defining AI behavior
+   * @param options - Options for the API call
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
+   */
+  public async callWithSystemMessage(
+    userPrompt: string,
+    systemMessage: string,
+    options: GoogleRequestOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    return this.callWithMessages(buildChatMessages(systemMessage, userPrompt), options);
+  }
+
+  /**
+   * Call the Google Gemini generateContent API with a multi-turn message array
+   * System messages are sent as `systemInstruction`, assistant turns use Gemini's `model` role
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Options for the API call
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
+   */
+  public async callWithMessages(
+    messages: ChatMessage[],
+    options: GoogleRequestOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    if ((options.tools && options.tools.length > 0) || hasToolMessages(messages)) {
+      throw new LLMInvalidRequestError('Tool calling is not supported by the Google provider yet', {
+        provider: this.providerName,
+        model: options.model
+      });
+    }
+    const resolvedMessages = await this.prepareMessages(messages, options);
+    const { systemMessage, conversation } = splitSystemMessages(resolvedMessages);
+    const userPrompt = getLastUserMessage(messages);
+
+    const {
+      authToken = process.env.GOOGLE_API_KEY,
+      model = process.env.GOOGLE_MODEL || 'gemini-2.0-flash',
+      baseUrl = process.env.GOOGLE_BASE_URL || this.BASE_URL,
+      temperature = 0.7,
+      maxTokens,
+      top_p,
+      top_k,
+      stop_sequences,
+      candidate_count,
+      debugContext,
+      sessionId = uuidv4(),
+      chapterNumber,
+      pageNumber,
+      pageName,
+      responseFormat,
+      signal,
+      timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+    } = options;
+
+    // Validate that API key is provided
+    if (!authToken) {
+      throw new LLMInvalidRequestError(
+        'Google API key is required but not provided. ' +
+        'Please set GOOGLE_API_KEY in your .env file or pass authToken in options.',
+        { provider: this.providerName }
+      );
+    }
+
+    // Validate that model is provided
+    if (!model) {
+      throw new LLMInvalidRequestError(
+        'Model name is required but not provided. ' +
+        'Please set GOOGLE_MODEL in your .env file or pass model in options.',
+        { provider: this.providerName }
+      );
+    }
+
+    const errorContext: LLMErrorContext = { provider: this.providerName, model, timeoutMs, signal };
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers,
+      'x-goog-api-key': authToken
+    };
+
+    // Build the request payload
+    const requestPayload: GoogleAPIRequest = {
+      contents: conversation.map(({ role, content, images }) => ({
+        role: role === 'assistant' ? 'model' : 'user',
+        parts: [
+          { text: content },
+          ...(images || []).map(image => ({ inlineData: { mimeType: image.mimeType!, data: image.data! } }))
+        ]
+      })),
+      ...(systemMessage && {
+        systemInstruction: { parts: [{ text: systemMessage }] }
+      }),
+      generationConfig: {
+        temperature: temperature,
+        ...(maxTokens !== undefined && { maxOutputTokens: maxTokens }),
+        ...(top_p !== undefined && { topP: top_p }),
+        ...(top_k !== undefined && { topK: top_k }),
+        ...(stop_sequences && { stopSequences: stop_sequences }),
+        ...(candidate_count !== undefined && { candidateCount: candidate_count }),
+        ...(responseFormat && { responseMimeType: 'application/json' }),
+        ...(responseFormat && responseFormat !== 'json' && { responseJsonSchema: responseFormat.schema })
+      }
+    };
+
+    const url = `${baseUrl}/models/${model}:generateContent`;
+
+    // Get client request body from global scope
+    let clientRequestBody: any = undefined;
+    try {
+      clientRequestBody = (global as any).currentRequestBody;
+    } catch (error) {
+      // Ignore as it's optional
+    }
+
+    // Prepare debug info
+    const debugInfo: LLMDebugInfo = {
+      timestamp: new Date(),
+      provider: this.providerName,
+      model: model,
+      baseUrl: baseUrl,
+      systemMessage: systemMessage,
+      userMessage: userPrompt,
+      requestData: requestPayload,
+      useCase: debugContext,
+      clientRequestBody: clientRequestBody,
+      sessionId: sessionId,
+      chapterNumber: chapterNumber,
+      pageNumber: pageNumber,
+      pageName: pageName,
+      attachments: getImageAttachmentInfo(resolvedMessages)
+    };
+
+    // Log request
+    await LLMDebugger.logRequest(debugInfo);
+
+    // Log to data flow logger
+    const contextForLogger = {
+      currentChapterNr: chapterNumber,
+      currentPage: pageNumber,
+      debugContext
+    };
+
+    const requestId = this.dataFlowLogger.startRequest(debugContext || 'google-direct', contextForLogger);
+
+    this.dataFlowLogger.logLLMRequest(
+      {
+        stage: debugContext || 'google-direct',
+        prompt: userPrompt,
+        systemMessage: systemMessage,
+        modelName: model,
+        temperature: temperature,
+        contextInfo: {
+          sessionId,
+          chapterNumber,
+          pageNumber,
+          pageName,
+          parameters: {
+            maxTokens,
+            top_p,
+            top_k,
+            stop_sequences
+          }
+        }
+      },
+      contextForLogger,
+      requestId
+    );
+
+    const requestStartTime = Date.now();
+
+    try {
+      logger.info('Sending request to Google Gemini API', {
+        context: 'GoogleProvider',
+        metadata: {
+          url: url,
+          model: model,
+          promptLength: userPrompt.length,
+          maxTokens: maxTokens
+        }
+      });
+
+      const response = await axios.post<GoogleAPIResponse>(
+        url,
+        requestPayload,
+        {
+          headers,
+          timeout: timeoutMs,
+          signal
+        }
+      );
+
+      const requestDuration = Date.now() - requestStartTime;
+
+      if (response && response.status === 200) {
+        const apiResponse: GoogleAPIResponse = response.data;
+
+        // Only the first candidate is used; extract text from its parts
+        const candidate = apiResponse.candidates?.[0];
+        const responseText = (candidate?.content?.parts || [])
+          .map(part => part.text)
+          .join('');
+
+        // Normalize token usage to provider-agnostic format
+        const usageMetadata = apiResponse.usageMetadata || {};
+        const inputTokens = usageMetadata.promptTokenCount || 0;
+        const outputTokens = (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0);
+
+        const tokenUsage: TokenUsage = {
+          inputTokens: inputTokens,
+          outputTokens: outputTokens,
+          totalTokens: usageMetadata.totalTokenCount ?? inputTokens + outputTokens,
+          // Include Google-specific cache metadata if present
+          ...(usageMetadata.cachedContentTokenCount ? {
+            cacheMetadata: {
+              cacheReadTokens: usageMetadata.cachedContentTokenCount
+            }
+          } : {})
+        };
+
+        // Normalize to CommonLLMResponse format
+        const normalizedResponse: GoogleResponse = {
+          message: {
+            content: responseText
+          },
+          sessionId: sessionId,
+          metadata: {
+            provider: this.providerName,
+            model: apiResponse.modelVersion || model,
+            tokensUsed: tokenUsage.totalTokens,
+            processingTime: requestDuration,
+            ...(responseFormat && { responseFormat: responseFormat === 'json' ? 'native-json' : 'native-schema' })
+          },
+          // Standardized token usage
+          usage: tokenUsage,
+          finishReason: apiResponse.promptFeedback?.blockReason
+            ? 'content_filter'
+            : this.normalizeFinishReason(candidate?.finishReason),
+          // Google-specific fields
+          id: apiResponse.responseId,
+          finish_reason: candidate?.finishReason,
+          block_reason: apiResponse.promptFeedback?.blockReason
+        };
+
+        // Add response info to debug
+        debugInfo.responseTimestamp = new Date();
+        debugInfo.response = responseText;
+        debugInfo.rawResponseData = apiResponse;
+
+        // Try to extract thinking content (if model uses <think> tags)
+        const thinkMatch = responseText.match(/<think>([\s\S]*?)<\/think>/);
+        if (thinkMatch && thinkMatch[1]) {
+          debugInfo.thinking = thinkMatch[1].trim();
+        }
+
+        // Log response (including markdown saving)
+        await LLMDebugger.logResponse(debugInfo);
+
+        // Log to data flow logger
+        this.dataFlowLogger.logLLMResponse(
+          debugContext || 'google-direct',
+          {
+            rawResponse: responseText,
+            processingTime: requestDuration
+          },
+          contextForLogger,
+          requestId
+        );
+
+        return normalizedResponse;
+      } else {
+        const error = createHttpError(response?.status || 0, response?.data, errorContext);
+        logger.error('Error calling Google Gemini API', {
+          context: this.constructor.name,
+          error: error.message,
+          metadata: response?.data || {}
+        });
+
+        // Log error to data flow logger
+        this.dataFlowLogger.logLLMResponse(
+          debugContext || 'google-direct',
+          {
+            rawResponse: '',
+            processingTime: Date.now() - requestStartTime,
+            error
+          },
+          contextForLogger,
+          requestId
+        );
+
+        throw error;
+      }
+    } catch (error: unknown) {
+      // Type-safe error handling
+      let errorMessage = 'Unknown error';
+      let errorDetails: Record<string, any> = {};
+
+      if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+
+      // Check for Axios error and safely extract properties
+      if (
+        error &&
+        typeof error === 'object' &&
+        'isAxiosError' in error &&
+        error.isAxiosError === true
+      ) {
+        const axiosError = error as any;
+
+        if (axiosError.response) {
+          errorDetails = {
+            statusCode: axiosError.response.status,
+            statusText: axiosError.response.statusText,
+            data: axiosError.response.data
+          };
+
+          // Log specific error types
+          if (axiosError.response.status === 401 || axiosError.response.status === 403) {
+            logger.error('Authentication error with Google Gemini API', {
+              context: this.constructor.name,
+              error: 'Invalid API key',
+              metadata: {
+                statusCode: axiosError.response.status,
+                message: axiosError.response.data?.error?.message
+              }
+            });
+          } else if (axiosError.response.status === 429) {
+            logger.error('Rate limit exceeded', {
+              context: this.constructor.name,
+              error: 'Too many requests',
+              metadata: {
+                statusCode: axiosError.response.status,
+                retryAfter: axiosError.response.headers['retry-after']
+              }
+            });
+          } else if (axiosError.response.status === 400) {
+            logger.error('Bad request to Google Gemini API', {
+              context: this.constructor.name,
+              error: axiosError.response.data?.error?.message || 'Invalid request',
+              metadata: {
+                status: axiosError.response.data?.error?.status,
+                code: axiosError.response.data?.error?.code,
+                details: axiosError.response.data?.error
+              }
+            });
+          }
+        }
+      }
+
+      logger.error('Error in API request', {
+        context: this.constructor.name,
+        error: errorMessage,
+        metadata: {
+          ...errorDetails,
+          requestModel: model,
+          baseUrl: baseUrl,
+          sessionId: sessionId
+        }
+      });
+
+      // Log error to data flow logger
+      this.dataFlowLogger.logLLMResponse(
+        debugContext || 'google-direct',
+        {
+          rawResponse: '',
+          processingTime: Date.now() - requestStartTime,
+          error: error instanceof Error ? error : new Error(errorMessage)
+        },
+        contextForLogger,
+        requestId
+      );
+
+      // Add error info to debug
+      debugInfo.responseTimestamp = new Date();
+      debugInfo.error = {
+        message: errorMessage,
+        details: errorDetails
+      };
+
+      // Log error
+      await LLMDebugger.logError(debugInfo);
+
+      throw toLLMError(error, errorContext);
+    }
+  }
+
+  /**
+   * Normalize Gemini's finishReason to the provider-agnostic finish reason
+   */
+  private normalizeFinishReason(finishReason: string | undefined): LLMFinishReason | undefined {
+    switch (finishReason) {
+      case 'STOP':
+        return 'stop';
+      case 'MAX_TOKENS':
+        return 'length';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+        return 'content_filter';
+      case undefined:
+        return undefined;
+      default:
+        return 'other';
+    }
+  }
+}
+
+// Export singleton instance
+export const googleProvider = new GoogleProvider();
+
+// Export alias
+export { GoogleProvider as GoogleService };
+export { googleProvider as googleService };
@@ -4,7 +4,6 @@ export * from './base-llm-provider';
 // Concrete providers
 export * from './ollama-provider';
 export * from './anthropic-provider';
-
-// Future providers will be added here:
-// export * from './openai-provider';
-// export * from './google-provider';
+export * from './openai-provider';
+export * from './google-provider';
+export * from './openai-compatible-provider';
@@ -2,9 +2,53 @@ import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../../shared/utils/logging.utils';
 import { BaseLLMProvider } from './base-llm-provider';
-import { LLMProvider, CommonLLMResponse, TokenUsage } from '../types';
-import { OllamaRequestOptions, OllamaResponse } from '../types/ollama.types';
+import {
+  LLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  TokenUsage,
+  LLMStreamEvent,
+  ChatMessage,
+  ToolDefinition,
+  ResponseFormat,
+  ResponseFormatEnforcement,
+  LLMFinishReason,
+  EmbeddingResponse,
+  BalancedHost,
+  HostStatus
+} from '../types';
+import {
+  OllamaRequestOptions,
+  OllamaModelOptions,
+  OllamaResponse,
+  OllamaStreamChunk,
+  OllamaChatMessage,
+  OllamaTool,
+  OllamaToolCall,
+  OllamaEmbeddingOptions,
+  OllamaEmbedResponse,
+  OllamaProviderConfig
+} from '../types/ollama.types';
 import { LLMDebugger, LLMDebugInfo } from '../utils/debug-llm.utils';
+import { parseNDJSON, readStreamToString } from '../utils/stream.utils';
+import {
+  buildChatMessages,
+  splitSystemMessages,
+  getLastUserMessage
+} from '../utils/chat-message.utils';
+import { createToolCall } from '../utils/tool-call.utils';
+import { getImageAttachmentInfo } from '../utils/image.utils';
+import {
+  splitIntoBatches,
+  normalizeEmbeddingInput,
+  getEmbeddingDimensions,
+  sumEmbeddingUsage
+} from '../utils/embedding.utils';
+import { toLLMError, toInvalidRequestError, createHttpError, LLMErrorContext } from '../utils/llm-error.utils';
+import { LLMInvalidRequestError } from '../errors';
+import { DEFAULT_REQUEST_TIMEOUT_MS, StreamTimeouts } from '../utils/timeout.utils';
+import { HostBalancer, normalizeHosts, parseHostList } from '../utils/host-balancer.utils';
+import { buildOllamaModelOptions, findUnknownOllamaOptions, validateOllamaKeepAlive } from '../utils/ollama-options.utils';
 import { DataFlowLoggerService } from '../../data-flow-logger';
 
 /**
@@ -17,10 +61,43 @@ import { DataFlowLoggerService } from '../../data-flow-logger';
  */
 export class OllamaProvider extends BaseLLMProvider {
   private dataFlowLogger: DataFlowLoggerService;
+  private readonly config: OllamaProviderConfig;
+  private readonly hostPools: Map<string, HostBalancer> = new Map();
 
-  constructor() {
+  /**
+   * @param config - Optional instance defaults, e.g. to register several Ollama hosts under different names
+   */
+  constructor(config: OllamaProviderConfig = {}) {
     super(LLMProvider.OLLAMA);
     this.dataFlowLogger = DataFlowLoggerService.getInstance();
+    this.config = config;
+  }
+
+  /**
+   * Get the Ollama host a request is sent to (options, instance config, MODEL1_URL or localhost)
+   * For a load-balanced pool, the comma-separated URLs of all its hosts: the circuit breaker and
+   * concurrency limit of LLMService treat the pool as one endpoint
+   */
+  public getBaseUrl(options: OllamaRequestOptions | OllamaEmbeddingOptions = {}): string {
+    const hosts = this.resolveHosts(options);
+    if (hosts) {
+      return normalizeHosts(hosts).map(host => host.url).join(',');
+    }
+    return options.baseUrl || this.config.baseUrl || process.env.MODEL1_URL || "http://localhost:11434";
+  }
+
+  /**
+   * Get the state of every load-balanced host (empty if no host pool has been used)
+   */
+  public getHostStatus(): HostStatus[] {
+    return Array.from(this.hostPools.values()).flatMap(pool => pool.getStatus());
+  }
+
+  /**
+   * Get the configured instance name (default: 'ollama')
+   */
+  public getName(): string {
+    return this.getLogName();
   }
 
   /**
@@ -28,42 +105,70 @@ export class OllamaProvider extends BaseLLMProvider {
    * @param userPrompt - The user's prompt for the model
    * @param systemMessage - The system message defining AI behavior
    * @param options - Options for the API call (including token and sessionId)
-   * @returns The API response or null on error
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
    */
   public async callWithSystemMessage(
     userPrompt: string,
     systemMessage: string,
     options: OllamaRequestOptions = {}
   ): Promise<CommonLLMResponse | null> {
+    return this.callWithMessages(buildChatMessages(systemMessage, userPrompt), options);
+  }
+
+  /**
+   * Call the Ollama API with a multi-turn message array
+   * Messages (including system messages) are sent in order, as Ollama accepts them inline
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Options for the API call (including token and sessionId)
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
+   */
+  public async callWithMessages(
+    messages: ChatMessage[],
+    options: OllamaRequestOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    const pool = this.getHostPool(options);
+    if (pool) {
+      return pool.run(url => this.callWithMessages(messages, { ...options, baseUrl: url }));
+    }
+
+    const resolvedMessages = await this.prepareMessages(messages, options, this.getLogName());
+    const { systemMessage } = splitSystemMessages(messages);
+    const userPrompt = getLastUserMessage(messages);
+
     const {
-      authToken,
-      model,
+      authToken = this.config.authToken,
+      model = this.config.model,
       temperature = 0.7,
-      baseUrl = process.env.MODEL1_URL || "http://localhost:11434",
-      repeat_penalty,
-      top_p,
-      top_k,
-      frequency_penalty,
-      presence_penalty,
-      repeat_last_n,
-      num_predict,
+      baseUrl = this.config.baseUrl || process.env.MODEL1_URL || "http://localhost:11434",
+      keep_alive,
       debugContext,
       sessionId = uuidv4(),
       chapterNumber,
       pageNumber,
-      pageName
+      pageName,
+      tools,
+      toolChoice,
+      responseFormat,
+      signal,
+      timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
     } = options;
 
     // Validate that model is provided
     if (!model) {
-      throw new Error(
+      throw new LLMInvalidRequestError(
         'Model name is required but not provided. ' +
-        'Please ensure MODEL1_NAME is set in your .env file or pass model explicitly in options.'
+        'Please ensure MODEL1_NAME is set in your .env file or pass model explicitly in options.',
+        { provider: this.getLogName() }
       );
     }
+    const errorContext: LLMErrorContext = { provider: this.getLogName(), model, timeoutMs, signal };
+    const modelOptions = this.getModelOptions(options);
 
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json'
+      'Content-Type': 'application/json',
+      ...options.headers
     };
 
     if (authToken) {
@@ -71,23 +176,15 @@ export class OllamaProvider extends BaseLLMProvider {
     }
 
     // Create base data without session_id
+    // Ollama has no tool_choice: 'none' omits the tools, anything else sends them
     const baseData = {
       model: model,
-      messages: [
-        { role: "system", content: systemMessage },
-        { role: "user", content: userPrompt }
-      ],
-      temperature: temperature,
+      messages: this.toOllamaMessages(resolvedMessages),
+      ...(tools && tools.length > 0 && toolChoice !== 'none' && { tools: this.toOllamaTools(tools) }),
+      ...(responseFormat && { format: this.toOllamaFormat(responseFormat) }),
       stream: false,
-      options: {
-        ...(repeat_penalty !== undefined && { repeat_penalty }),
-        ...(top_p !== undefined && { top_p }),
-        ...(top_k !== undefined && { top_k }),
-        ...(frequency_penalty !== undefined && { frequency_penalty }),
-        ...(presence_penalty !== undefined && { presence_penalty }),
-        ...(repeat_last_n !== undefined && { repeat_last_n }),
-        ...(num_predict !== undefined && { num_predict })
-      }
+      ...(keep_alive !== undefined && { keep_alive }),
+      options: modelOptions
     };
 
     // Add session_id if it should be used
@@ -107,7 +204,7 @@ export class OllamaProvider extends BaseLLMProvider {
     // Prepare debug info
     const debugInfo: LLMDebugInfo = {
       timestamp: new Date(),
-      provider: this.providerName,
+      provider: this.getLogName(),
       model: model,
       baseUrl: baseUrl,
       systemMessage: systemMessage,
@@ -118,7 +215,8 @@ export class OllamaProvider extends BaseLLMProvider {
       sessionId: sessionId,
       chapterNumber: chapterNumber,
       pageNumber: pageNumber,
-      pageName: pageName
+      pageName: pageName,
+      attachments: getImageAttachmentInfo(resolvedMessages)
     };
 
     // Log request
@@ -131,11 +229,11 @@ export class OllamaProvider extends BaseLLMProvider {
       debugContext
     };
 
-    const requestId = this.dataFlowLogger.startRequest(debugContext || 'ollama-direct', contextForLogger);
+    const requestId = this.dataFlowLogger.startRequest(debugContext || `${this.getLogName()}-direct`, contextForLogger);
 
     this.dataFlowLogger.logLLMRequest(
       {
-        stage: debugContext || 'ollama-direct',
+        stage: debugContext || `${this.getLogName()}-direct`,
         prompt: userPrompt,
         systemMessage: systemMessage,
         modelName: model,
@@ -146,13 +244,7 @@ export class OllamaProvider extends BaseLLMProvider {
           pageNumber,
           pageName,
           parameters: {
-            repeat_penalty,
-            top_p,
-            top_k,
-            frequency_penalty,
-            presence_penalty,
-            repeat_last_n,
-            num_predict
+            ...modelOptions
           }
         }
       },
@@ -175,7 +267,8 @@ export class OllamaProvider extends BaseLLMProvider {
 
       const response = await axios.post(`${baseUrl}/api/chat`, data, {
         headers,
-        timeout: 90000 // 90 second timeout
+        timeout: timeoutMs,
+        signal
       });
       const requestDuration = Date.now() - requestStartTime;
 
@@ -198,15 +291,18 @@ export class OllamaProvider extends BaseLLMProvider {
 
         // Add metadata
         aiResponse.metadata = {
-          provider: this.providerName,
+          provider: this.getLogName(),
           model: model,
           tokensUsed: tokenUsage.totalTokens,
-          processingTime: requestDuration
+          processingTime: requestDuration,
+          ...(responseFormat && { responseFormat: this.getFormatEnforcement(responseFormat) })
         };
 
         // Add standardized token usage
         aiResponse.usage = tokenUsage;
 
+        await this.normalizeResponseFields(aiResponse);
+
         // Add response info
         debugInfo.responseTimestamp = new Date();
         debugInfo.response = aiResponse.message.content;
@@ -223,7 +319,7 @@ export class OllamaProvider extends BaseLLMProvider {
 
         // Log to data flow logger
         this.dataFlowLogger.logLLMResponse(
-          debugContext || 'ollama-direct',
+          debugContext || `${this.getLogName()}-direct`,
           {
             rawResponse: aiResponse.message.content,
             processingTime: requestDuration
@@ -234,7 +330,7 @@ export class OllamaProvider extends BaseLLMProvider {
 
         return aiResponse;
       } else {
-        const error = new Error(`Status ${response?.status || 'unknown'}`);
+        const error = createHttpError(response?.status || 0, response?.data, errorContext);
         logger.error('Error calling Ollama API', {
           context: this.constructor.name,
           error: error.message,
@@ -243,7 +339,7 @@ export class OllamaProvider extends BaseLLMProvider {
 
         // Log error to data flow logger
         this.dataFlowLogger.logLLMResponse(
-          debugContext || 'ollama-direct',
+          debugContext || `${this.getLogName()}-direct`,
           {
             rawResponse: '',
             processingTime: Date.now() - requestStartTime,
@@ -253,7 +349,7 @@ export class OllamaProvider extends BaseLLMProvider {
           requestId
         );
 
-        return null;
+        throw error;
       }
     } catch (error: unknown) {
       // Type-safe error handling
@@ -292,11 +388,12 @@ export class OllamaProvider extends BaseLLMProvider {
 
             // Retry without session_id
             try {
-              const retryResponse = await axios.post(`${baseUrl}/api/chat`, baseData, { headers });
+              const retryResponse = await axios.post(`${baseUrl}/api/chat`, baseData, { headers, timeout: timeoutMs, signal });
               if (retryResponse && retryResponse.status === 200) {
                 const aiResponse = retryResponse.data;
                 // Add session ID for internal tracking anyway
                 aiResponse.sessionId = sessionId;
+                await this.normalizeResponseFields(aiResponse);
 
                 debugInfo.responseTimestamp = new Date();
                 debugInfo.response = aiResponse.message.content;
@@ -311,7 +408,7 @@ export class OllamaProvider extends BaseLLMProvider {
 
                 // Log successful retry to data flow logger
                 this.dataFlowLogger.logLLMResponse(
-                  debugContext || 'ollama-direct',
+                  debugContext || `${this.getLogName()}-direct`,
                   {
                     rawResponse: aiResponse.message.content,
                     processingTime: Date.now() - requestStartTime
@@ -349,11 +446,13 @@ export class OllamaProvider extends BaseLLMProvider {
               try {
                 const headersRawAuth: Record<string, string> = {
                   'Content-Type': 'application/json',
+                  ...options.headers,
                   'Authorization': authToken
                 };
                 const retryRaw = await axios.post(`${baseUrl}/api/chat`, baseData, {
                   headers: headersRawAuth,
-                  timeout: 90000
+                  timeout: timeoutMs,
+                  signal
                 });
                 if (retryRaw && retryRaw.status === 200) {
                   return this.handleSuccessfulResponse(retryRaw.data, debugInfo, sessionId, requestStartTime, debugContext, contextForLogger, requestId);
@@ -371,11 +470,13 @@ export class OllamaProvider extends BaseLLMProvider {
               try {
                 const headersApiKey: Record<string, string> = {
                   'Content-Type': 'application/json',
+                  ...options.headers,
                   'X-API-Key': authToken
                 };
                 const retryApiKey = await axios.post(`${baseUrl}/api/chat`, baseData, {
                   headers: headersApiKey,
-                  timeout: 90000
+                  timeout: timeoutMs,
+                  signal
                 });
                 if (retryApiKey && retryApiKey.status === 200) {
                   return this.handleSuccessfulResponse(retryApiKey.data, debugInfo, sessionId, requestStartTime, debugContext, contextForLogger, requestId);
@@ -390,10 +491,11 @@ export class OllamaProvider extends BaseLLMProvider {
 
             // 3) No auth (for dev instances)
             try {
-              const headersNoAuth: Record<string, string> = { 'Content-Type': 'application/json' };
+              const headersNoAuth: Record<string, string> = { 'Content-Type': 'application/json', ...options.headers };
               const retryAuthless = await axios.post(`${baseUrl}/api/chat`, baseData, {
                 headers: headersNoAuth,
-                timeout: 90000
+                timeout: timeoutMs,
+                signal
               });
               if (retryAuthless && retryAuthless.status === 200) {
                 return this.handleSuccessfulResponse(retryAuthless.data, debugInfo, sessionId, requestStartTime, debugContext, contextForLogger, requestId);
@@ -421,7 +523,7 @@ export class OllamaProvider extends BaseLLMProvider {
 
       // Log error to data flow logger
       this.dataFlowLogger.logLLMResponse(
-        debugContext || 'ollama-direct',
+        debugContext || `${this.getLogName()}-direct`,
         {
           rawResponse: '',
           processingTime: Date.now() - requestStartTime,
@@ -441,24 +543,597 @@ export class OllamaProvider extends BaseLLMProvider {
       // Log error
       await LLMDebugger.logError(debugInfo);
 
-      // Check for memory errors in response
-      const errorResponseData = errorDetails.data;
-      if (
-        errorResponseData &&
-        typeof errorResponseData === 'object' &&
-        'error' in errorResponseData &&
-        typeof errorResponseData.error === 'string'
-      ) {
-        const errorText = errorResponseData.error;
-        if (
-          errorText.includes('model requires more system memory') ||
-          errorText.includes('model request too large for system')
-        ) {
-          throw new Error(`Insufficient memory to load model ${model}. Try closing other applications or using a smaller model.`);
+      // Typed error (memory, auth, model not found, network, ...) for callers and fallback chains
+      throw toLLMError(error, errorContext);
+    }
+  }
+
+  /**
+   * Stream the Ollama chat response (NDJSON) for a multi-turn message array
+   * The assembled response is logged to LLMDebugger and DataFlowLogger once the stream completes.
+   * Tool calling is not supported while streaming; use callWithMessages instead.
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Options for the API call
+   * @throws LLMError (subclass) when the request fails or is invalid
+   */
+  public async *streamWithMessages(
+    messages: ChatMessage[],
+    options: OllamaRequestOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const pool = this.getHostPool(options);
+    if (pool) {
+      const lease = pool.acquire();
+      let failure: unknown;
+      try {
+        yield* this.streamWithMessages(messages, { ...options, baseUrl: lease.url });
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        lease.release(failure);
+      }
+      return;
+    }
+
+    if (options.tools && options.tools.length > 0) {
+      throw new LLMInvalidRequestError('Tool calling is not supported for streaming requests. Use callWithMessages instead.', {
+        provider: this.getLogName(),
+        model: options.model
+      });
+    }
+    const resolvedMessages = await this.prepareMessages(messages, options, this.getLogName());
+    const { systemMessage } = splitSystemMessages(messages);
+    const userPrompt = getLastUserMessage(messages);
+
+    const {
+      authToken = this.config.authToken,
+      model = this.config.model,
+      temperature = 0.7,
+      baseUrl = this.config.baseUrl || process.env.MODEL1_URL || "http://localhost:11434",
+      keep_alive,
+      debugContext,
+      sessionId = uuidv4(),
+      chapterNumber,
+      pageNumber,
+      pageName,
+      responseFormat,
+      signal,
+      timeoutMs,
+      connectTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+      firstTokenTimeoutMs
+    } = options;
+
+    // Validate that model is provided
+    if (!model) {
+      throw new LLMInvalidRequestError(
+        'Model name is required but not provided. ' +
+        'Please ensure MODEL1_NAME is set in your .env file or pass model explicitly in options.',
+        { provider: this.getLogName() }
+      );
+    }
+    const errorContext: LLMErrorContext = { provider: this.getLogName(), model, timeoutMs: connectTimeoutMs, signal };
+    const modelOptions = this.getModelOptions(options);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers
+    };
+
+    if (authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
+    }
+
+    const data = {
+      model: model,
+      messages: this.toOllamaMessages(resolvedMessages),
+      ...(responseFormat && { format: this.toOllamaFormat(responseFormat) }),
+      stream: true,
+      ...(keep_alive !== undefined && { keep_alive }),
+      options: modelOptions
+    };
+
+    // Prepare debug info
+    const debugInfo: LLMDebugInfo = {
+      timestamp: new Date(),
+      provider: this.getLogName(),
+      model: model,
+      baseUrl: baseUrl,
+      systemMessage: systemMessage,
+      userMessage: userPrompt,
+      requestData: data,
+      useCase: debugContext,
+      clientRequestBody: (global as any).currentRequestBody,
+      sessionId: sessionId,
+      chapterNumber: chapterNumber,
+      pageNumber: pageNumber,
+      pageName: pageName,
+      attachments: getImageAttachmentInfo(resolvedMessages)
+    };
+
+    await LLMDebugger.logRequest(debugInfo);
+
+    const contextForLogger = {
+      currentChapterNr: chapterNumber,
+      currentPage: pageNumber,
+      debugContext
+    };
+
+    const requestId = this.dataFlowLogger.startRequest(debugContext || `${this.getLogName()}-stream`, contextForLogger);
+
+    this.dataFlowLogger.logLLMRequest(
+      {
+        stage: debugContext || `${this.getLogName()}-stream`,
+        prompt: userPrompt,
+        systemMessage: systemMessage,
+        modelName: model,
+        temperature: temperature,
+        contextInfo: {
+          sessionId,
+          chapterNumber,
+          pageNumber,
+          pageName,
+          streaming: true,
+          parameters: {
+            ...modelOptions
+          }
+        }
+      },
+      contextForLogger,
+      requestId
+    );
+
+    const requestStartTime = Date.now();
+    let content = '';
+    let stream: any;
+    const timeouts = new StreamTimeouts({ firstTokenTimeoutMs, totalTimeoutMs: timeoutMs }, signal);
+
+    try {
+      logger.info('Sending streaming request to Ollama API', {
+        context: 'OllamaProvider',
+        metadata: {
+          url: `${baseUrl}/api/chat`,
+          model: model,
+          hasAuthToken: !!authToken,
+          promptLength: userPrompt.length
+        }
+      });
+
+      const response = await axios.post(`${baseUrl}/api/chat`, data, {
+        headers,
+        responseType: 'stream',
+        timeout: connectTimeoutMs,
+        signal: timeouts.signal
+      });
+      stream = response.data;
+
+      let finalChunk: OllamaStreamChunk | undefined;
+
+      for await (const chunk of parseNDJSON<OllamaStreamChunk>(stream)) {
+        if (chunk.error) {
+          throw new Error(chunk.error);
+        }
+
+        const delta = chunk.message?.content || '';
+        if (delta) {
+          timeouts.tokenReceived();
+          content += delta;
+          yield { type: 'delta', content: delta };
+        }
+
+        if (chunk.done) {
+          finalChunk = chunk;
+          break;
+        }
+      }
+
+      const requestDuration = Date.now() - requestStartTime;
+      const inputTokens = finalChunk?.prompt_eval_count || 0;
+      const outputTokens = finalChunk?.eval_count || 0;
+
+      const tokenUsage: TokenUsage = {
+        inputTokens: inputTokens,
+        outputTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens
+      };
+
+      const aiResponse: OllamaResponse = {
+        message: { content },
+        sessionId: sessionId,
+        metadata: {
+          provider: this.getLogName(),
+          model: model,
+          tokensUsed: tokenUsage.totalTokens,
+          processingTime: requestDuration,
+          ...(responseFormat && { responseFormat: this.getFormatEnforcement(responseFormat) })
+        },
+        usage: tokenUsage,
+        eval_count: finalChunk?.eval_count,
+        eval_duration: finalChunk?.eval_duration,
+        prompt_eval_count: finalChunk?.prompt_eval_count,
+        prompt_eval_duration: finalChunk?.prompt_eval_duration,
+        total_duration: finalChunk?.total_duration,
+        load_duration: finalChunk?.load_duration,
+        finishReason: this.normalizeFinishReason(finalChunk?.done_reason, false)
+      };
+
+      debugInfo.responseTimestamp = new Date();
+      debugInfo.response = content;
+      debugInfo.rawResponseData = { ...finalChunk, message: { role: 'assistant', content } };
+
+      const thinkMatch = content.match(/<think>([\s\S]*?)<\/think>/);
+      if (thinkMatch && thinkMatch[1]) {
+        debugInfo.thinking = thinkMatch[1].trim();
+      }
+
+      await LLMDebugger.logResponse(debugInfo);
+
+      this.dataFlowLogger.logLLMResponse(
+        debugContext || `${this.getLogName()}-stream`,
+        {
+          rawResponse: content,
+          processingTime: requestDuration
+        },
+        contextForLogger,
+        requestId
+      );
+
+      yield {
+        type: 'done',
+        finishReason: aiResponse.finishReason,
+        usage: tokenUsage,
+        response: aiResponse
+      };
+    } catch (error: unknown) {
+      const timeoutError = timeouts.createError(errorContext);
+      let errorMessage = timeoutError?.message || (error instanceof Error ? error.message : 'Unknown error');
+      let errorDetails: Record<string, any> = {};
+
+      const axiosError = error as any;
+      if (axiosError?.isAxiosError && axiosError.response) {
+        // With responseType 'stream' the error body is a stream as well
+        let errorData = axiosError.response.data;
+        if (errorData && typeof errorData[Symbol.asyncIterator] === 'function') {
+          try {
+            const rawBody = await readStreamToString(errorData);
+            try {
+              errorData = JSON.parse(rawBody);
+            } catch {
+              errorData = rawBody;
+            }
+          } catch {
+            errorData = undefined;
+          }
+        }
+
+        errorDetails = {
+          statusCode: axiosError.response.status,
+          statusText: axiosError.response.statusText,
+          data: errorData
+        };
+
+        if (typeof errorData?.error === 'string') {
+          errorMessage = errorData.error;
         }
       }
 
-      return null;
+      logger.error('Error in streaming API request', {
+        context: this.constructor.name,
+        error: errorMessage,
+        metadata: {
+          ...errorDetails,
+          requestModel: model,
+          baseUrl: baseUrl,
+          sessionId: sessionId,
+          receivedLength: content.length
+        }
+      });
+
+      this.dataFlowLogger.logLLMResponse(
+        debugContext || `${this.getLogName()}-stream`,
+        {
+          rawResponse: content,
+          processingTime: Date.now() - requestStartTime,
+          error: error instanceof Error ? error : new Error(errorMessage)
+        },
+        contextForLogger,
+        requestId
+      );
+
+      debugInfo.responseTimestamp = new Date();
+      debugInfo.response = content || undefined;
+      debugInfo.error = {
+        message: errorMessage,
+        details: errorDetails
+      };
+
+      await LLMDebugger.logError(debugInfo);
+
+      if (timeoutError) {
+        throw timeoutError;
+      }
+      // The error body was read from the stream above, so map the status with the parsed body
+      if (axiosError?.isAxiosError && axiosError.response) {
+        throw createHttpError(axiosError.response.status, errorDetails.data, errorContext, axiosError.response.headers, error);
+      }
+      throw toLLMError(error, errorContext);
+    } finally {
+      timeouts.dispose();
+      // Release the connection if the consumer stopped early or an error occurred
+      if (stream && typeof stream.destroy === 'function' && !stream.destroyed) {
+        stream.destroy();
+      }
+    }
+  }
+
+  /**
+   * Create embeddings via the Ollama /api/embed endpoint
+   * @param texts - Text or texts to embed
+   * @param options - Options for the API call (model is required)
+   * @returns The embeddings with dimensions and usage
+   * @throws LLMError (subclass) when a batch fails
+   */
+  public async embed(
+    texts: string | string[],
+    options: OllamaEmbeddingOptions = {}
+  ): Promise<EmbeddingResponse | null> {
+    const pool = this.getHostPool(options);
+    if (pool) {
+      return pool.run(url => this.embed(texts, { ...options, baseUrl: url }));
+    }
+
+    const input = normalizeEmbeddingInput(texts);
+    const {
+      model = this.config.embeddingModel,
+      authToken = this.config.authToken,
+      baseUrl = this.config.baseUrl || process.env.MODEL1_URL || "http://localhost:11434",
+      batchSize = 32,
+      dimensions,
+      truncate,
+      keep_alive,
+      debugContext,
+      signal,
+      timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+    } = options;
+
+    // Validate that model is provided
+    if (!model) {
+      throw new LLMInvalidRequestError(
+        'Embedding model name is required but not provided. ' +
+        'Please pass model in options (e.g. nomic-embed-text) or configure embeddingModel for the provider.',
+        { provider: this.getLogName() }
+      );
+    }
+    const errorContext: LLMErrorContext = { provider: this.getLogName(), model, timeoutMs, signal };
+
+    const batches = splitIntoBatches(input, batchSize);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers
+    };
+    if (authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
+    }
+
+    const requestStartTime = Date.now();
+    const embeddings: number[][] = [];
+    const tokenCounts: Array<number | undefined> = [];
+
+    try {
+      logger.info('Sending embedding request to Ollama API', {
+        context: this.constructor.name,
+        metadata: {
+          url: `${baseUrl}/api/embed`,
+          model: model,
+          texts: input.length,
+          batches: batches.length,
+          debugContext
+        }
+      });
+
+      for (const batch of batches) {
+        const response = await axios.post<OllamaEmbedResponse>(`${baseUrl}/api/embed`, {
+          model: model,
+          input: batch,
+          ...(dimensions !== undefined && { dimensions }),
+          ...(truncate !== undefined && { truncate }),
+          ...(keep_alive !== undefined && { keep_alive })
+        }, {
+          headers,
+          timeout: timeoutMs,
+          signal
+        });
+
+        if (response.data.embeddings?.length !== batch.length) {
+          throw new Error(`Expected ${batch.length} embeddings, received ${response.data.embeddings?.length ?? 0}`);
+        }
+
+        embeddings.push(...response.data.embeddings);
+        tokenCounts.push(response.data.prompt_eval_count);
+      }
+
+      const usage = sumEmbeddingUsage(tokenCounts);
+
+      return {
+        embeddings,
+        dimensions: getEmbeddingDimensions(embeddings),
+        metadata: {
+          provider: this.getLogName(),
+          model: model,
+          processingTime: Date.now() - requestStartTime,
+          batches: batches.length
+        },
+        ...(usage && { usage })
+      };
+    } catch (error: unknown) {
+      const axiosError = error as any;
+      logger.error('Error in embedding request', {
+        context: this.constructor.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          statusCode: axiosError?.response?.status,
+          data: axiosError?.response?.data,
+          requestModel: model,
+          baseUrl: baseUrl,
+          completedBatches: tokenCounts.length,
+          debugContext
+        }
+      });
+
+      throw toLLMError(error, errorContext);
+    }
+  }
+
+  /**
+   * Get the host pool of a request: hosts of the options, of the instance config, or MODEL1_URLS
+   * @returns undefined if the request goes to a single host (an explicit baseUrl always does)
+   */
+  private resolveHosts(options: OllamaRequestOptions | OllamaEmbeddingOptions): Array<string | BalancedHost> | undefined {
+    if (options.baseUrl) {
+      return undefined;
+    }
+    const hosts = options.hosts || this.config.hosts || (this.config.baseUrl ? undefined : parseHostList(process.env.MODEL1_URLS));
+    return hosts && hosts.length > 0 ? hosts : undefined;
+  }
+
+  /**
+   * Get (or create) the load balancer of the request's host pool
+   * Pools are kept per host list, so health and in-flight counts persist across requests
+   */
+  private getHostPool(options: OllamaRequestOptions | OllamaEmbeddingOptions): HostBalancer | undefined {
+    const hosts = this.resolveHosts(options);
+    if (!hosts) {
+      return undefined;
+    }
+
+    const key = normalizeHosts(hosts).map(host => `${host.url}*${host.weight ?? 1}`).join(',');
+    let pool = this.hostPools.get(key);
+    if (!pool) {
+      pool = new HostBalancer(hosts, this.config.loadBalancing, this.config.hostHealth);
+      this.hostPools.set(key, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * Validate the model parameters of a chat request and warn about options that would be ignored
+   * @throws LLMInvalidRequestError if a parameter or keep_alive has an invalid value
+   */
+  private getModelOptions(options: OllamaRequestOptions): OllamaModelOptions {
+    const model = options.model || this.config.model;
+    let modelOptions: OllamaModelOptions;
+    try {
+      if (options.keep_alive !== undefined) {
+        validateOllamaKeepAlive(options.keep_alive);
+      }
+      modelOptions = buildOllamaModelOptions(options);
+    } catch (error) {
+      throw toInvalidRequestError(error, { provider: this.getLogName(), model });
+    }
+
+    const unknownOptions = findUnknownOllamaOptions(options as Record<string, unknown>);
+    if (unknownOptions.length > 0) {
+      logger.warn(`Ignoring unknown Ollama options: ${unknownOptions.join(', ')}`, {
+        context: this.constructor.name,
+        metadata: { model, debugContext: options.debugContext }
+      });
+    }
+
+    return modelOptions;
+  }
+
+  /**
+   * Convert chat messages to the Ollama format, including images, tool calls and tool results
+   */
+  private toOllamaMessages(messages: ChatMessage[]): OllamaChatMessage[] {
+    return messages.map(message => {
+      if (message.role === 'tool') {
+        return {
+          role: 'tool',
+          content: message.content,
+          ...(message.toolName && { tool_name: message.toolName })
+        };
+      }
+
+      if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        return {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.toolCalls.map(call => ({
+            function: { name: call.name, arguments: call.arguments }
+          }))
+        };
+      }
+
+      return {
+        role: message.role,
+        content: message.content,
+        // Ollama expects raw base64 strings (images are resolved before mapping)
+        ...(message.images && message.images.length > 0 && { images: message.images.map(image => image.data!) })
+      };
+    });
+  }
+
+  /**
+   * Convert tool definitions to Ollama function tools
+   */
+  private toOllamaTools(tools: ToolDefinition[]): OllamaTool[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        ...(tool.description && { description: tool.description }),
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  /**
+   * Map the response format to Ollama's `format` field ('json' or a JSON Schema)
+   */
+  private toOllamaFormat(responseFormat: ResponseFormat): 'json' | Record<string, any> {
+    return responseFormat === 'json' ? 'json' : responseFormat.schema;
+  }
+
+  /**
+   * Ollama enforces both JSON mode and schemas natively via `format`
+   */
+  private getFormatEnforcement(responseFormat: ResponseFormat): ResponseFormatEnforcement {
+    return responseFormat === 'json' ? 'native-json' : 'native-schema';
+  }
+
+  /**
+   * Add normalized fields to a raw Ollama response:
+   * tool calls (message.tool_calls) and the finish reason (done_reason)
+   */
+  private async normalizeResponseFields(aiResponse: any): Promise<void> {
+    const rawToolCalls: OllamaToolCall[] | undefined = aiResponse?.message?.tool_calls;
+    if (rawToolCalls && rawToolCalls.length > 0) {
+      aiResponse.toolCalls = await Promise.all(
+        rawToolCalls.map(call => createToolCall(call.function.name, call.function.arguments, call.id))
+      );
+    }
+
+    const finishReason = this.normalizeFinishReason(aiResponse?.done_reason, !!aiResponse.toolCalls);
+    if (finishReason) {
+      aiResponse.finishReason = finishReason;
+    }
+  }
+
+  /**
+   * Normalize Ollama's done_reason to the provider-agnostic finish reason
+   * Ollama reports 'stop' for tool calls as well, so they are detected separately
+   */
+  private normalizeFinishReason(doneReason: string | undefined, hasToolCalls: boolean): LLMFinishReason | undefined {
+    if (hasToolCalls) return 'tool_calls';
+    switch (doneReason) {
+      case 'stop':
+        return 'stop';
+      case 'length':
+        return 'length';
+      case undefined:
+        return undefined;
+      default:
+        return 'other';
     }
   }
 
@@ -475,6 +1150,7 @@ export class OllamaProvider extends BaseLLMProvider {
     requestId: string
   ): Promise<OllamaResponse> {
     aiResponse.sessionId = sessionId;
+    await this.normalizeResponseFields(aiResponse);
     debugInfo.responseTimestamp = new Date();
     debugInfo.response = aiResponse.message.content;
     debugInfo.rawResponseData = aiResponse;
@@ -487,7 +1163,7 @@ export class OllamaProvider extends BaseLLMProvider {
     await LLMDebugger.logResponse(debugInfo);
 
     this.dataFlowLogger.logLLMResponse(
-      debugContext || 'ollama-direct',
+      debugContext || `${this.getLogName()}-direct`,
       {
         rawResponse: aiResponse.message.content,
         processingTime: Date.now() - requestStartTime
@@ -499,6 +1175,13 @@ export class OllamaProvider extends BaseLLMProvider {
     return aiResponse;
   }
 
+  /**
+   * Name used for debug logs, data flow stages and response metadata
+   */
+  private getLogName(): string {
+    return this.config.name || this.providerName;
+  }
+
   /**
    * Backward compatibility: Old method name
    */
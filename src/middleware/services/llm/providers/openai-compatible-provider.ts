@@ -0,0 +1,116 @@
+import { OpenAIProvider } from './openai-provider';
+import { CommonLLMOptions } from '../types';
+import { LLMInvalidRequestError } from '../errors';
+import {
+  OpenAIRequestOptions,
+  OpenAIConnection,
+  OpenAICompatibleProviderConfig
+} from '../types/openai.types';
+
+/**
+ * Generic provider for self-hosted servers that speak the OpenAI
+ * `/v1/chat/completions` dialect (vLLM, LM Studio, llama.cpp server, LocalAI, ...)
+ *
+ * Each instance targets one server and carries its own name, so several
+ * instances can be registered side by side in LLMService:
+ *
+ * @example
+ * ```typescript
+ * llmService.registerProvider('vllm', new OpenAICompatibleProvider({
+ *   name: 'vllm',
+ *   baseUrl: 'http://gpu-box:8000',
+ *   model: 'meta-llama/Llama-3.1-8B-Instruct'
+ * }));
+ *
+ * await llmService.call('Hello', { provider: 'vllm' });
+ * ```
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  private readonly config: OpenAICompatibleProviderConfig;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    super();
+
+    if (!config.name) {
+      throw new Error('OpenAI-compatible provider requires a name.');
+    }
+    if (!config.baseUrl) {
+      throw new Error(`OpenAI-compatible provider "${config.name}" requires a baseUrl.`);
+    }
+
+    this.config = config;
+  }
+
+  /**
+   * Get the configured instance name
+   */
+  public getName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Get the server root a request is sent to (options or instance config)
+   */
+  public getBaseUrl(options: CommonLLMOptions = {}): string {
+    return options.baseUrl || this.config.baseUrl;
+  }
+
+  /**
+   * Resolve endpoint, credentials and model from request options and instance config
+   * `options.baseUrl` overrides the configured server root, the base path is always appended
+   */
+  protected resolveConnection(options: OpenAIRequestOptions): OpenAIConnection {
+    const serverUrl = (options.baseUrl || this.config.baseUrl).replace(/\/+$/, '');
+    const basePath = this.config.basePath ?? '/v1';
+    const model = options.model || this.config.model;
+
+    // Validate that model is provided
+    if (!model) {
+      throw new LLMInvalidRequestError(
+        'Model name is required but not provided. ' +
+        `Please configure a model for provider "${this.config.name}" or pass model in options.`,
+        { provider: this.getLogName() }
+      );
+    }
+
+    return {
+      baseUrl: `${serverUrl}${basePath}`,
+      model,
+      authToken: options.authToken || this.config.authToken
+    };
+  }
+
+  /**
+   * Build headers with the configured auth header and scheme
+   * Request headers are applied on top of the configured static headers
+   */
+  protected buildHeaders(authToken?: string, extraHeaders?: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+      ...extraHeaders
+    };
+
+    if (authToken) {
+      const authHeader = this.config.authHeader || 'Authorization';
+      const authScheme = this.config.authScheme ?? (authHeader === 'Authorization' ? 'Bearer' : '');
+      headers[authHeader] = authScheme ? `${authScheme} ${authToken}` : authToken;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Use the configured embedding model (or the default model) for embed()
+   */
+  protected getDefaultEmbeddingModel(): string | undefined {
+    return this.config.embeddingModel || this.config.model;
+  }
+
+  /**
+   * Use the instance name for logs and metadata (e.g. logs/llm/vllm/requests)
+   */
+  protected getLogName(): string {
+    return this.config.name;
+  }
+}
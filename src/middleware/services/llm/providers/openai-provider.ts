@@ -0,0 +1,730 @@
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../shared/utils/logging.utils';
+import { BaseLLMProvider } from './base-llm-provider';
+import {
+  LLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  TokenUsage,
+  ChatMessage,
+  ToolDefinition,
+  ToolChoice,
+  ResponseFormat,
+  LLMFinishReason,
+  EmbeddingResponse
+} from '../types';
+import {
+  OpenAIRequestOptions,
+  OpenAIAPIRequest,
+  OpenAIAPIResponse,
+  OpenAIResponse,
+  OpenAIUsage,
+  OpenAIConnection,
+  OpenAIMessage,
+  OpenAITool,
+  OpenAIToolChoice,
+  OpenAIResponseFormat,
+  OpenAIEmbeddingOptions,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse
+} from '../types/openai.types';
+import { LLMDebugger, LLMDebugInfo } from '../utils/debug-llm.utils';
+import { DataFlowLoggerService } from '../../data-flow-logger';
+import {
+  buildChatMessages,
+  splitSystemMessages,
+  getLastUserMessage
+} from '../utils/chat-message.utils';
+import { createToolCall } from '../utils/tool-call.utils';
+import { getImageAttachmentInfo } from '../utils/image.utils';
+import { toLLMError, createHttpError, LLMErrorContext } from '../utils/llm-error.utils';
+import { LLMInvalidRequestError } from '../errors';
+import { DEFAULT_REQUEST_TIMEOUT_MS } from '../utils/timeout.utils';
+import {
+  splitIntoBatches,
+  normalizeEmbeddingInput,
+  getEmbeddingDimensions,
+  sumEmbeddingUsage
+} from '../utils/embedding.utils';
+
+/**
+ * OpenAI provider implementation (Chat Completions API) with advanced features:
+ * - Comprehensive debugging and logging
+ * - Error handling for auth, rate limit and bad request errors
+ * - Parameter handling
+ */
+export class OpenAIProvider extends BaseLLMProvider {
+  protected dataFlowLogger: DataFlowLoggerService;
+  protected readonly BASE_URL = 'https://api.openai.com/v1';
+
+  constructor() {
+    super(LLMProvider.OPENAI);
+    this.dataFlowLogger = DataFlowLoggerService.getInstance();
+  }
+
+  /**
+   * Get the API base URL a request is sent to (options, OPENAI_BASE_URL or api.openai.com)
+   */
+  public getBaseUrl(options: CommonLLMOptions = {}): string {
+    return options.baseUrl || process.env.OPENAI_BASE_URL || this.BASE_URL;
+  }
+
+  /**
+   * Call the OpenAI Chat Completions API with a custom system message
+   * @param userPrompt - The user's prompt for the model
+   * @param systemMessage - The system message defining AI behavior
+   * @param options - Options for the API call
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
+   */
+  public async callWithSystemMessage(
+    userPrompt: string,
+    systemMessage: string,
+    options: OpenAIRequestOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    return this.callWithMessages(buildChatMessages(systemMessage, userPrompt), options);
+  }
+
+  /**
+   * Call the OpenAI Chat Completions API with a multi-turn message array
+   * Messages (including system messages) are sent in order, as the Chat Completions API accepts them inline
+   * @param messages - Conversation history (system, user and assistant turns)
+   * @param options - Options for the API call
+   * @returns The API response
+   * @throws LLMError (subclass) when the request fails
+   */
+  public async callWithMessages(
+    messages: ChatMessage[],
+    options: OpenAIRequestOptions = {}
+  ): Promise<CommonLLMResponse | null> {
+    const resolvedMessages = await this.prepareMessages(messages, options, this.getLogName());
+    const { systemMessage } = splitSystemMessages(messages);
+    const userPrompt = getLastUserMessage(messages);
+
+    const { authToken, model, baseUrl } = this.resolveConnection(options);
+    const logName = this.getLogName();
+    const {
+      temperature = 0.7,
+      maxTokens,
+      top_p,
+      frequency_penalty,
+      presence_penalty,
+      stop,
+      seed,
+      user,
+      debugContext,
+      sessionId = uuidv4(),
+      chapterNumber,
+      pageNumber,
+      pageName,
+      tools,
+      toolChoice,
+      responseFormat,
+      signal,
+      timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+    } = options;
+    const errorContext: LLMErrorContext = { provider: logName, model, timeoutMs, signal };
+
+    const headers = this.buildHeaders(authToken, options.headers);
+    const url = this.getChatCompletionsUrl(baseUrl);
+
+    // Build the request payload
+    const requestPayload: OpenAIAPIRequest = {
+      model: model,
+      messages: this.toOpenAIMessages(resolvedMessages),
+      temperature: temperature,
+      stream: false,
+      ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      ...(top_p !== undefined && { top_p }),
+      ...(frequency_penalty !== undefined && { frequency_penalty }),
+      ...(presence_penalty !== undefined && { presence_penalty }),
+      ...(stop !== undefined && { stop }),
+      ...(seed !== undefined && { seed }),
+      ...(user !== undefined && { user }),
+      ...(tools && tools.length > 0 && { tools: this.toOpenAITools(tools) }),
+      ...(tools && tools.length > 0 && toolChoice && { tool_choice: this.toOpenAIToolChoice(toolChoice) }),
+      ...(responseFormat && { response_format: this.toOpenAIResponseFormat(responseFormat) })
+    };
+
+    // Get client request body from global scope
+    let clientRequestBody: any = undefined;
+    try {
+      clientRequestBody = (global as any).currentRequestBody;
+    } catch (error) {
+      // Ignore as it's optional
+    }
+
+    // Prepare debug info
+    const debugInfo: LLMDebugInfo = {
+      timestamp: new Date(),
+      provider: logName,
+      model: model,
+      baseUrl: baseUrl,
+      systemMessage: systemMessage,
+      userMessage: userPrompt,
+      requestData: requestPayload,
+      useCase: debugContext,
+      clientRequestBody: clientRequestBody,
+      sessionId: sessionId,
+      chapterNumber: chapterNumber,
+      pageNumber: pageNumber,
+      pageName: pageName,
+      attachments: getImageAttachmentInfo(resolvedMessages)
+    };
+
+    // Log request
+    await LLMDebugger.logRequest(debugInfo);
+
+    // Log to data flow logger
+    const contextForLogger = {
+      currentChapterNr: chapterNumber,
+      currentPage: pageNumber,
+      debugContext
+    };
+
+    const requestId = this.dataFlowLogger.startRequest(debugContext || `${logName}-direct`, contextForLogger);
+
+    this.dataFlowLogger.logLLMRequest(
+      {
+        stage: debugContext || `${logName}-direct`,
+        prompt: userPrompt,
+        systemMessage: systemMessage,
+        modelName: model,
+        temperature: temperature,
+        contextInfo: {
+          sessionId,
+          chapterNumber,
+          pageNumber,
+          pageName,
+          parameters: {
+            maxTokens,
+            top_p,
+            frequency_penalty,
+            presence_penalty,
+            stop,
+            seed
+          }
+        }
+      },
+      contextForLogger,
+      requestId
+    );
+
+    const requestStartTime = Date.now();
+
+    try {
+      logger.info('Sending request to OpenAI API', {
+        context: this.constructor.name,
+        metadata: {
+          url: url,
+          model: model,
+          promptLength: userPrompt.length,
+          maxTokens: maxTokens
+        }
+      });
+
+      const response = await axios.post<OpenAIAPIResponse>(
+        url,
+        requestPayload,
+        {
+          headers,
+          timeout: timeoutMs,
+          signal
+        }
+      );
+
+      const requestDuration = Date.now() - requestStartTime;
+
+      if (response && response.status === 200) {
+        const apiResponse: OpenAIAPIResponse = response.data;
+
+        // Only the first choice is used (n is always 1)
+        const choice = apiResponse.choices?.[0];
+        const responseText = choice?.message?.content || '';
+
+        // Tool call arguments are JSON strings and may need repairing
+        const toolCalls = await Promise.all(
+          (choice?.message?.tool_calls || []).map(call =>
+            createToolCall(call.function.name, call.function.arguments, call.id)
+          )
+        );
+
+        // Normalize token usage to provider-agnostic format
+        const tokenUsage = this.normalizeUsage(apiResponse.usage);
+
+        // Normalize to CommonLLMResponse format
+        const normalizedResponse: OpenAIResponse = {
+          message: {
+            content: responseText
+          },
+          sessionId: sessionId,
+          metadata: {
+            provider: logName,
+            model: apiResponse.model || model,
+            tokensUsed: tokenUsage?.totalTokens,
+            processingTime: requestDuration,
+            ...(responseFormat && { responseFormat: responseFormat === 'json' ? 'native-json' : 'native-schema' })
+          },
+          // Standardized token usage (omitted when the server reports none)
+          ...(tokenUsage && { usage: tokenUsage }),
+          ...(toolCalls.length > 0 && { toolCalls }),
+          finishReason: this.normalizeFinishReason(choice?.finish_reason),
+          // OpenAI-specific fields
+          id: apiResponse.id,
+          finish_reason: choice?.finish_reason || undefined,
+          system_fingerprint: apiResponse.system_fingerprint || undefined
+        };
+
+        // Add response info to debug
+        debugInfo.responseTimestamp = new Date();
+        debugInfo.response = responseText;
+        debugInfo.rawResponseData = apiResponse;
+
+        // Try to extract thinking content (if model uses <think> tags)
+        const thinkMatch = responseText.match(/<think>([\s\S]*?)<\/think>/);
+        if (thinkMatch && thinkMatch[1]) {
+          debugInfo.thinking = thinkMatch[1].trim();
+        }
+
+        // Log response (including markdown saving)
+        await LLMDebugger.logResponse(debugInfo);
+
+        // Log to data flow logger
+        this.dataFlowLogger.logLLMResponse(
+          debugContext || `${logName}-direct`,
+          {
+            rawResponse: responseText,
+            processingTime: requestDuration
+          },
+          contextForLogger,
+          requestId
+        );
+
+        return normalizedResponse;
+      } else {
+        const error = createHttpError(response?.status || 0, response?.data, errorContext);
+        logger.error('Error calling OpenAI API', {
+          context: this.constructor.name,
+          error: error.message,
+          metadata: response?.data || {}
+        });
+
+        // Log error to data flow logger
+        this.dataFlowLogger.logLLMResponse(
+          debugContext || `${logName}-direct`,
+          {
+            rawResponse: '',
+            processingTime: Date.now() - requestStartTime,
+            error
+          },
+          contextForLogger,
+          requestId
+        );
+
+        throw error;
+      }
+    } catch (error: unknown) {
+      // Type-safe error handling
+      let errorMessage = 'Unknown error';
+      let errorDetails: Record<string, any> = {};
+
+      if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+
+      // Check for Axios error and safely extract properties
+      if (
+        error &&
+        typeof error === 'object' &&
+        'isAxiosError' in error &&
+        error.isAxiosError === true
+      ) {
+        const axiosError = error as any;
+
+        if (axiosError.response) {
+          errorDetails = {
+            statusCode: axiosError.response.status,
+            statusText: axiosError.response.statusText,
+            data: axiosError.response.data
+          };
+
+          // Log specific error types
+          if (axiosError.response.status === 401) {
+            logger.error('Authentication error with OpenAI API', {
+              context: this.constructor.name,
+              error: 'Invalid API key',
+              metadata: {
+                statusCode: axiosError.response.status,
+                message: axiosError.response.data?.error?.message
+              }
+            });
+          } else if (axiosError.response.status === 429) {
+            logger.error('Rate limit exceeded', {
+              context: this.constructor.name,
+              error: 'Too many requests',
+              metadata: {
+                statusCode: axiosError.response.status,
+                retryAfter: axiosError.response.headers['retry-after']
+              }
+            });
+          } else if (axiosError.response.status === 400) {
+            logger.error('Bad request to OpenAI API', {
+              context: this.constructor.name,
+              error: axiosError.response.data?.error?.message || 'Invalid request',
+              metadata: {
+                type: axiosError.response.data?.error?.type,
+                code: axiosError.response.data?.error?.code,
+                details: axiosError.response.data?.error
+              }
+            });
+          }
+        }
+      }
+
+      logger.error('Error in API request', {
+        context: this.constructor.name,
+        error: errorMessage,
+        metadata: {
+          ...errorDetails,
+          requestModel: model,
+          baseUrl: baseUrl,
+          sessionId: sessionId
+        }
+      });
+
+      // Log error to data flow logger
+      this.dataFlowLogger.logLLMResponse(
+        debugContext || `${logName}-direct`,
+        {
+          rawResponse: '',
+          processingTime: Date.now() - requestStartTime,
+          error: error instanceof Error ? error : new Error(errorMessage)
+        },
+        contextForLogger,
+        requestId
+      );
+
+      // Add error info to debug
+      debugInfo.responseTimestamp = new Date();
+      debugInfo.error = {
+        message: errorMessage,
+        details: errorDetails
+      };
+
+      // Log error
+      await LLMDebugger.logError(debugInfo);
+
+      throw toLLMError(error, errorContext);
+    }
+  }
+
+  /**
+   * Create embeddings via the OpenAI /embeddings endpoint
+   * @param texts - Text or texts to embed
+   * @param options - Options for the API call
+   * @returns The embeddings with dimensions and usage
+   * @throws LLMError (subclass) when a batch fails
+   */
+  public async embed(
+    texts: string | string[],
+    options: OpenAIEmbeddingOptions = {}
+  ): Promise<EmbeddingResponse | null> {
+    const input = normalizeEmbeddingInput(texts);
+    const { authToken, model, baseUrl } = this.resolveConnection({
+      model: options.model || this.getDefaultEmbeddingModel(),
+      baseUrl: options.baseUrl,
+      authToken: options.authToken
+    });
+    const logName = this.getLogName();
+    const { batchSize = 100, dimensions, user, debugContext, signal, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS } = options;
+    const errorContext: LLMErrorContext = { provider: logName, model, timeoutMs, signal };
+
+    const batches = splitIntoBatches(input, batchSize);
+    const headers = this.buildHeaders(authToken, options.headers);
+    const url = this.getEmbeddingsUrl(baseUrl);
+
+    const requestStartTime = Date.now();
+    const embeddings: number[][] = [];
+    const tokenCounts: Array<number | undefined> = [];
+
+    try {
+      logger.info('Sending embedding request to OpenAI API', {
+        context: this.constructor.name,
+        metadata: {
+          url: url,
+          model: model,
+          texts: input.length,
+          batches: batches.length,
+          debugContext
+        }
+      });
+
+      for (const batch of batches) {
+        const requestPayload: OpenAIEmbeddingRequest = {
+          model: model,
+          input: batch,
+          encoding_format: 'float',
+          ...(dimensions !== undefined && { dimensions }),
+          ...(user !== undefined && { user })
+        };
+
+        const response = await axios.post<OpenAIEmbeddingResponse>(url, requestPayload, {
+          headers,
+          timeout: timeoutMs,
+          signal
+        });
+
+        const data = response.data.data || [];
+        if (data.length !== batch.length) {
+          throw new Error(`Expected ${batch.length} embeddings, received ${data.length}`);
+        }
+
+        // Entries carry their input index and are not guaranteed to be ordered
+        const ordered = [...data].sort((a, b) => a.index - b.index);
+        embeddings.push(...ordered.map(entry => entry.embedding));
+        tokenCounts.push(response.data.usage?.prompt_tokens ?? response.data.usage?.total_tokens);
+      }
+
+      const usage = sumEmbeddingUsage(tokenCounts);
+
+      return {
+        embeddings,
+        dimensions: getEmbeddingDimensions(embeddings),
+        metadata: {
+          provider: logName,
+          model: model,
+          processingTime: Date.now() - requestStartTime,
+          batches: batches.length
+        },
+        ...(usage && { usage })
+      };
+    } catch (error: unknown) {
+      const axiosError = error as any;
+      logger.error('Error in embedding request', {
+        context: this.constructor.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          statusCode: axiosError?.response?.status,
+          data: axiosError?.response?.data,
+          requestModel: model,
+          baseUrl: baseUrl,
+          completedBatches: tokenCounts.length,
+          debugContext
+        }
+      });
+
+      throw toLLMError(error, errorContext);
+    }
+  }
+
+  /**
+   * Convert chat messages to the OpenAI format, including images, tool calls and tool results
+   */
+  protected toOpenAIMessages(messages: ChatMessage[]): OpenAIMessage[] {
+    return messages.map(message => {
+      if (message.role === 'tool') {
+        return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+      }
+
+      if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
+
+      if (message.role === 'user' && message.images && message.images.length > 0) {
+        // Images are resolved before mapping and sent as data URLs
+        return {
+          role: 'user',
+          content: [
+            { type: 'text' as const, text: message.content },
+            ...message.images.map(image => ({
+              type: 'image_url' as const,
+              image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+            }))
+          ]
+        };
+      }
+
+      return { role: message.role, content: message.content };
+    });
+  }
+
+  /**
+   * Convert tool definitions to OpenAI function tools
+   */
+  protected toOpenAITools(tools: ToolDefinition[]): OpenAITool[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        ...(tool.description && { description: tool.description }),
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  /**
+   * Map the provider-agnostic tool choice to OpenAI's tool_choice
+   */
+  protected toOpenAIToolChoice(toolChoice: ToolChoice): OpenAIToolChoice {
+    if (typeof toolChoice === 'object') {
+      return { type: 'function', function: { name: toolChoice.name } };
+    }
+    return toolChoice;
+  }
+
+  /**
+   * Normalize OpenAI's finish_reason to the provider-agnostic finish reason
+   */
+  protected normalizeFinishReason(finishReason: string | null | undefined): LLMFinishReason | undefined {
+    switch (finishReason) {
+      case 'stop':
+        return 'stop';
+      case 'length':
+        return 'length';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
+      case 'content_filter':
+        return 'content_filter';
+      case null:
+      case undefined:
+        return undefined;
+      default:
+        return 'other';
+    }
+  }
+
+  /**
+   * Map the response format to OpenAI's response_format (JSON mode or structured outputs)
+   * Note: JSON mode requires the word "JSON" to appear in the messages
+   */
+  protected toOpenAIResponseFormat(responseFormat: ResponseFormat): OpenAIResponseFormat {
+    if (responseFormat === 'json') {
+      return { type: 'json_object' };
+    }
+    return {
+      type: 'json_schema',
+      json_schema: { name: responseFormat.name || 'response', schema: responseFormat.schema }
+    };
+  }
+
+  /**
+   * Resolve endpoint, credentials and model for a request
+   * Override in subclasses that talk to other OpenAI-compatible servers
+   */
+  protected resolveConnection(options: OpenAIRequestOptions): OpenAIConnection {
+    const {
+      authToken = process.env.OPENAI_API_KEY,
+      model = process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      baseUrl = process.env.OPENAI_BASE_URL || this.BASE_URL
+    } = options;
+
+    // Validate that API key is provided
+    if (!authToken) {
+      throw new LLMInvalidRequestError(
+        'OpenAI API key is required but not provided. ' +
+        'Please set OPENAI_API_KEY in your .env file or pass authToken in options.',
+        { provider: this.getLogName() }
+      );
+    }
+
+    // Validate that model is provided
+    if (!model) {
+      throw new LLMInvalidRequestError(
+        'Model name is required but not provided. ' +
+        'Please set OPENAI_MODEL in your .env file or pass model in options.',
+        { provider: this.getLogName() }
+      );
+    }
+
+    return { authToken, model, baseUrl };
+  }
+
+  /**
+   * Build the HTTP headers for a request
+   * @param authToken - Token sent as Bearer token
+   * @param extraHeaders - Additional headers from the request options
+   */
+  protected buildHeaders(authToken?: string, extraHeaders?: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...extraHeaders
+    };
+
+    if (authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Build the chat completions endpoint URL
+   */
+  protected getChatCompletionsUrl(baseUrl: string): string {
+    return `${baseUrl}/chat/completions`;
+  }
+
+  /**
+   * Build the embeddings endpoint URL
+   */
+  protected getEmbeddingsUrl(baseUrl: string): string {
+    return `${baseUrl}/embeddings`;
+  }
+
+  /**
+   * Default embedding model if none is passed in the embedding options
+   */
+  protected getDefaultEmbeddingModel(): string | undefined {
+    return process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  }
+
+  /**
+   * Name used for debug logs, data flow stages and response metadata
+   */
+  protected getLogName(): string {
+    return this.providerName;
+  }
+
+  /**
+   * Normalize OpenAI usage to the provider-agnostic TokenUsage format
+   * Returns undefined when the server did not report usage, so metrics fall back to estimation
+   */
+  protected normalizeUsage(usage?: OpenAIUsage): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const promptTokens = usage.prompt_tokens || 0;
+    const completionTokens = usage.completion_tokens || 0;
+    const cachedTokens = usage.prompt_tokens_details?.cached_tokens;
+
+    return {
+      inputTokens: promptTokens,
+      outputTokens: completionTokens,
+      totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+      // Include OpenAI-specific cache metadata if present
+      ...(cachedTokens ? {
+        cacheMetadata: {
+          cacheReadTokens: cachedTokens
+        }
+      } : {})
+    };
+  }
+}
+
+// Export singleton instance
+export const openAIProvider = new OpenAIProvider();
+
+// Export alias
+export { OpenAIProvider as OpenAIService };
+export { openAIProvider as openAIService };
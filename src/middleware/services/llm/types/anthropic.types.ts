@@ -26,16 +26,49 @@ export interface AnthropicRequestOptions extends CommonLLMOptions {
 
   /** System message to set context (Anthropic puts this at root level) */
   system?: string;
+
+  /**
+   * Extended thinking configuration
+   * budget_tokens must be at least 1024 and below maxTokens. While thinking is enabled,
+   * temperature and top_k are not sent (the API rejects them) and no JSON prefill is used
+   */
+  thinking?: AnthropicThinkingConfig;
 }
 
+/**
+ * Anthropic extended thinking configuration
+ */
+export type AnthropicThinkingConfig =
+  | { type: 'enabled'; budget_tokens: number }
+  | { type: 'disabled' };
+
 /**
  * Anthropic message format
+ * Content is a plain string or an array of content blocks (tool use / tool results)
  */
 export interface AnthropicMessage {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | AnthropicRequestContentBlock[];
+}
+
+/**
+ * Anthropic tool definition
+ */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, any>;
 }
 
+/**
+ * Anthropic tool choice
+ */
+export type AnthropicToolChoice =
+  | { type: 'auto' }
+  | { type: 'any' }
+  | { type: 'tool'; name: string }
+  | { type: 'none' };
+
 /**
  * Anthropic API request payload
  */
@@ -49,16 +82,82 @@ export interface AnthropicAPIRequest {
   stop_sequences?: string[];
   stream?: boolean;
   system?: string;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+  thinking?: AnthropicThinkingConfig;
 }
 
 /**
- * Anthropic content block (response can have multiple blocks)
+ * Anthropic text content block
  */
-export interface AnthropicContentBlock {
+export interface AnthropicTextBlock {
   type: 'text';
   text: string;
 }
 
+/**
+ * Anthropic tool use content block (the model requests a tool call)
+ */
+export interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+/**
+ * Anthropic thinking content block (extended thinking)
+ */
+export interface AnthropicThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  /** Signature required when sending the block back in a later turn */
+  signature: string;
+}
+
+/**
+ * Anthropic redacted thinking content block (encrypted by safety systems)
+ */
+export interface AnthropicRedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+/**
+ * Anthropic image content block (request only)
+ */
+export interface AnthropicImageBlock {
+  type: 'image';
+  source: {
+    type: 'base64';
+    media_type: string;
+    data: string;
+  };
+}
+
+/**
+ * Anthropic tool result content block (sent back in a user turn)
+ */
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+}
+
+/**
+ * Anthropic content block (response can have multiple blocks)
+ */
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicToolUseBlock
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock;
+
+/**
+ * Content blocks allowed in request messages
+ */
+export type AnthropicRequestContentBlock = AnthropicContentBlock | AnthropicToolResultBlock | AnthropicImageBlock;
+
 /**
  * Anthropic usage information
  * Based on: https://docs.anthropic.com/en/api/messages
@@ -81,11 +180,33 @@ export interface AnthropicAPIResponse {
   role: 'assistant';
   content: AnthropicContentBlock[];
   model: string;
-  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | null;
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'pause_turn' | 'refusal' | null;
   stop_sequence?: string | null;
   usage: AnthropicUsage;
 }
 
+/**
+ * Anthropic streaming event (Server-Sent Events payload)
+ * Based on: https://docs.anthropic.com/en/api/messages-streaming
+ */
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicAPIResponse }
+  | { type: 'content_block_start'; index: number; content_block: AnthropicContentBlock }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: string; text?: string; thinking?: string; signature?: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason: AnthropicAPIResponse['stop_reason']; stop_sequence?: string | null };
+      usage?: { output_tokens: number };
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
 /**
  * Anthropic-specific response format (normalized to CommonLLMResponse)
  */
@@ -95,4 +216,8 @@ export interface AnthropicResponse extends CommonLLMResponse {
   stop_reason?: string;
   input_tokens?: number;
   output_tokens?: number;
+  /** Raw content blocks as returned by the API (thinking blocks are also exposed as `thinkingBlocks`) */
+  content_blocks?: AnthropicContentBlock[];
+  /** Number of redacted_thinking blocks (their content is encrypted and not part of `thinking`) */
+  redacted_thinking_blocks?: number;
 }
@@ -21,6 +21,9 @@ export interface CommonLLMOptions {
   /** Authentication token (if required) */
   authToken?: string;
 
+  /** Additional HTTP headers sent with the request (e.g. tenant or tracing headers); auth headers take precedence */
+  headers?: Record<string, string>;
+
   /** Debug context for logging */
   debugContext?: string;
 
@@ -36,10 +39,205 @@ export interface CommonLLMOptions {
   /** Page name (for book generation use cases) */
   pageName?: string;
 
+  /**
+   * Images attached to the (last) user message
+   * Use ChatMessage.images to attach images to specific turns of a conversation
+   */
+  images?: ImageAttachment[];
+
+  /** Tools (functions) the model may call */
+  tools?: ToolDefinition[];
+
+  /**
+   * Controls whether and which tool the model calls:
+   * 'auto' (default), 'none', 'required' (any tool) or a specific tool by name
+   * Ollama has no tool_choice: 'none' omits the tools, all other values send them unchanged
+   */
+  toolChoice?: ToolChoice;
+
+  /**
+   * Request JSON output: 'json' for any valid JSON, or { schema } for output matching a JSON Schema
+   * Enforced natively where the provider supports it (Ollama `format`, OpenAI `response_format`,
+   * Google `responseMimeType`), emulated via system prompt and assistant prefill for Anthropic
+   */
+  responseFormat?: ResponseFormat;
+
+  /**
+   * Retry policy for this call, merged over the LLMService policy (false disables retries)
+   * Applied by LLMService; direct provider calls are not retried
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * Cancels the request (and pending retries) when aborted; the call rejects with LLMAbortedError
+   * BaseController.handleRequest() provides a signal that aborts when the client disconnects
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Total time limit for the request in milliseconds; the call rejects with LLMTimeoutError
+   * (default: 90000; streams have no total limit by default)
+   * BaseAIUseCase passes the model config's timeoutMs unless the use case overrides getTimeoutMs()
+   */
+  timeoutMs?: number;
+
+  /** Streaming only: time limit until the response headers arrive (default: 90000) */
+  connectTimeoutMs?: number;
+
+  /**
+   * Queue priority when LLMService limits concurrent requests per endpoint (default: 'normal')
+   * Queued interactive requests are sent before normal ones, normal ones before batch ones
+   */
+  priority?: RequestPriority;
+
+  /** Time this call may wait for a free slot before it fails with LLMQueueTimeoutError (default: the service config) */
+  queueTimeoutMs?: number;
+
+  /**
+   * How this call uses the response cache when LLMService has one (default: 'use')
+   * Streaming and embedding calls are not cached
+   */
+  cachePolicy?: CachePolicy;
+
+  /** Lifetime of the cached answer of this call in milliseconds (default: the service config) */
+  cacheTtlMs?: number;
+
+  /**
+   * Minimum cosine similarity for a cached prompt to answer this call (default: the service config)
+   * Only used when the response cache has semantic matching enabled; 1 allows exact matches only
+   */
+  semanticCacheThreshold?: number;
+
+  /**
+   * Share one provider call with identical requests that are in flight at the same time
+   * (default: true, see LLMService.setDeduplication); streaming and embedding calls are not deduplicated
+   */
+  deduplicate?: boolean;
+
+  /**
+   * Streaming only: time limit from the start of the request until the first token (default: no limit)
+   * Covers model loading, which can delay the response headers as well
+   */
+  firstTokenTimeoutMs?: number;
+
   /** Provider-specific options (escape hatch) */
   providerSpecific?: Record<string, any>;
 }
 
+/**
+ * Requested response format
+ */
+export type ResponseFormat = 'json' | {
+  /** JSON Schema the response must conform to */
+  schema: Record<string, any>;
+  /** Schema name (used by providers that require one, e.g. OpenAI; default: 'response') */
+  name?: string;
+};
+
+/**
+ * How a requested response format was enforced
+ * - native-json: provider JSON mode (any valid JSON)
+ * - native-schema: provider-side structured output constrained by the schema
+ * - prompt: instructions in the system prompt only
+ * - prompt-prefill: system prompt instructions plus an assistant prefill ('{' or '[')
+ */
+export type ResponseFormatEnforcement = 'native-json' | 'native-schema' | 'prompt' | 'prompt-prefill';
+
+/**
+ * Image attached to a user message
+ * Either `data` (base64, optionally as data URL) or `path` (local file) must be set
+ */
+export interface ImageAttachment {
+  /** Base64-encoded image data, or a data URL (data:image/png;base64,...) */
+  data?: string;
+  /** Path to a local image file (read when the request is sent) */
+  path?: string;
+  /** MIME type (image/png, image/jpeg, image/gif, image/webp); detected from the data or file extension if omitted */
+  mimeType?: string;
+  /** Display name for logs (defaults to the file name for path attachments) */
+  name?: string;
+}
+
+/**
+ * Image attachment metadata recorded in debug logs (no image data)
+ */
+export interface ImageAttachmentInfo {
+  /** Index of the message the image belongs to */
+  messageIndex: number;
+  name?: string;
+  mimeType: string;
+  /** Decoded size in bytes */
+  sizeBytes: number;
+  /** Where the image came from */
+  source: 'base64' | 'file';
+}
+
+/**
+ * Provider-agnostic tool (function) definition
+ */
+export interface ToolDefinition {
+  /** Unique tool name (letters, digits, underscores and dashes) */
+  name: string;
+  /** What the tool does and when to use it */
+  description?: string;
+  /** JSON Schema of the arguments object (e.g. { type: 'object', properties: {...}, required: [...] }) */
+  parameters: Record<string, any>;
+}
+
+/**
+ * Tool choice setting
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * Normalized tool call requested by the model
+ */
+export interface ToolCall {
+  /** Call ID (provider-generated, or generated by the middleware if the provider has none) */
+  id: string;
+  /** Name of the tool to execute */
+  name: string;
+  /** Parsed arguments (empty object if they could not be parsed, see argumentsError) */
+  arguments: Record<string, any>;
+  /** Raw argument string as returned by the provider (if it was a string) */
+  rawArguments?: string;
+  /** Set when the arguments could not be parsed, even after JSON cleaning */
+  argumentsError?: string;
+}
+
+/**
+ * Reasoning block of an assistant turn, sent back unchanged in later turns
+ * (Anthropic verifies the signature and requires the blocks when tool results of a thinking turn are sent back)
+ */
+export type ThinkingBlock =
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
+
+/**
+ * Role of a chat message
+ */
+export type ChatMessageRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * Provider-agnostic chat message for multi-turn conversations
+ * Providers place system messages where their API expects them
+ * (inline for Ollama/OpenAI, root-level `system` for Anthropic, `systemInstruction` for Google)
+ */
+export interface ChatMessage {
+  role: ChatMessageRole;
+  content: string;
+  /** Tool calls requested by the model (assistant messages only) */
+  toolCalls?: ToolCall[];
+  /** Reasoning blocks of the turn, copied from response.thinkingBlocks (assistant messages only, ignored by providers without them) */
+  thinkingBlocks?: ThinkingBlock[];
+  /** ID of the tool call this message answers (tool messages only, required) */
+  toolCallId?: string;
+  /** Name of the tool that produced this result (tool messages only) */
+  toolName?: string;
+  /** Images sent along with the text (user messages only) */
+  images?: ImageAttachment[];
+}
+
 /**
  * Provider-agnostic token usage information
  * Normalized across all LLM providers (Anthropic, Ollama, OpenAI, Google)
@@ -73,6 +271,16 @@ export interface CommonLLMResponse {
     model: string;
     tokensUsed?: number;
     processingTime?: number;
+    /** Enforcement mechanism used for options.responseFormat (absent if none was requested) */
+    responseFormat?: ResponseFormatEnforcement;
+    /** Set when the call ran through a fallback chain: which step answered and why earlier steps were skipped */
+    fallback?: FallbackInfo;
+    /** Set when LLMService limits concurrent requests: how long the answering request was queued */
+    queue?: QueueInfo;
+    /** Set when LLMService has a response cache: whether the answer came from the cache */
+    cache?: CacheInfo;
+    /** Set when the call joined an identical request in flight and shares its answer */
+    deduplicated?: boolean;
   };
   /**
    * Standardized token usage information
@@ -80,6 +288,549 @@ export interface CommonLLMResponse {
    * If not available, tokens will be estimated in metrics calculation
    */
   usage?: TokenUsage;
+  /**
+   * Tool calls requested by the model (only set when the model called tools)
+   * Execute them and send the results back as `tool` messages via callWithMessages
+   */
+  toolCalls?: ToolCall[];
+  /**
+   * Reasoning produced by the model before its answer (e.g. Anthropic extended thinking blocks)
+   * Separate from message.content; <think> tags inside the content are still extracted by the response processor
+   */
+  thinking?: string;
+  /**
+   * Reasoning blocks in their original form (set by providers that sign them, e.g. Anthropic)
+   * Pass them back as `thinkingBlocks` of the assistant message when continuing a tool-use conversation
+   */
+  thinkingBlocks?: ThinkingBlock[];
+  /** Why the model stopped generating, normalized across providers (raw value stays in the provider-specific field) */
+  finishReason?: LLMFinishReason;
+}
+
+/**
+ * Provider-agnostic finish reason
+ * - stop: natural end of the answer or a stop sequence
+ * - length: token limit reached (maxTokens)
+ * - tool_calls: the model requested tool calls
+ * - content_filter: output blocked or refused by safety filters
+ * - other: any other provider-specific reason
+ */
+export type LLMFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'other';
+
+/**
+ * Streamed content delta
+ */
+export interface LLMStreamDeltaEvent {
+  type: 'delta';
+  /** Newly generated text since the previous delta */
+  content: string;
+}
+
+/**
+ * Final stream event, emitted once after the last delta
+ */
+export interface LLMStreamDoneEvent {
+  type: 'done';
+  /** Normalized finish reason (same as response.finishReason) */
+  finishReason?: LLMFinishReason;
+  /** Standardized token usage (if reported by the provider) */
+  usage?: TokenUsage;
+  /** The assembled response, identical in shape to a non-streaming call */
+  response: CommonLLMResponse;
+}
+
+/**
+ * Events yielded by streaming calls
+ */
+export type LLMStreamEvent = LLMStreamDeltaEvent | LLMStreamDoneEvent;
+
+/**
+ * Conditions under which a fallback step hands over to the next step
+ */
+export interface FallbackConditions {
+  /**
+   * Fall back when the step throws: true for any error, or only errors of the given classes
+   * (default: true)
+   */
+  error?: boolean | Array<abstract new (...args: any[]) => Error>;
+
+  /**
+   * Fall back when the step takes longer than this many milliseconds (default: no limit)
+   * The step's request is cancelled; if the last step times out, LLMTimeoutError is thrown
+   */
+  timeoutMs?: number;
+
+  /** Fall back when the provider returns null (default: true) */
+  nullResponse?: boolean;
+
+  /** Fall back when the response has no content and no tool calls (default: true) */
+  emptyResponse?: boolean;
+}
+
+/**
+ * Retry policy for failed provider requests
+ * Delays grow exponentially: initialDelayMs * backoffMultiplier^(retry - 1), capped at maxDelayMs
+ */
+export interface RetryPolicy {
+  /** Total number of attempts including the first request (default: 3) */
+  maxAttempts?: number;
+
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+
+  /** Upper bound for a single delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+
+  /** Factor applied to the delay after each retry (default: 2) */
+  backoffMultiplier?: number;
+
+  /** Randomize each delay between half and the full computed delay (default: true) */
+  jitter?: boolean;
+
+  /**
+   * Errors that are retried: a list of error classes or a predicate
+   * (default: LLMErrors with retryable = true, i.e. rate limits, timeouts, 5xx and network errors)
+   */
+  retryOn?: Array<abstract new (...args: any[]) => Error> | ((error: unknown, attempt: number) => boolean);
+
+  /** Wait as long as a rate limit error's Retry-After asks for, up to maxDelayMs (default: true) */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Overall deadline for all attempts including delays, in milliseconds (default: none)
+   * No retry is started if its delay would end after the deadline
+   */
+  deadlineMs?: number;
+}
+
+/**
+ * State of a circuit breaker: closed (requests pass), open (requests fail fast),
+ * half-open (trial requests decide whether the circuit closes again)
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker settings, applied to every provider endpoint (provider + baseUrl)
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+
+  /** Time the circuit stays open before a trial request is allowed, in milliseconds (default: 30000) */
+  resetTimeoutMs?: number;
+
+  /** Successful trial requests needed to close a half-open circuit (default: 1) */
+  successThreshold?: number;
+
+  /** Concurrent trial requests allowed while half-open (default: 1) */
+  halfOpenMaxRequests?: number;
+
+  /**
+   * Whether an error counts as an endpoint failure
+   * (default: network errors, timeouts and 5xx responses; other errors show the endpoint is reachable)
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Current state of one endpoint's circuit breaker (e.g. for health checks)
+ */
+export interface CircuitBreakerStatus {
+  /** Breaker key: provider name and base URL */
+  key: string;
+  provider: string;
+  baseUrl?: string;
+  state: CircuitState;
+  /** Consecutive failures counted in the closed state */
+  consecutiveFailures: number;
+  /** When the circuit opened most recently */
+  openedAt?: Date;
+  /** When an open circuit allows the next trial request */
+  nextAttemptAt?: Date;
+  /** Message of the last failure */
+  lastError?: string;
+}
+
+/**
+ * Emitted when a circuit breaker changes its state
+ */
+export interface CircuitStateChangeEvent {
+  key: string;
+  provider: string;
+  baseUrl?: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Failure that opened the circuit */
+  error?: unknown;
+  timestamp: Date;
+}
+
+/**
+ * Queue priority of a request: queued interactive requests go first, batch requests last
+ */
+export type RequestPriority = 'interactive' | 'normal' | 'batch';
+
+/**
+ * Concurrency limits, applied to every provider endpoint (provider + baseUrl)
+ */
+export interface ConcurrencyLimitConfig {
+  /** Concurrent requests per endpoint; further requests wait in a priority queue (default: 4) */
+  maxConcurrent?: number;
+
+  /**
+   * Limits for single endpoints, keyed by provider name or "provider|baseUrl" (overrides maxConcurrent)
+   * @example { 'ollama|http://gpu-1:11434': 2, anthropic: 20 }
+   */
+  endpoints?: Record<string, number>;
+
+  /** Time a request may wait for a free slot before it fails with LLMQueueTimeoutError (default: no limit) */
+  queueTimeoutMs?: number;
+}
+
+/**
+ * Current load of one endpoint (e.g. for health checks)
+ */
+export interface EndpointQueueStatus {
+  /** Endpoint key: provider name and base URL */
+  key: string;
+  provider: string;
+  baseUrl?: string;
+  maxConcurrent: number;
+  /** Requests currently sent to the endpoint */
+  active: number;
+  /** Requests waiting for a free slot */
+  queued: number;
+  /** Waiting requests per priority */
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Wait time of the longest waiting request in milliseconds */
+  oldestWaitMs?: number;
+}
+
+/**
+ * Queueing of a request that passed the concurrency limit
+ */
+export interface QueueInfo {
+  priority: RequestPriority;
+  /** Time spent waiting for a free slot in milliseconds */
+  waitMs: number;
+  /** Requests that were queued ahead of this one when it arrived (0 = sent immediately) */
+  queueDepth: number;
+}
+
+/**
+ * How a provider picks one of several hosts that serve the same models
+ * - round-robin: hosts take turns
+ * - least-in-flight: the host with the fewest running requests
+ * - weighted: hosts take turns in proportion to their weight
+ */
+export type LoadBalancingStrategy = 'round-robin' | 'least-in-flight' | 'weighted';
+
+/**
+ * A host of a load-balanced pool
+ */
+export interface BalancedHost {
+  url: string;
+  /** Share of requests with the 'weighted' strategy (default: 1) */
+  weight?: number;
+}
+
+/**
+ * Passive health tracking of load-balanced hosts
+ */
+export interface HostHealthConfig {
+  /** Consecutive failures (network errors, timeouts, 5xx, insufficient memory) that take a host out of rotation (default: 3) */
+  failureThreshold?: number;
+
+  /** Time a failing host stays out of rotation before it gets requests again, in milliseconds (default: 30000) */
+  cooldownMs?: number;
+}
+
+/**
+ * Current state of a load-balanced host
+ */
+export interface HostStatus {
+  url: string;
+  weight: number;
+  /** Requests currently sent to the host */
+  inFlight: number;
+  /** false while the host is out of rotation */
+  healthy: boolean;
+  consecutiveFailures: number;
+  /** When a host out of rotation gets requests again */
+  unhealthyUntil?: Date;
+  /** Message of the last failure */
+  lastError?: string;
+}
+
+/**
+ * How a call uses the response cache
+ * - use: answer from the cache if possible, store new answers
+ * - refresh: skip the cached answer and store the new one
+ * - bypass: neither read nor write the cache
+ */
+export type CachePolicy = 'use' | 'refresh' | 'bypass';
+
+/**
+ * Response stored in a response cache
+ */
+export interface CachedResponse {
+  response: CommonLLMResponse;
+  /** When the response was stored (epoch milliseconds) */
+  createdAt: number;
+  /** When the entry expires (epoch milliseconds; absent = never) */
+  expiresAt?: number;
+}
+
+/**
+ * Storage backend of the response cache
+ * Implement it to keep responses elsewhere (e.g. Redis); MemoryCacheStore and FileCacheStore are built in
+ */
+export interface ResponseCacheStore {
+  /** Get an entry (expired entries may be returned; LLMService ignores and deletes them) */
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Response cache settings
+ */
+export interface ResponseCacheConfig {
+  /** Where responses are kept (default: MemoryCacheStore with 1000 entries) */
+  store?: ResponseCacheStore;
+
+  /** Lifetime of cached responses in milliseconds (default: entries never expire) */
+  ttlMs?: number;
+
+  /** Also answer prompts that are similar to a cached one (default: exact matches only) */
+  semantic?: SemanticCacheConfig;
+}
+
+/**
+ * Semantic matching of the response cache
+ * Only prompts with the same provider, model, system message, earlier messages and parameters
+ * are compared; the prompt is the user prompt, or the last message if it is a user message
+ */
+export interface SemanticCacheConfig {
+  /**
+   * Turns a prompt into a vector, e.g. via llmService.embed()
+   * Use the same embedding model for every prompt; vectors of different length never match
+   */
+  embed: (text: string) => Promise<number[]>;
+
+  /** Minimum cosine similarity for a cached prompt to match (default: 0.95) */
+  threshold?: number;
+
+  /** Prompt vectors kept in memory; the least recently used one is dropped when full (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Cache lookup of a response
+ */
+export interface CacheInfo {
+  /** true if the response came from the cache */
+  hit: boolean;
+  /** Cache key of the request (hash of provider, model, messages and parameters) */
+  key: string;
+  /** Age of the cached response in milliseconds (hits only) */
+  ageMs?: number;
+  /** Cosine similarity of the cached prompt (semantic hits only; key is the key of the cached entry) */
+  similarity?: number;
+}
+
+/**
+ * One step of a fallback chain
+ */
+export interface FallbackStep {
+  /** Registered provider name */
+  provider: LLMProvider | string;
+
+  /**
+   * Model for this step
+   * Defaults to the model of the call options if the step uses the call's provider,
+   * otherwise to the provider's own default
+   */
+  model?: string;
+
+  /** Options merged over the call options for this step (e.g. a different baseUrl or maxTokens) */
+  options?: Partial<CommonLLMOptions>;
+
+  /** When to continue with the next step (default: on errors, null and empty responses) */
+  fallbackOn?: FallbackConditions;
+}
+
+/**
+ * Options for LLMService calls
+ */
+export interface LLMServiceCallOptions extends CommonLLMOptions {
+  /** Registered provider name (default: the service's default provider) */
+  provider?: LLMProvider | string;
+
+  /**
+   * Fallback chain for this call: the name of a registered chain or inline steps
+   * When set, the steps are tried in order instead of calling `provider` directly
+   */
+  fallbackChain?: string | FallbackStep[];
+}
+
+/**
+ * LLMService method an interceptor runs for
+ */
+export type LLMCallMethod = 'call' | 'callWithSystemMessage' | 'callWithMessages';
+
+/**
+ * Mutable request context passed through the interceptor pipeline
+ * Changes made in beforeRequest hooks are used for the provider call
+ */
+export interface LLMRequestContext {
+  /** The LLMService method that was called */
+  readonly method: LLMCallMethod;
+  /** Provider that will be called (initially options.provider or the default provider) */
+  provider: LLMProvider | string;
+  /** User prompt (call and callWithSystemMessage) */
+  userPrompt?: string;
+  /** System message (callWithSystemMessage) */
+  systemMessage?: string;
+  /** Conversation (callWithMessages) */
+  messages?: ChatMessage[];
+  /** Call options, including headers and fallbackChain */
+  options: LLMServiceCallOptions;
+  /** Free-form state shared between the hooks of one call (e.g. start times) */
+  state: Record<string, any>;
+}
+
+/**
+ * Interceptor (middleware) around LLMService calls
+ * beforeRequest hooks run in registration order, afterResponse and onError hooks in reverse order
+ */
+export interface LLMInterceptor {
+  /** Name used to remove the interceptor and in logs */
+  name?: string;
+
+  /**
+   * Runs before the provider is called and may modify the context
+   * Returning a response short-circuits the call: the provider and later interceptors are skipped
+   */
+  beforeRequest?(context: LLMRequestContext): void | CommonLLMResponse | Promise<void | CommonLLMResponse>;
+
+  /**
+   * Runs after the provider answered (also for null responses and short-circuit responses)
+   * Returning a value (including null) replaces the response
+   */
+  afterResponse?(
+    response: CommonLLMResponse | null,
+    context: LLMRequestContext
+  ): void | CommonLLMResponse | null | Promise<void | CommonLLMResponse | null>;
+
+  /**
+   * Runs when the call (or a beforeRequest hook) throws
+   * Returning a response recovers from the error and skips the remaining onError hooks;
+   * otherwise the error is rethrown
+   */
+  onError?(error: unknown, context: LLMRequestContext): void | CommonLLMResponse | Promise<void | CommonLLMResponse>;
+}
+
+/**
+ * Reason why a fallback step was skipped
+ */
+export type FallbackReason = 'error' | 'timeout' | 'null' | 'empty';
+
+/**
+ * A failed step of a fallback chain
+ */
+export interface FallbackAttempt {
+  /** Index of the step in the chain */
+  step: number;
+  provider: string;
+  model?: string;
+  reason: FallbackReason;
+  /** Error message (reason 'error' and 'timeout') */
+  error?: string;
+  /** Time spent on the step in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Fallback information recorded in the response metadata
+ */
+export interface FallbackInfo {
+  /** Name of the registered chain (absent for inline chains) */
+  chain?: string;
+  /** Index of the step that answered (0 = first step) */
+  step: number;
+  /** Provider that answered */
+  provider: string;
+  /** Model that answered (if known) */
+  model?: string;
+  /** Steps that failed before the answer */
+  attempts: FallbackAttempt[];
+}
+
+/**
+ * Common options for embedding requests
+ */
+export interface EmbeddingOptions {
+  /** The embedding model to use (provider-specific model name) */
+  model?: string;
+
+  /** Base URL for the API endpoint */
+  baseUrl?: string;
+
+  /** Authentication token (if required) */
+  authToken?: string;
+
+  /** Additional HTTP headers sent with each request; auth headers take precedence */
+  headers?: Record<string, string>;
+
+  /** Maximum number of texts sent per request; larger inputs are split into several requests */
+  batchSize?: number;
+
+  /** Requested vector size for models that support shortening (e.g. text-embedding-3-*) */
+  dimensions?: number;
+
+  /** Debug context for logging */
+  debugContext?: string;
+
+  /** Retry policy for the request, merged over the LLMService policy (false disables retries) */
+  retry?: RetryPolicy | false;
+
+  /** Cancels the remaining batches when aborted */
+  signal?: AbortSignal;
+
+  /** Time limit per request (batch) in milliseconds (default: 90000) */
+  timeoutMs?: number;
+
+  /** Queue priority when LLMService limits concurrent requests per endpoint (default: 'normal') */
+  priority?: RequestPriority;
+
+  /** Time the request may wait for a free slot before it fails with LLMQueueTimeoutError */
+  queueTimeoutMs?: number;
+
+  /** Provider-specific options (escape hatch) */
+  providerSpecific?: Record<string, any>;
+}
+
+/**
+ * Embedding response, normalized across providers
+ */
+export interface EmbeddingResponse {
+  /** One vector per input text, in input order */
+  embeddings: number[][];
+  /** Length of every vector */
+  dimensions: number;
+  metadata: {
+    provider: string;
+    model: string;
+    processingTime: number;
+    /** Number of requests the input was split into */
+    batches: number;
+    /** Set when LLMService limits concurrent requests: how long the request was queued */
+    queue?: QueueInfo;
+  };
+  /** Token usage summed over all batches (outputTokens is always 0), if reported by the provider */
+  usage?: TokenUsage;
 }
 
 /**
@@ -123,4 +874,7 @@ export interface LLMDebugInfo {
   chapterNumber?: number;
   pageNumber?: number;
   pageName?: string;
+
+  /** Metadata of attached images (the image data itself is never logged) */
+  attachments?: ImageAttachmentInfo[];
 }
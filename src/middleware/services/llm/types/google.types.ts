@@ -0,0 +1,123 @@
+/**
+ * Google Gemini-specific types and interfaces
+ * Based on Gemini generateContent API: https://ai.google.dev/api/generate-content
+ */
+
+import { CommonLLMOptions, CommonLLMResponse } from './common.types';
+
+/**
+ * Google-specific request options
+ * Extends common options with Gemini-specific parameters
+ */
+export interface GoogleRequestOptions extends CommonLLMOptions {
+  // Google-specific parameters
+
+  /** Top-p sampling (nucleus sampling) - Range: 0.0 to 1.0 */
+  top_p?: number;
+
+  /** Top-k sampling - Only sample from top K options */
+  top_k?: number;
+
+  /** Custom text sequences that will cause the model to stop generating */
+  stop_sequences?: string[];
+
+  /** Number of candidates to generate (only the first one is returned) */
+  candidate_count?: number;
+}
+
+/**
+ * Gemini content part (text or inline image data)
+ */
+export interface GooglePart {
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    /** Base64-encoded data */
+    data: string;
+  };
+}
+
+/**
+ * Gemini content format (Gemini uses 'model' instead of 'assistant')
+ */
+export interface GoogleContent {
+  role: 'user' | 'model';
+  parts: GooglePart[];
+}
+
+/**
+ * Gemini generation config
+ */
+export interface GoogleGenerationConfig {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  candidateCount?: number;
+  /** Output MIME type ('application/json' enables JSON mode) */
+  responseMimeType?: string;
+  /** JSON Schema the output must conform to (requires responseMimeType 'application/json') */
+  responseJsonSchema?: Record<string, any>;
+}
+
+/**
+ * Gemini API request payload
+ */
+export interface GoogleAPIRequest {
+  contents: GoogleContent[];
+  /** System instruction (Gemini puts this at root level) */
+  systemInstruction?: {
+    parts: GooglePart[];
+  };
+  generationConfig?: GoogleGenerationConfig;
+}
+
+/**
+ * Gemini candidate (response can have multiple candidates)
+ */
+export interface GoogleCandidate {
+  content?: {
+    role: 'model';
+    parts?: GooglePart[];
+  };
+  finishReason?: 'STOP' | 'MAX_TOKENS' | 'SAFETY' | 'RECITATION' | 'OTHER' | string;
+  index?: number;
+}
+
+/**
+ * Gemini usage information
+ * Based on: https://ai.google.dev/api/generate-content#UsageMetadata
+ */
+export interface GoogleUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+  /** Tokens read from cached content (if context caching enabled) */
+  cachedContentTokenCount?: number;
+  /** Tokens used for thinking (thinking models only) */
+  thoughtsTokenCount?: number;
+}
+
+/**
+ * Gemini API response format
+ */
+export interface GoogleAPIResponse {
+  candidates?: GoogleCandidate[];
+  usageMetadata?: GoogleUsageMetadata;
+  modelVersion?: string;
+  responseId?: string;
+  promptFeedback?: {
+    blockReason?: string;
+  };
+}
+
+/**
+ * Google-specific response format (normalized to CommonLLMResponse)
+ */
+export interface GoogleResponse extends CommonLLMResponse {
+  // Google-specific fields
+  id?: string;
+  finish_reason?: string;
+  block_reason?: string;
+}
@@ -4,3 +4,5 @@ export * from './common.types';
 // Provider-specific types
 export * from './ollama.types';
 export * from './anthropic.types';
+export * from './openai.types';
+export * from './google.types';
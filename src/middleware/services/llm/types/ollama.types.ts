@@ -2,34 +2,58 @@
  * Ollama-specific types and interfaces
  */
 
-import { CommonLLMOptions, CommonLLMResponse } from './common.types';
+import {
+  CommonLLMOptions,
+  CommonLLMResponse,
+  EmbeddingOptions,
+  BalancedHost,
+  LoadBalancingStrategy,
+  HostHealthConfig
+} from './common.types';
 
 /**
- * Ollama-specific request options
- * Extends common options with Ollama-specific parameters
+ * Model parameters sent in the `options` field of an Ollama request
+ * See https://github.com/ollama/ollama/blob/main/docs/modelfile.md#valid-parameters-and-values
  */
-export interface OllamaRequestOptions extends CommonLLMOptions {
-  // Ollama-specific advanced parameters
-  /** Penalty for repeating tokens (default: 1.1) */
-  repeat_penalty?: number;
+export interface OllamaModelOptions {
+  /** Controls randomness: 0 = deterministic (default: 0.7) */
+  temperature?: number;
 
-  /** Top-p sampling (nucleus sampling) */
-  top_p?: number;
+  /** Number of tokens to keep from the initial prompt when the context is shifted (-1 = all) */
+  num_keep?: number;
+
+  /** Random seed; the same seed and prompt produce the same output */
+  seed?: number;
+
+  /** Maximum number of tokens to predict (-1 = unlimited, -2 = fill the context); maxTokens is used if unset */
+  num_predict?: number;
 
   /** Top-k sampling */
   top_k?: number;
 
-  /** Frequency penalty for token repetition */
-  frequency_penalty?: number;
+  /** Top-p sampling (nucleus sampling) */
+  top_p?: number;
+
+  /** Minimum probability of a token relative to the most likely token (0.0-1.0) */
+  min_p?: number;
+
+  /** Typical sampling */
+  typical_p?: number;
+
+  /** Number of previous tokens to consider for repeat penalty (-1 = num_ctx) */
+  repeat_last_n?: number;
+
+  /** Penalty for repeating tokens (default: 1.1) */
+  repeat_penalty?: number;
 
   /** Presence penalty for new topics */
   presence_penalty?: number;
 
-  /** Number of previous tokens to consider for repeat penalty */
-  repeat_last_n?: number;
+  /** Frequency penalty for token repetition */
+  frequency_penalty?: number;
 
-  /** Maximum number of tokens to predict */
-  num_predict?: number;
+  /** Penalize newline tokens together with the other repeated tokens */
+  penalize_newline?: boolean;
 
   /** Mirostat sampling (0 = disabled, 1 = Mirostat, 2 = Mirostat 2.0) */
   mirostat?: number;
@@ -40,21 +64,125 @@ export interface OllamaRequestOptions extends CommonLLMOptions {
   /** Mirostat target entropy */
   mirostat_tau?: number;
 
-  /** Tail-free sampling */
+  /** Tail-free sampling (ignored by current Ollama versions) */
   tfs_z?: number;
 
-  /** Typical sampling */
-  typical_p?: number;
+  /** Sequences that stop the generation when they are produced */
+  stop?: string[];
+
+  /** Enable NUMA support */
+  numa?: boolean;
+
+  /** Context window size in tokens */
+  num_ctx?: number;
+
+  /** Batch size for prompt processing */
+  num_batch?: number;
+
+  /** Number of layers to offload to the GPU (0 = CPU only) */
+  num_gpu?: number;
+
+  /** GPU to use for small tensors when the model is split across GPUs */
+  main_gpu?: number;
+
+  /** Memory-map the model file instead of loading it completely */
+  use_mmap?: boolean;
 
   /** Number of threads to use */
   num_thread?: number;
 }
 
+/**
+ * Ollama-specific request options
+ * Extends common options with the Ollama model parameters
+ */
+export interface OllamaRequestOptions extends CommonLLMOptions, OllamaModelOptions {
+  /** How long the model stays loaded after the request (e.g. '5m', 0 to unload, -1 to keep it loaded) */
+  keep_alive?: string | number;
+
+  /**
+   * Hosts serving the same models; the provider balances requests between them
+   * Ignored when baseUrl is set (see OllamaProviderConfig.hosts)
+   */
+  hosts?: Array<string | BalancedHost>;
+}
+
+/**
+ * Instance configuration for OllamaProvider
+ * Request options take precedence over these defaults
+ */
+export interface OllamaProviderConfig {
+  /** Name used for registration in LLMService, logs and response metadata (default: 'ollama') */
+  name?: string;
+
+  /** Server URL, e.g. http://gpu-box:11434 (default: MODEL1_URL or http://localhost:11434) */
+  baseUrl?: string;
+
+  /** Default model if none is passed in the request options */
+  model?: string;
+
+  /** Default embedding model for embed() */
+  embeddingModel?: string;
+
+  /** Default authentication token */
+  authToken?: string;
+
+  /**
+   * Several hosts serving the same models, used instead of baseUrl (default: MODEL1_URLS, comma-separated)
+   * Requests are balanced between them; a request with an explicit baseUrl bypasses the pool
+   */
+  hosts?: Array<string | BalancedHost>;
+
+  /** How a host is picked for each request (default: 'round-robin') */
+  loadBalancing?: LoadBalancingStrategy;
+
+  /** When failing hosts are taken out of rotation and for how long */
+  hostHealth?: HostHealthConfig;
+}
+
+/**
+ * Ollama chat message (request format)
+ */
+export interface OllamaChatMessage {
+  role: string;
+  content: string;
+  /** Tool calls of a previous assistant turn */
+  tool_calls?: OllamaToolCall[];
+  /** Name of the tool that produced a tool result */
+  tool_name?: string;
+  /** Base64-encoded images (multimodal models) */
+  images?: string[];
+}
+
+/**
+ * Ollama tool call (arguments are returned as an object)
+ */
+export interface OllamaToolCall {
+  id?: string;
+  function: {
+    name: string;
+    arguments: Record<string, any> | string;
+  };
+}
+
+/**
+ * Ollama tool definition (OpenAI-style function tool)
+ */
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
+}
+
 /**
  * Ollama-specific response format
  */
 export interface OllamaResponse extends CommonLLMResponse {
   // Ollama-specific fields
+  done_reason?: string;
   eval_count?: number;
   eval_duration?: number;
   prompt_eval_count?: number;
@@ -63,5 +191,173 @@ export interface OllamaResponse extends CommonLLMResponse {
   load_duration?: number;
 }
 
+/**
+ * A single chunk of a streamed Ollama /api/chat response (NDJSON line)
+ * The final chunk has done: true and carries the timing and token counts
+ */
+export interface OllamaStreamChunk {
+  model?: string;
+  created_at?: string;
+  message?: {
+    role: string;
+    content: string;
+  };
+  done: boolean;
+  done_reason?: string;
+  error?: string;
+  eval_count?: number;
+  eval_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  total_duration?: number;
+  load_duration?: number;
+}
+
+/**
+ * Ollama-specific embedding options (/api/embed)
+ */
+export interface OllamaEmbeddingOptions extends EmbeddingOptions {
+  /** Truncate inputs that exceed the context length instead of failing (Ollama default: true) */
+  truncate?: boolean;
+
+  /** How long the model stays loaded after the request (e.g. '5m', 0 to unload) */
+  keep_alive?: string | number;
+
+  /** Hosts serving the embedding model; the provider balances requests between them (ignored when baseUrl is set) */
+  hosts?: Array<string | BalancedHost>;
+}
+
+/**
+ * Ollama /api/embed response
+ */
+export interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+}
+
 // Note: OllamaDebugInfo is now an alias for LLMDebugInfo
 // Exported from debug-llm.utils.ts for backward compatibility
+
+/**
+ * Connection settings of OllamaModelManager
+ * Request options take precedence over these defaults
+ */
+export interface OllamaModelManagerConfig {
+  /** Server URL (default: MODEL1_URL or http://localhost:11434) */
+  baseUrl?: string;
+
+  /** Default authentication token */
+  authToken?: string;
+
+  /** Time limit per request in milliseconds; for pulls, until the response starts (default: 90000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options of a single OllamaModelManager request
+ */
+export interface OllamaModelRequestOptions {
+  baseUrl?: string;
+  authToken?: string;
+  headers?: Record<string, string>;
+  /** Cancels the request; it rejects with LLMAbortedError */
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Options of a model pull
+ */
+export interface OllamaPullOptions extends OllamaModelRequestOptions {
+  /** Allow insecure connections to the registry (development registries only) */
+  insecure?: boolean;
+}
+
+/**
+ * Model details reported by /api/tags, /api/show and /api/ps
+ */
+export interface OllamaModelDetails {
+  parent_model?: string;
+  format?: string;
+  family?: string;
+  families?: string[] | null;
+  /** e.g. '8.0B' */
+  parameter_size?: string;
+  /** e.g. 'Q4_K_M' */
+  quantization_level?: string;
+}
+
+/**
+ * A locally available model (/api/tags)
+ */
+export interface OllamaModel {
+  /** Model name with tag, e.g. 'llama3.1:latest' */
+  name: string;
+  model: string;
+  modified_at: string;
+  /** Size on disk in bytes */
+  size: number;
+  digest: string;
+  details?: OllamaModelDetails;
+}
+
+/**
+ * Information about a model (/api/show)
+ */
+export interface OllamaModelInfo {
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  license?: string;
+  details?: OllamaModelDetails;
+  /** Architecture metadata, e.g. 'llama.context_length' */
+  model_info?: Record<string, any>;
+  /** e.g. ['completion', 'tools', 'vision'] */
+  capabilities?: string[];
+  modified_at?: string;
+}
+
+/**
+ * A model loaded into memory (/api/ps)
+ */
+export interface OllamaRunningModel {
+  name: string;
+  model: string;
+  /** Memory used in bytes */
+  size: number;
+  /** Part of size held in GPU memory, in bytes */
+  size_vram: number;
+  digest: string;
+  details?: OllamaModelDetails;
+  /** When the model is unloaded unless it is used again */
+  expires_at: string;
+  context_length?: number;
+}
+
+/**
+ * Progress event of a model pull (/api/pull)
+ * Download events carry the layer digest and its total and completed bytes; the last event has status 'success'
+ */
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+/**
+ * Outcome of the startup check for one configured model on one host
+ */
+export interface OllamaModelCheckResult {
+  /** Key of the model config (e.g. 'MODEL1') */
+  key: string;
+  /** Configured model name (absent if the config has none) */
+  model?: string;
+  host: string;
+  available: boolean;
+  /** Why the model is not available (not pulled, host unreachable, no model name configured) */
+  error?: string;
+}
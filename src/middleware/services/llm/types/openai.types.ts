@@ -0,0 +1,243 @@
+/**
+ * OpenAI-specific types and interfaces
+ * Based on OpenAI Chat Completions API: https://platform.openai.com/docs/api-reference/chat
+ */
+
+import { CommonLLMOptions, CommonLLMResponse, EmbeddingOptions } from './common.types';
+
+/**
+ * OpenAI-specific request options
+ * Extends common options with OpenAI-specific parameters
+ */
+export interface OpenAIRequestOptions extends CommonLLMOptions {
+  // OpenAI-specific parameters
+
+  /** Top-p sampling (nucleus sampling) - Range: 0.0 to 1.0 */
+  top_p?: number;
+
+  /** Penalizes tokens based on their frequency so far - Range: -2.0 to 2.0 */
+  frequency_penalty?: number;
+
+  /** Penalizes tokens that already appeared so far - Range: -2.0 to 2.0 */
+  presence_penalty?: number;
+
+  /** Up to 4 sequences where the API will stop generating further tokens */
+  stop?: string | string[];
+
+  /** Seed for (best effort) deterministic sampling */
+  seed?: number;
+
+  /** Stable identifier for the end user (abuse monitoring) */
+  user?: string;
+}
+
+/**
+ * Resolved connection settings for a single request
+ */
+export interface OpenAIConnection {
+  /** Base URL of the API (including version path, e.g. https://api.openai.com/v1) */
+  baseUrl: string;
+  /** Model to use */
+  model: string;
+  /** Authentication token (optional for self-hosted servers) */
+  authToken?: string;
+}
+
+/**
+ * Configuration for a generic OpenAI-compatible server
+ * (vLLM, LM Studio, llama.cpp server, LocalAI, ...)
+ */
+export interface OpenAICompatibleProviderConfig {
+  /** Name used for registration in LLMService, logs and response metadata (e.g. 'vllm-gpu1') */
+  name: string;
+
+  /** Server root URL, e.g. http://localhost:8000 */
+  baseUrl: string;
+
+  /** Path prefix of the OpenAI-compatible API (default: '/v1') */
+  basePath?: string;
+
+  /** Default model if none is passed in the request options */
+  model?: string;
+
+  /** Default embedding model for embed() (falls back to model) */
+  embeddingModel?: string;
+
+  /** Default authentication token (optional, most local servers need none) */
+  authToken?: string;
+
+  /** Header used to send the token (default: 'Authorization') */
+  authHeader?: string;
+
+  /**
+   * Scheme prefixed to the token (default: 'Bearer' for the Authorization header, none for custom headers)
+   * Set to an empty string to send the raw token
+   */
+  authScheme?: string;
+
+  /** Additional static headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+/**
+ * OpenAI message format
+ */
+export interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null | OpenAIContentPart[];
+  /** Tool calls of a previous assistant turn */
+  tool_calls?: OpenAIToolCall[];
+  /** ID of the tool call a tool message answers */
+  tool_call_id?: string;
+}
+
+/**
+ * OpenAI content part (user messages with images)
+ */
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
+/**
+ * OpenAI tool call (arguments are a JSON-encoded string)
+ */
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * OpenAI tool definition
+ */
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * OpenAI tool choice
+ */
+export type OpenAIToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+
+/**
+ * OpenAI response format (JSON mode or structured outputs)
+ */
+export type OpenAIResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, any>; strict?: boolean } };
+
+/**
+ * OpenAI API request payload
+ */
+export interface OpenAIAPIRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  stop?: string | string[];
+  seed?: number;
+  user?: string;
+  stream?: boolean;
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  response_format?: OpenAIResponseFormat;
+}
+
+/**
+ * OpenAI completion choice (response can have multiple choices)
+ */
+export interface OpenAIChoice {
+  index: number;
+  message: {
+    role: 'assistant';
+    content: string | null;
+    tool_calls?: OpenAIToolCall[];
+  };
+  finish_reason: 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'function_call' | null;
+}
+
+/**
+ * OpenAI usage information
+ * Based on: https://platform.openai.com/docs/api-reference/chat/object
+ * Fields are optional because some OpenAI-compatible servers report partial usage
+ */
+export interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  /** Breakdown of prompt tokens (cached tokens when prompt caching applies) */
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+}
+
+/**
+ * OpenAI API response format
+ */
+export interface OpenAIAPIResponse {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: OpenAIChoice[];
+  usage?: OpenAIUsage;
+  system_fingerprint?: string | null;
+}
+
+/**
+ * OpenAI-specific response format (normalized to CommonLLMResponse)
+ */
+export interface OpenAIResponse extends CommonLLMResponse {
+  // OpenAI-specific fields
+  id?: string;
+  finish_reason?: string;
+  system_fingerprint?: string;
+}
+
+/**
+ * OpenAI-specific embedding options
+ */
+export interface OpenAIEmbeddingOptions extends EmbeddingOptions {
+  /** Stable identifier for the end user (abuse monitoring) */
+  user?: string;
+}
+
+/**
+ * OpenAI embeddings API request payload
+ */
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string[];
+  encoding_format: 'float';
+  dimensions?: number;
+  user?: string;
+}
+
+/**
+ * OpenAI embeddings API response
+ */
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: Array<{
+    object: 'embedding';
+    index: number;
+    embedding: number[];
+  }>;
+  model: string;
+  usage?: {
+    prompt_tokens?: number;
+    total_tokens?: number;
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Helpers for working with provider-agnostic chat message arrays
+ */
+
+import { ChatMessage } from '../types';
+
+/**
+ * Build the message array for a classic system + user prompt call
+ */
+export function buildChatMessages(systemMessage: string, userPrompt: string): ChatMessage[] {
+  return [
+    { role: 'system', content: systemMessage },
+    { role: 'user', content: userPrompt }
+  ];
+}
+
+/**
+ * Split system messages from the conversation
+ * Multiple system messages are joined with a blank line, in order of appearance
+ */
+export function splitSystemMessages(messages: ChatMessage[]): {
+  systemMessage: string;
+  conversation: ChatMessage[];
+} {
+  const systemParts: string[] = [];
+  const conversation: ChatMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      systemParts.push(message.content);
+    } else {
+      conversation.push(message);
+    }
+  }
+
+  return {
+    systemMessage: systemParts.join('\n\n'),
+    conversation
+  };
+}
+
+/**
+ * Get the content of the last user message (used as the "prompt" in logs)
+ */
+export function getLastUserMessage(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      return messages[i].content;
+    }
+  }
+  return '';
+}
+
+/**
+ * Validate a message array before sending it to a provider
+ * @throws Error if the array is empty or contains invalid entries
+ */
+export function validateChatMessages(messages: ChatMessage[]): void {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new Error('At least one message is required');
+  }
+
+  for (const message of messages) {
+    if (!['system', 'user', 'assistant', 'tool'].includes(message?.role)) {
+      throw new Error(`Invalid message role: ${message?.role}`);
+    }
+    if (typeof message.content !== 'string') {
+      throw new Error(`Message content must be a string (role: ${message.role})`);
+    }
+    if (message.role === 'tool' && !message.toolCallId) {
+      throw new Error('Tool messages require a toolCallId');
+    }
+    if (message.images && message.images.length > 0 && message.role !== 'user') {
+      throw new Error(`Images can only be attached to user messages (role: ${message.role})`);
+    }
+  }
+
+  if (!messages.some(message => message.role !== 'system')) {
+    throw new Error('At least one user or assistant message is required');
+  }
+}
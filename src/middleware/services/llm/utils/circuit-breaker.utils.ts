@@ -0,0 +1,183 @@
+/**
+ * Circuit breaker for a single provider endpoint
+ * Fails fast while an endpoint is known to be down instead of waiting for request timeouts
+ */
+
+import { CircuitBreakerConfig, CircuitBreakerStatus, CircuitState, CircuitStateChangeEvent } from '../types';
+import { LLMError, LLMCircuitOpenError, LLMAbortedError, LLMQueueTimeoutError } from '../errors';
+
+/**
+ * Circuit breaker config with all defaults applied
+ */
+export type ResolvedCircuitBreakerConfig = Required<CircuitBreakerConfig>;
+
+const ENDPOINT_FAILURE_CODES = ['network', 'timeout', 'upstream'];
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: ResolvedCircuitBreakerConfig = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  successThreshold: 1,
+  halfOpenMaxRequests: 1,
+  isFailure: (error: unknown) => error instanceof LLMError && ENDPOINT_FAILURE_CODES.includes(error.code)
+};
+
+/**
+ * Build the key of a provider endpoint
+ */
+export function getCircuitBreakerKey(provider: string, baseUrl?: string): string {
+  return baseUrl ? `${provider}|${baseUrl}` : provider;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private halfOpenSuccesses = 0;
+  private halfOpenActive = 0;
+  private openedAt?: number;
+  private lastError?: string;
+
+  constructor(
+    private readonly provider: string,
+    private readonly baseUrl: string | undefined,
+    private readonly config: ResolvedCircuitBreakerConfig,
+    private readonly onStateChange?: (event: CircuitStateChangeEvent) => void
+  ) {}
+
+  /**
+   * Run a request through the breaker
+   * @throws LLMCircuitOpenError without running the request while the circuit is open
+   */
+  public async execute<T>(request: () => Promise<T>): Promise<T> {
+    this.acquire();
+    const isTrial = this.state === 'half-open';
+
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      // Cancelled requests and requests that never left the queue say nothing about the endpoint
+      if (error instanceof LLMAbortedError || error instanceof LLMQueueTimeoutError) {
+        throw error;
+      }
+      if (this.config.isFailure(error)) {
+        this.recordFailure(error);
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.halfOpenActive = Math.max(0, this.halfOpenActive - 1);
+      }
+    }
+  }
+
+  /**
+   * Get the current state (an expired open circuit is reported as half-open)
+   */
+  public getStatus(): CircuitBreakerStatus {
+    this.refreshState();
+    return {
+      key: getCircuitBreakerKey(this.provider, this.baseUrl),
+      provider: this.provider,
+      ...(this.baseUrl && { baseUrl: this.baseUrl }),
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt !== undefined && { openedAt: new Date(this.openedAt) }),
+      ...(this.state === 'open' && { nextAttemptAt: new Date(this.openedAt! + this.config.resetTimeoutMs) }),
+      ...(this.lastError && { lastError: this.lastError })
+    };
+  }
+
+  /**
+   * Close the circuit and clear all counters
+   */
+  public reset(): void {
+    this.consecutiveFailures = 0;
+    this.halfOpenSuccesses = 0;
+    this.halfOpenActive = 0;
+    this.transition('closed');
+  }
+
+  /**
+   * Let a request pass or reject it while the circuit is open
+   */
+  private acquire(): void {
+    this.refreshState();
+
+    if (this.state === 'closed') {
+      return;
+    }
+    if (this.state === 'half-open' && this.halfOpenActive < this.config.halfOpenMaxRequests) {
+      this.halfOpenActive++;
+      return;
+    }
+
+    const retryAfterMs = this.state === 'open'
+      ? Math.max(0, this.openedAt! + this.config.resetTimeoutMs - Date.now())
+      : undefined;
+    throw new LLMCircuitOpenError(
+      `Circuit breaker for ${this.provider}${this.baseUrl ? ` (${this.baseUrl})` : ''} is ${this.state}` +
+      (this.lastError ? ` after: ${this.lastError}` : ''),
+      { provider: this.provider, retryAfterMs }
+    );
+  }
+
+  /**
+   * Move an open circuit to half-open once the reset timeout has passed
+   */
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.config.resetTimeoutMs) {
+      this.halfOpenSuccesses = 0;
+      this.halfOpenActive = 0;
+      this.transition('half-open');
+    }
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state === 'half-open') {
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.config.successThreshold) {
+        this.transition('closed');
+      }
+    }
+  }
+
+  private recordFailure(error: unknown): void {
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half-open') {
+      this.open(error);
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.state === 'closed' && this.consecutiveFailures >= this.config.failureThreshold) {
+      this.open(error);
+    }
+  }
+
+  private open(error: unknown): void {
+    this.openedAt = Date.now();
+    this.transition('open', error);
+  }
+
+  private transition(to: CircuitState, error?: unknown): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+    this.state = to;
+    this.onStateChange?.({
+      key: getCircuitBreakerKey(this.provider, this.baseUrl),
+      provider: this.provider,
+      ...(this.baseUrl && { baseUrl: this.baseUrl }),
+      from,
+      to,
+      ...(error !== undefined && { error }),
+      timestamp: new Date()
+    });
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Concurrency limit with a priority queue for a single provider endpoint
+ * Keeps a burst of calls from overloading one endpoint (e.g. a local Ollama instance)
+ */
+
+import { ConcurrencyLimitConfig, EndpointQueueStatus, QueueInfo, RequestPriority } from '../types';
+import { LLMAbortedError, LLMQueueTimeoutError } from '../errors';
+import { getCircuitBreakerKey } from './circuit-breaker.utils';
+
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  batch: 2
+};
+
+/**
+ * Queue settings of a single request
+ */
+export interface QueueOptions {
+  priority?: RequestPriority;
+  /** Time the request may wait for a free slot (default: no limit) */
+  queueTimeoutMs?: number;
+  /** Removes the request from the queue when aborted */
+  signal?: AbortSignal;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+/**
+ * Resolve the limit of an endpoint: endpoint key, then provider name, then maxConcurrent
+ */
+export function resolveMaxConcurrent(config: ConcurrencyLimitConfig, provider: string, baseUrl?: string): number {
+  const endpoints = config.endpoints || {};
+  return endpoints[getCircuitBreakerKey(provider, baseUrl)]
+    ?? endpoints[provider]
+    ?? config.maxConcurrent
+    ?? DEFAULT_MAX_CONCURRENT_REQUESTS;
+}
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: QueuedRequest[] = [];
+
+  constructor(
+    private readonly provider: string,
+    private readonly baseUrl: string | undefined,
+    private readonly maxConcurrent: number
+  ) {
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+      throw new Error(`Concurrency limit for ${getCircuitBreakerKey(provider, baseUrl)} must be a positive integer`);
+    }
+  }
+
+  /**
+   * Run a request as soon as a slot is free
+   * Queued requests start in priority order, requests of the same priority in arrival order
+   *
+   * @param onStart - Called with the queue info when the request gets its slot
+   * @throws LLMQueueTimeoutError if no slot became free within queueTimeoutMs
+   * @throws LLMAbortedError if the signal was aborted while waiting
+   */
+  public async run<T>(request: () => Promise<T>, options: QueueOptions = {}, onStart?: (info: QueueInfo) => void): Promise<T> {
+    const info = await this.acquire(options);
+    onStart?.(info);
+
+    try {
+      return await request();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Get the current load of the endpoint
+   */
+  public getStatus(): EndpointQueueStatus {
+    const queuedByPriority: Record<RequestPriority, number> = { interactive: 0, normal: 0, batch: 0 };
+    this.queue.forEach(entry => queuedByPriority[entry.priority]++);
+    const oldest = this.queue.reduce<number | undefined>(
+      (min, entry) => min === undefined || entry.enqueuedAt < min ? entry.enqueuedAt : min,
+      undefined
+    );
+
+    return {
+      key: getCircuitBreakerKey(this.provider, this.baseUrl),
+      provider: this.provider,
+      ...(this.baseUrl && { baseUrl: this.baseUrl }),
+      maxConcurrent: this.maxConcurrent,
+      active: this.active,
+      queued: this.queue.length,
+      queuedByPriority,
+      ...(oldest !== undefined && { oldestWaitMs: Date.now() - oldest })
+    };
+  }
+
+  /**
+   * Take a free slot, or wait in the queue for one
+   */
+  private acquire(options: QueueOptions): Promise<QueueInfo> {
+    const { priority = 'normal', queueTimeoutMs, signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(this.createAbortedError());
+    }
+    if (this.active < this.maxConcurrent && this.queue.length === 0) {
+      this.active++;
+      return Promise.resolve({ priority, waitMs: 0, queueDepth: 0 });
+    }
+
+    return new Promise<QueueInfo>((resolve, reject) => {
+      const enqueuedAt = Date.now();
+      let timer: NodeJS.Timeout | undefined;
+
+      const leave = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.queue = this.queue.filter(candidate => candidate !== entry);
+      };
+      const onAbort = (): void => {
+        leave();
+        reject(this.createAbortedError());
+      };
+
+      const entry: QueuedRequest = {
+        priority,
+        enqueuedAt,
+        start: () => {
+          leave();
+          this.active++;
+          resolve({ priority, waitMs: Date.now() - enqueuedAt, queueDepth });
+        }
+      };
+
+      // Insert behind all queued requests of the same or a higher priority
+      const insertAt = this.queue.findIndex(candidate => PRIORITY_ORDER[candidate.priority] > PRIORITY_ORDER[priority]);
+      const queueDepth = insertAt === -1 ? this.queue.length : insertAt;
+      this.queue.splice(queueDepth, 0, entry);
+
+      if (queueTimeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          leave();
+          reject(new LLMQueueTimeoutError(
+            `Request to ${this.provider} waited ${queueTimeoutMs}ms for a free slot ` +
+            `(${this.active} active, ${this.queue.length} queued)`,
+            { provider: this.provider, waitMs: Date.now() - enqueuedAt }
+          ));
+        }, queueTimeoutMs);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Free a slot and start the next queued request
+   */
+  private release(): void {
+    this.active = Math.max(0, this.active - 1);
+    if (this.active < this.maxConcurrent) {
+      this.queue[0]?.start();
+    }
+  }
+
+  private createAbortedError(): LLMAbortedError {
+    return new LLMAbortedError(`Request to ${this.provider} was aborted`, { provider: this.provider });
+  }
+}
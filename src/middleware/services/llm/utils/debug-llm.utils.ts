@@ -52,6 +52,21 @@ export class LLMDebugger {
       .trim();
   }
 
+  /**
+   * JSON.stringify replacer that replaces base64 payloads (e.g. images) with a size note
+   * Matches data URLs and long strings consisting only of base64 characters
+   */
+  static omitBinaryData(_key: string, value: any): any {
+    if (
+      typeof value === 'string' &&
+      value.length > 256 &&
+      (value.startsWith('data:') || /^[A-Za-z0-9+/]+={0,2}$/.test(value))
+    ) {
+      return `[binary data omitted: ${value.length} chars]`;
+    }
+    return value;
+  }
+
   /**
    * Log request information to console
    */
@@ -85,7 +100,7 @@ export class LLMDebugger {
       if (debugInfo.clientRequestBody) {
         console.log('\n📱 CLIENT REQUEST BODY:');
         console.log('-'.repeat(50));
-        console.log(JSON.stringify(debugInfo.clientRequestBody, null, 2));
+        console.log(JSON.stringify(debugInfo.clientRequestBody, this.omitBinaryData, 2));
       }
 
       console.log('\n📋 SYSTEM MESSAGE:');
@@ -96,9 +111,15 @@ export class LLMDebugger {
       console.log('-'.repeat(50));
       console.log(this.formatMessage(debugInfo.userMessage));
 
+      if (debugInfo.attachments && debugInfo.attachments.length > 0) {
+        console.log(`\n🖼️  ATTACHMENTS: ${debugInfo.attachments.map(attachment =>
+          `${attachment.name || attachment.mimeType} (${(attachment.sizeBytes / 1024).toFixed(1)} KB)`
+        ).join(', ')}`);
+      }
+
       console.log('\n🔧 COMPLETE REQUEST DATA:');
       console.log('-'.repeat(50));
-      console.log(JSON.stringify(debugInfo.requestData, null, 2));
+      console.log(JSON.stringify(debugInfo.requestData, this.omitBinaryData, 2));
     }
 
     console.log('='.repeat(80) + '\n');
@@ -238,7 +259,7 @@ ${debugInfo.chapterNumber || debugInfo.pageNumber || debugInfo.pageName ? `- **C
 
 ${debugInfo.clientRequestBody ? `## Client Request Body
 \`\`\`json
-${JSON.stringify(debugInfo.clientRequestBody, null, 2)}
+${JSON.stringify(debugInfo.clientRequestBody, this.omitBinaryData, 2)}
 \`\`\`
 ` : ''}
 
@@ -252,9 +273,17 @@ ${debugInfo.systemMessage}
 ${debugInfo.userMessage}
 \`\`\`
 
+${debugInfo.attachments && debugInfo.attachments.length > 0 ? `## Attachments
+| Message | Name | Type | Size | Source |
+|---------|------|------|------|--------|
+${debugInfo.attachments.map(attachment =>
+  `| ${attachment.messageIndex} | ${attachment.name || '-'} | ${attachment.mimeType} | ${(attachment.sizeBytes / 1024).toFixed(1)} KB | ${attachment.source} |`
+).join('\n')}
+` : ''}
+
 ## Complete Request Data
 \`\`\`json
-${JSON.stringify(debugInfo.requestData, null, 2)}
+${JSON.stringify(debugInfo.requestData, this.omitBinaryData, 2)}
 \`\`\`
 
 ${debugInfo.response ? `## Response
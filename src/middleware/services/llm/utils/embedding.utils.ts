@@ -0,0 +1,64 @@
+/**
+ * Helpers for embedding requests
+ * Batching of inputs and normalization of the combined result
+ */
+
+import { TokenUsage } from '../types';
+
+/**
+ * Split texts into batches of at most batchSize entries
+ * @throws Error if batchSize is not a positive integer
+ */
+export function splitIntoBatches(texts: string[], batchSize: number): string[][] {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Embedding batchSize must be a positive integer (got ${batchSize})`);
+  }
+
+  const batches: string[][] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    batches.push(texts.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+/**
+ * Normalize the embedding input to a non-empty list of texts
+ * @throws Error if no texts are given
+ */
+export function normalizeEmbeddingInput(texts: string | string[]): string[] {
+  const input = Array.isArray(texts) ? texts : [texts];
+  if (input.length === 0) {
+    throw new Error('Embedding request requires at least one text');
+  }
+  return input;
+}
+
+/**
+ * Determine the vector size and verify that all vectors share it
+ * @throws Error if the provider returned vectors of different sizes
+ */
+export function getEmbeddingDimensions(embeddings: number[][]): number {
+  const dimensions = embeddings[0]?.length ?? 0;
+  if (embeddings.some(vector => vector.length !== dimensions)) {
+    throw new Error('Embedding vectors have inconsistent dimensions');
+  }
+  return dimensions;
+}
+
+/**
+ * Sum the input token counts of all batches into TokenUsage
+ * Returns undefined if no batch reported a token count
+ */
+export function sumEmbeddingUsage(tokenCounts: Array<number | undefined>): TokenUsage | undefined {
+  const reported = tokenCounts.filter((count): count is number => typeof count === 'number');
+  if (reported.length === 0) {
+    return undefined;
+  }
+
+  const inputTokens = reported.reduce((sum, count) => sum + count, 0);
+  return {
+    inputTokens,
+    outputTokens: 0,
+    totalTokens: inputTokens
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Load balancing across several hosts that serve the same models
+ * Failing hosts are taken out of rotation for a while (passive health tracking)
+ */
+
+import { BalancedHost, HostHealthConfig, HostStatus, LoadBalancingStrategy } from '../types';
+import { LLMError, LLMAbortedError } from '../errors';
+import { logger } from '../../../shared/utils/logging.utils';
+
+const HOST_FAILURE_CODES = ['network', 'timeout', 'upstream', 'insufficient_memory'];
+
+export const DEFAULT_HOST_HEALTH_CONFIG: Required<HostHealthConfig> = {
+  failureThreshold: 3,
+  cooldownMs: 30000
+};
+
+/**
+ * A host picked for one request
+ * Call release() exactly once when the request has finished (with the error if it failed)
+ */
+export interface HostLease {
+  url: string;
+  release: (error?: unknown) => void;
+}
+
+interface HostState {
+  url: string;
+  weight: number;
+  inFlight: number;
+  consecutiveFailures: number;
+  unhealthyUntil?: number;
+  lastError?: string;
+  /** Running score of the smooth weighted round-robin */
+  currentWeight: number;
+}
+
+/**
+ * Normalize a host list of URLs and/or host objects
+ */
+export function normalizeHosts(hosts: Array<string | BalancedHost>): BalancedHost[] {
+  return hosts.map(host => (typeof host === 'string' ? { url: host } : host));
+}
+
+/**
+ * Parse a comma-separated host list (e.g. MODEL1_URLS)
+ * @returns undefined for an empty or missing list
+ */
+export function parseHostList(value: string | undefined): string[] | undefined {
+  const hosts = (value || '').split(',').map(host => host.trim()).filter(host => host.length > 0);
+  return hosts.length > 0 ? hosts : undefined;
+}
+
+/**
+ * Check whether an error says something about the host (rather than about the request)
+ */
+export function isHostFailure(error: unknown): boolean {
+  return error instanceof LLMError && HOST_FAILURE_CODES.includes(error.code);
+}
+
+export class HostBalancer {
+  private readonly hosts: HostState[];
+  private readonly health: Required<HostHealthConfig>;
+  private cursor = 0;
+
+  constructor(
+    hosts: Array<string | BalancedHost>,
+    private readonly strategy: LoadBalancingStrategy = 'round-robin',
+    health: HostHealthConfig = {}
+  ) {
+    if (hosts.length === 0) {
+      throw new Error('Load balancing requires at least one host');
+    }
+    this.health = { ...DEFAULT_HOST_HEALTH_CONFIG, ...health };
+    this.hosts = normalizeHosts(hosts).map(host => {
+      const weight = host.weight ?? 1;
+      if (!(weight > 0)) {
+        throw new Error(`Weight of host ${host.url} must be greater than 0`);
+      }
+      return { url: host.url, weight, inFlight: 0, consecutiveFailures: 0, currentWeight: 0 };
+    });
+  }
+
+  /**
+   * Pick a host for a request
+   * Hosts out of rotation are skipped; if every host is out of rotation, the one that
+   * comes back first is used rather than failing the request
+   */
+  public acquire(): HostLease {
+    const host = this.pick();
+    host.inFlight++;
+
+    let released = false;
+    return {
+      url: host.url,
+      release: (error?: unknown) => {
+        if (released) {
+          return;
+        }
+        released = true;
+        host.inFlight = Math.max(0, host.inFlight - 1);
+        this.record(host, error);
+      }
+    };
+  }
+
+  /**
+   * Run a request on a picked host and record the outcome
+   */
+  public async run<T>(request: (url: string) => Promise<T>): Promise<T> {
+    const lease = this.acquire();
+    try {
+      const result = await request(lease.url);
+      lease.release();
+      return result;
+    } catch (error) {
+      lease.release(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the state of every host
+   */
+  public getStatus(): HostStatus[] {
+    const now = Date.now();
+    return this.hosts.map(host => {
+      const healthy = this.isHealthy(host, now);
+      return {
+        url: host.url,
+        weight: host.weight,
+        inFlight: host.inFlight,
+        healthy,
+        consecutiveFailures: host.consecutiveFailures,
+        ...(!healthy && { unhealthyUntil: new Date(host.unhealthyUntil!) }),
+        ...(host.lastError && { lastError: host.lastError })
+      };
+    });
+  }
+
+  private pick(): HostState {
+    const now = Date.now();
+    const candidates = this.hosts.filter(host => this.isHealthy(host, now));
+    if (candidates.length === 0) {
+      return this.hosts.reduce((first, host) => host.unhealthyUntil! < first.unhealthyUntil! ? host : first);
+    }
+
+    if (this.strategy === 'weighted') {
+      return this.pickWeighted(candidates);
+    }
+
+    const start = this.cursor++ % candidates.length;
+    const rotated = [...candidates.slice(start), ...candidates.slice(0, start)];
+    if (this.strategy === 'least-in-flight') {
+      return rotated.reduce((least, host) => host.inFlight < least.inFlight ? host : least);
+    }
+    return rotated[0];
+  }
+
+  /**
+   * Smooth weighted round-robin: spreads a host's share evenly instead of sending bursts
+   */
+  private pickWeighted(candidates: HostState[]): HostState {
+    const totalWeight = candidates.reduce((sum, host) => sum + host.weight, 0);
+    let best = candidates[0];
+    for (const host of candidates) {
+      host.currentWeight += host.weight;
+      if (host.currentWeight > best.currentWeight) {
+        best = host;
+      }
+    }
+    best.currentWeight -= totalWeight;
+    return best;
+  }
+
+  private isHealthy(host: HostState, now: number): boolean {
+    return host.unhealthyUntil === undefined || host.unhealthyUntil <= now;
+  }
+
+  private record(host: HostState, error: unknown): void {
+    // Cancelled requests say nothing about the host
+    if (error instanceof LLMAbortedError) {
+      return;
+    }
+
+    if (!isHostFailure(error)) {
+      if (host.unhealthyUntil !== undefined) {
+        logger.info(`Host ${host.url} is back in rotation`, { context: 'HostBalancer' });
+      }
+      host.consecutiveFailures = 0;
+      host.unhealthyUntil = undefined;
+      return;
+    }
+
+    host.consecutiveFailures++;
+    host.lastError = error instanceof Error ? error.message : String(error);
+    if (host.consecutiveFailures >= this.health.failureThreshold) {
+      host.unhealthyUntil = Date.now() + this.health.cooldownMs;
+      logger.warn(`Host ${host.url} taken out of rotation for ${this.health.cooldownMs}ms after ${host.consecutiveFailures} failures`, {
+        context: 'HostBalancer',
+        error: host.lastError
+      });
+    }
+  }
+}
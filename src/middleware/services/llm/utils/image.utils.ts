@@ -0,0 +1,156 @@
+/**
+ * Helpers for image attachments (multimodal inputs)
+ * Resolves file paths and data URLs into raw base64 data with a known MIME type
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatMessage, ImageAttachment, ImageAttachmentInfo } from '../types';
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/**
+ * Largest image file read from a path (larger files are rejected before they are read)
+ */
+export const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+
+const DATA_URL_PATTERN = /^data:([^;,]+)(;base64)?,/;
+
+/**
+ * Detect the image MIME type from the first bytes of the image (magic numbers)
+ */
+export function detectImageMimeType(buffer: Buffer): string | undefined {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(buffer.subarray(0, 6).toString('ascii'))) {
+    return 'image/gif';
+  }
+  if (buffer.length >= 12 && buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+/**
+ * Resolve an image attachment into raw base64 data and a MIME type
+ * Files are read from disk (up to MAX_IMAGE_FILE_BYTES); data URL prefixes are stripped
+ * Paths are not restricted, so only pass paths from trusted code, never from request data
+ * @throws Error if neither data nor path is set, the file cannot be read or is too large, or the type is unknown
+ */
+export async function resolveImageAttachment(image: ImageAttachment): Promise<ImageAttachment> {
+  let data: string;
+  let mimeType = image.mimeType;
+  let name = image.name;
+
+  if (image.data) {
+    data = image.data;
+    const dataUrlMatch = data.match(DATA_URL_PATTERN);
+    if (dataUrlMatch) {
+      mimeType = mimeType || dataUrlMatch[1];
+      data = data.slice(dataUrlMatch[0].length);
+    }
+  } else if (image.path) {
+    const { size } = await fs.promises.stat(image.path);
+    if (size > MAX_IMAGE_FILE_BYTES) {
+      throw new Error(`Image file ${path.basename(image.path)} is too large (${size} bytes, maximum ${MAX_IMAGE_FILE_BYTES})`);
+    }
+    const fileBuffer = await fs.promises.readFile(image.path);
+    data = fileBuffer.toString('base64');
+    mimeType = mimeType || EXTENSION_MIME_TYPES[path.extname(image.path).toLowerCase()];
+    name = name || path.basename(image.path);
+  } else {
+    throw new Error('Image attachment requires either data or path');
+  }
+
+  mimeType = mimeType || detectImageMimeType(Buffer.from(data.slice(0, 24), 'base64'));
+  if (!mimeType) {
+    throw new Error(`Could not determine the image type${name ? ` of ${name}` : ''}. Please set mimeType.`);
+  }
+
+  return {
+    data,
+    mimeType,
+    ...(name && { name }),
+    ...(image.path && { path: image.path })
+  };
+}
+
+/**
+ * Resolve all image attachments of a conversation
+ * Images passed via options.images are attached to the last user message.
+ * In the returned messages every image has raw base64 `data` and a `mimeType`.
+ * @throws Error if options.images is set but there is no user message
+ */
+export async function resolveMessageImages(
+  messages: ChatMessage[],
+  images?: ImageAttachment[]
+): Promise<ChatMessage[]> {
+  let result = messages;
+
+  if (images && images.length > 0) {
+    let lastUserIndex = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') {
+        lastUserIndex = i;
+        break;
+      }
+    }
+    if (lastUserIndex === -1) {
+      throw new Error('Images require a user message to attach them to');
+    }
+
+    result = messages.map((message, index) =>
+      index === lastUserIndex
+        ? { ...message, images: [...(message.images || []), ...images] }
+        : message
+    );
+  }
+
+  if (!result.some(message => message.images && message.images.length > 0)) {
+    return result;
+  }
+
+  return Promise.all(result.map(async message => {
+    if (!message.images || message.images.length === 0) return message;
+    return { ...message, images: await Promise.all(message.images.map(resolveImageAttachment)) };
+  }));
+}
+
+/**
+ * Collect image metadata for debug logs (sizes and types, never the data)
+ * Expects messages returned by resolveMessageImages
+ */
+export function getImageAttachmentInfo(messages: ChatMessage[]): ImageAttachmentInfo[] {
+  const info: ImageAttachmentInfo[] = [];
+
+  messages.forEach((message, messageIndex) => {
+    for (const image of message.images || []) {
+      info.push({
+        messageIndex,
+        ...(image.name && { name: image.name }),
+        mimeType: image.mimeType || 'unknown',
+        sizeBytes: image.data ? Buffer.byteLength(image.data, 'base64') : 0,
+        source: image.path ? 'file' : 'base64'
+      });
+    }
+  });
+
+  return info;
+}
+
+/**
+ * Check whether a conversation contains image attachments
+ */
+export function hasImageAttachments(messages: ChatMessage[]): boolean {
+  return messages.some(message => message.images && message.images.length > 0);
+}
@@ -1,2 +1,18 @@
 export * from './debug-llm.utils';
-export * from './text-analysis.utils';
\ No newline at end of file
+export * from './text-analysis.utils';
+export * from './stream.utils';
+export * from './chat-message.utils';
+export * from './tool-call.utils';
+export * from './response-format.utils';
+export * from './image.utils';
+export * from './embedding.utils';
+export * from './llm-error.utils';
+export * from './retry.utils';
+export * from './circuit-breaker.utils';
+export * from './timeout.utils';
+export * from './concurrency-limiter.utils';
+export * from './host-balancer.utils';
+export * from './response-cache.utils';
+export * from './semantic-cache.utils';
+export * from './single-flight.utils';
+export * from './ollama-options.utils';
@@ -0,0 +1,191 @@
+/**
+ * Maps provider failures (HTTP status codes, error bodies, network errors) to typed LLM errors
+ * Used by all providers so the same failure produces the same error class everywhere
+ */
+
+import {
+  LLMError,
+  LLMAuthenticationError,
+  LLMRateLimitError,
+  LLMContextLengthError,
+  LLMModelNotFoundError,
+  LLMInsufficientMemoryError,
+  LLMTimeoutError,
+  LLMUpstreamError,
+  LLMNetworkError,
+  LLMInvalidRequestError,
+  LLMAbortedError
+} from '../errors';
+
+/**
+ * Request context attached to mapped errors
+ */
+export interface LLMErrorContext {
+  provider: string;
+  model?: string;
+  /** Request timeout in milliseconds (reported on LLMTimeoutError) */
+  timeoutMs?: number;
+  /** Signal of the request; errors after it was aborted become LLMAbortedError */
+  signal?: AbortSignal;
+}
+
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|context window|maximum context|prompt is too long|too many tokens|exceeds the context/i;
+const MEMORY_PATTERN = /requires more system memory|model request too large for system|insufficient memory|out of memory/i;
+const MODEL_NOT_FOUND_PATTERN = /model .*not found|model_not_found|try pulling it first|is not found for api version/i;
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+const ABORT_NAMES = ['AbortError', 'CanceledError'];
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Extract a readable message from a provider error body
+ * Handles { error: { message } } (OpenAI, Anthropic, Google), { error: '...' } (Ollama) and plain strings
+ */
+export function extractProviderErrorMessage(data: unknown): string | undefined {
+  if (!data) return undefined;
+  if (typeof data === 'string') return data;
+  if (typeof data !== 'object') return undefined;
+
+  const body = data as Record<string, any>;
+  if (typeof body.error === 'string') return body.error;
+  if (body.error && typeof body.error.message === 'string') return body.error.message;
+  if (typeof body.message === 'string') return body.message;
+  return undefined;
+}
+
+/**
+ * Create a typed error for an HTTP error response
+ */
+export function createHttpError(
+  status: number,
+  data: unknown,
+  context: LLMErrorContext,
+  headers: Record<string, any> = {},
+  cause?: unknown
+): LLMError {
+  const providerMessage = extractProviderErrorMessage(data);
+  const errorCode = (data as any)?.error?.code;
+  const options = {
+    provider: context.provider,
+    model: context.model,
+    statusCode: status,
+    details: data,
+    cause
+  };
+  const describe = (summary: string) =>
+    `${summary} (${context.provider}, HTTP ${status})${providerMessage ? `: ${providerMessage}` : ''}`;
+
+  if (providerMessage && MEMORY_PATTERN.test(providerMessage)) {
+    return new LLMInsufficientMemoryError(
+      `Insufficient memory to load model ${context.model}. Try closing other applications or using a smaller model.`,
+      options
+    );
+  }
+  if (status === 401 || status === 403) {
+    return new LLMAuthenticationError(describe('Authentication failed'), options);
+  }
+  if (status === 429) {
+    return new LLMRateLimitError(describe('Rate limit exceeded'), {
+      ...options,
+      retryAfterMs: parseRetryAfter(headers['retry-after'])
+    });
+  }
+  if (status === 413 || errorCode === 'context_length_exceeded' || (providerMessage && CONTEXT_LENGTH_PATTERN.test(providerMessage))) {
+    return new LLMContextLengthError(describe('Context length exceeded'), options);
+  }
+  if (status === 404 || errorCode === 'model_not_found' || (providerMessage && MODEL_NOT_FOUND_PATTERN.test(providerMessage))) {
+    return new LLMModelNotFoundError(describe(`Model ${context.model} not found`), options);
+  }
+  if (status === 408 || status === 504) {
+    return new LLMTimeoutError(describe('Request timed out'), { ...options, timeoutMs: context.timeoutMs });
+  }
+  if (status >= 500) {
+    return new LLMUpstreamError(describe('Provider error'), options);
+  }
+  if (status === 400 || status === 422) {
+    return new LLMInvalidRequestError(describe('Invalid request'), options);
+  }
+  return new LLMError(describe('Request failed'), options);
+}
+
+/**
+ * Convert an error raised while validating a request (before it is sent) into an LLMInvalidRequestError
+ * LLMErrors are returned unchanged
+ */
+export function toInvalidRequestError(error: unknown, context: LLMErrorContext): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMInvalidRequestError(message, { provider: context.provider, model: context.model, cause: error });
+}
+
+/**
+ * Convert any error thrown during a provider request into a typed LLMError
+ * LLMErrors are returned unchanged
+ */
+export function toLLMError(error: unknown, context: LLMErrorContext): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+
+  const anyError = error as any;
+  const message = typeof anyError?.message === 'string' ? anyError.message : String(error);
+
+  if (context.signal?.aborted || anyError?.code === 'ERR_CANCELED' || ABORT_NAMES.includes(anyError?.name)) {
+    return new LLMAbortedError(`Request to ${context.provider} was aborted`, {
+      provider: context.provider,
+      model: context.model,
+      cause: error
+    });
+  }
+
+  if (anyError && anyError.isAxiosError === true) {
+    if (anyError.response) {
+      return createHttpError(
+        anyError.response.status,
+        anyError.response.data,
+        context,
+        anyError.response.headers || {},
+        error
+      );
+    }
+
+    const options = { provider: context.provider, model: context.model, cause: error };
+    if (TIMEOUT_CODES.includes(anyError.code) || /timeout/i.test(message)) {
+      return new LLMTimeoutError(`Request to ${context.provider} timed out${context.timeoutMs ? ` after ${context.timeoutMs}ms` : ''}`, {
+        ...options,
+        timeoutMs: context.timeoutMs
+      });
+    }
+    return new LLMNetworkError(`Could not reach ${context.provider}: ${message}`, options);
+  }
+
+  if (MEMORY_PATTERN.test(message)) {
+    return new LLMInsufficientMemoryError(
+      `Insufficient memory to load model ${context.model}. Try closing other applications or using a smaller model.`,
+      { provider: context.provider, model: context.model, cause: error }
+    );
+  }
+
+  return new LLMError(message, { provider: context.provider, model: context.model, cause: error });
+}
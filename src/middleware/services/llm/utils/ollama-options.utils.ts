@@ -0,0 +1,162 @@
+/**
+ * Validation and assembly of the Ollama `options` field
+ * Every documented model parameter is forwarded; unknown request options are reported instead of dropped silently
+ */
+
+import { LLMServiceCallOptions } from '../types/common.types';
+import { OllamaModelOptions, OllamaRequestOptions } from '../types/ollama.types';
+
+interface OllamaOptionRule {
+  type: 'integer' | 'number' | 'boolean' | 'string[]';
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Value rules of the Ollama model parameters
+ */
+const OLLAMA_MODEL_OPTION_RULES: Record<keyof OllamaModelOptions, OllamaOptionRule> = {
+  temperature: { type: 'number', min: 0 },
+  num_keep: { type: 'integer', min: -1 },
+  seed: { type: 'integer' },
+  num_predict: { type: 'integer', min: -2 },
+  top_k: { type: 'integer', min: 0 },
+  top_p: { type: 'number', min: 0, max: 1 },
+  min_p: { type: 'number', min: 0, max: 1 },
+  typical_p: { type: 'number', min: 0, max: 1 },
+  repeat_last_n: { type: 'integer', min: -1 },
+  repeat_penalty: { type: 'number', min: 0 },
+  presence_penalty: { type: 'number' },
+  frequency_penalty: { type: 'number' },
+  penalize_newline: { type: 'boolean' },
+  mirostat: { type: 'integer', min: 0, max: 2 },
+  mirostat_eta: { type: 'number', min: 0 },
+  mirostat_tau: { type: 'number', min: 0 },
+  tfs_z: { type: 'number', min: 0 },
+  stop: { type: 'string[]' },
+  numa: { type: 'boolean' },
+  num_ctx: { type: 'integer', min: 1 },
+  num_batch: { type: 'integer', min: 1 },
+  num_gpu: { type: 'integer', min: -1 },
+  main_gpu: { type: 'integer', min: 0 },
+  use_mmap: { type: 'boolean' },
+  num_thread: { type: 'integer', min: 0 }
+};
+
+/**
+ * Request options that are not model parameters but are known to the provider or LLMService
+ * Typed as a complete record so that a new common option cannot be missing here
+ */
+const OLLAMA_REQUEST_OPTION_KEYS: Record<Exclude<keyof OllamaRequestOptions | keyof LLMServiceCallOptions, keyof OllamaModelOptions>, true> = {
+  model: true,
+  maxTokens: true,
+  baseUrl: true,
+  authToken: true,
+  headers: true,
+  debugContext: true,
+  sessionId: true,
+  chapterNumber: true,
+  pageNumber: true,
+  pageName: true,
+  images: true,
+  tools: true,
+  toolChoice: true,
+  responseFormat: true,
+  retry: true,
+  signal: true,
+  timeoutMs: true,
+  connectTimeoutMs: true,
+  priority: true,
+  queueTimeoutMs: true,
+  cachePolicy: true,
+  cacheTtlMs: true,
+  semanticCacheThreshold: true,
+  deduplicate: true,
+  firstTokenTimeoutMs: true,
+  providerSpecific: true,
+  keep_alive: true,
+  hosts: true,
+  provider: true,
+  fallbackChain: true
+};
+
+/**
+ * Names of all model parameters Ollama accepts in the `options` field
+ */
+export const OLLAMA_MODEL_OPTION_NAMES = Object.keys(OLLAMA_MODEL_OPTION_RULES) as Array<keyof OllamaModelOptions>;
+
+/**
+ * Validate the model parameters of a request and collect them for the `options` field
+ * Unset parameters are left out so that the model's own defaults apply; num_predict falls back to maxTokens.
+ *
+ * @param options - Request options
+ * @param defaultTemperature - Temperature used if the request sets none
+ * @throws Error naming the parameter if a value has the wrong type or is out of range
+ */
+export function buildOllamaModelOptions(options: OllamaRequestOptions, defaultTemperature: number = 0.7): OllamaModelOptions {
+  const values: Record<string, unknown> = {
+    ...options,
+    temperature: options.temperature ?? defaultTemperature,
+    num_predict: options.num_predict ?? options.maxTokens
+  };
+
+  const modelOptions: Record<string, unknown> = {};
+  for (const name of OLLAMA_MODEL_OPTION_NAMES) {
+    const value = values[name];
+    if (value === undefined) {
+      continue;
+    }
+    validateOllamaOption(name, value, OLLAMA_MODEL_OPTION_RULES[name]);
+    modelOptions[name] = value;
+  }
+  return modelOptions as OllamaModelOptions;
+}
+
+/**
+ * Find request options that neither Ollama nor the middleware knows
+ * Keys that are camelCase spellings of a model parameter (e.g. numCtx) come with a suggestion.
+ *
+ * @returns One description per unknown option, e.g. "numCtx (did you mean num_ctx?)"
+ */
+export function findUnknownOllamaOptions(options: Record<string, unknown>): string[] {
+  return Object.keys(options)
+    .filter(key => options[key] !== undefined && !(key in OLLAMA_MODEL_OPTION_RULES) && !(key in OLLAMA_REQUEST_OPTION_KEYS))
+    .map(key => {
+      const snakeCase = key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+      return snakeCase in OLLAMA_MODEL_OPTION_RULES ? `${key} (did you mean ${snakeCase}?)` : key;
+    });
+}
+
+/**
+ * Validate the keep_alive duration of a request (a duration string such as '5m' or a number of seconds)
+ * @throws Error if the value is neither
+ */
+export function validateOllamaKeepAlive(value: unknown): void {
+  if (typeof value === 'number' ? !Number.isFinite(value) : typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Ollama option keep_alive must be a duration such as '5m' or a number of seconds (got ${JSON.stringify(value)})`);
+  }
+}
+
+function validateOllamaOption(name: string, value: unknown, rule: OllamaOptionRule): void {
+  if (rule.type === 'boolean') {
+    if (typeof value !== 'boolean') {
+      throw new Error(`Ollama option ${name} must be a boolean (got ${JSON.stringify(value)})`);
+    }
+    return;
+  }
+
+  if (rule.type === 'string[]') {
+    if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+      throw new Error(`Ollama option ${name} must be an array of strings (got ${JSON.stringify(value)})`);
+    }
+    return;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || (rule.type === 'integer' && !Number.isInteger(value))) {
+    throw new Error(`Ollama option ${name} must be ${rule.type === 'integer' ? 'an integer' : 'a number'} (got ${JSON.stringify(value)})`);
+  }
+  if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+    const range = rule.max !== undefined ? `between ${rule.min} and ${rule.max}` : `at least ${rule.min}`;
+    throw new Error(`Ollama option ${name} must be ${range} (got ${value})`);
+  }
+}
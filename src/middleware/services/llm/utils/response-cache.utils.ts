@@ -0,0 +1,202 @@
+/**
+ * Response cache for repeated LLM calls (e.g. deterministic prompts in development and CI)
+ * Entries are keyed by a hash of provider, model, messages and the parameters that change the answer
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CachedResponse, ResponseCacheStore } from '../types';
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Options that do not change the answer and are left out of the cache key
+ * (connection, logging, scheduling and cache settings)
+ */
+const NON_KEY_OPTIONS = [
+  'provider',
+  'fallbackChain',
+  'baseUrl',
+  'hosts',
+  'authToken',
+  'headers',
+  'debugContext',
+  'sessionId',
+  'chapterNumber',
+  'pageNumber',
+  'pageName',
+  'retry',
+  'signal',
+  'timeoutMs',
+  'connectTimeoutMs',
+  'firstTokenTimeoutMs',
+  'priority',
+  'queueTimeoutMs',
+  'cachePolicy',
+  'cacheTtlMs',
+  'semanticCacheThreshold',
+  'deduplicate'
+];
+
+/**
+ * Request parts that identify a cached response
+ */
+export interface CacheKeyInput {
+  provider: string;
+  model?: string;
+  /** LLMService method: call uses the provider's default system message */
+  method: string;
+  userPrompt?: string;
+  systemMessage?: string;
+  messages?: unknown[];
+  options: Record<string, any>;
+}
+
+/**
+ * Serialize a value to JSON with object keys in sorted order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Build the cache key of a request (SHA-256, hex)
+ * Image attachments given as `path` are keyed by their path, not by the file content
+ */
+export function createCacheKey(input: CacheKeyInput): string {
+  const options = Object.fromEntries(
+    Object.entries(input.options).filter(([key]) => !NON_KEY_OPTIONS.includes(key))
+  );
+  return createHash('sha256')
+    .update(stableStringify({ ...input, model: input.model || '', options }))
+    .digest('hex');
+}
+
+/**
+ * Check whether a cache entry has expired
+ */
+export function isCacheEntryExpired(entry: CachedResponse, now: number = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+/**
+ * In-memory cache store that evicts the least recently used entry when full
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  private entries: Map<string, CachedResponse> = new Map();
+
+  constructor(private readonly maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error('Cache size must be a positive integer');
+    }
+  }
+
+  public async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  public async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /** Number of cached entries (including expired ones not yet read) */
+  public get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * On-disk cache store: one JSON file per entry, kept across process restarts (e.g. in a CI cache directory)
+ */
+export class FileCacheStore implements ResponseCacheStore {
+  constructor(private readonly directory: string) {
+    if (!directory) {
+      throw new Error('Cache directory must not be empty');
+    }
+  }
+
+  public async get(key: string): Promise<CachedResponse | undefined> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.getFilePath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content) as CachedResponse;
+    } catch {
+      // Unreadable entry (e.g. an interrupted write by an older version): treat as a miss
+      return undefined;
+    }
+  }
+
+  public async set(key: string, entry: CachedResponse): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so that concurrent readers never see a partial entry
+    const filePath = this.getFilePath(key);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(key), { force: true });
+  }
+
+  public async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => fs.promises.rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+
+  private getFilePath(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Helpers for requesting JSON output from providers without a native JSON mode
+ */
+
+import { ResponseFormat } from '../types';
+
+/**
+ * Build system prompt instructions describing the requested response format
+ */
+export function buildResponseFormatInstruction(format: ResponseFormat): string {
+  const instruction = 'Respond only with valid JSON. Do not wrap it in markdown code fences or add any text before or after it.';
+
+  if (format === 'json') {
+    return instruction;
+  }
+
+  return `${instruction}\nThe JSON must conform to this JSON Schema:\n${JSON.stringify(format.schema, null, 2)}`;
+}
+
+/**
+ * Append the response format instructions to an (optional) system message
+ */
+export function appendResponseFormatInstruction(systemMessage: string, format: ResponseFormat): string {
+  const instruction = buildResponseFormatInstruction(format);
+  return systemMessage ? `${systemMessage}\n\n${instruction}` : instruction;
+}
+
+/**
+ * Opening character used to prefill the assistant turn ('[' for array schemas, '{' otherwise)
+ */
+export function getResponseFormatPrefill(format: ResponseFormat): string {
+  return format !== 'json' && format.schema?.type === 'array' ? '[' : '{';
+}
@@ -0,0 +1,141 @@
+/**
+ * Retry with exponential backoff for provider requests
+ * Used by LLMService to retry transient failures (rate limits, timeouts, 5xx, network errors)
+ */
+
+import { RetryPolicy } from '../types';
+import { LLMError, LLMRateLimitError } from '../errors';
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'retryOn' | 'deadlineMs'>> &
+  Pick<RetryPolicy, 'retryOn' | 'deadlineMs'>;
+
+/**
+ * Information about a scheduled retry
+ */
+export interface RetryAttemptInfo {
+  /** The attempt that failed (1 = first request) */
+  attempt: number;
+  maxAttempts: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** Whether the delay was taken from the error's Retry-After */
+  fromRetryAfter: boolean;
+  error: unknown;
+}
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  jitter: true,
+  respectRetryAfter: true
+};
+
+/**
+ * Merge a per-call policy over a global policy
+ * @returns null if retries are disabled (no policy configured, or the call passes false)
+ */
+export function resolveRetryPolicy(
+  globalPolicy: RetryPolicy | false | undefined,
+  callPolicy: RetryPolicy | false | undefined
+): ResolvedRetryPolicy | null {
+  if (callPolicy === false || (!callPolicy && !globalPolicy)) {
+    return null;
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...(globalPolicy || {}), ...(callPolicy || {}) };
+}
+
+/**
+ * Check whether a failed attempt may be retried under the policy
+ */
+export function isRetryableError(error: unknown, attempt: number, policy: ResolvedRetryPolicy): boolean {
+  const { retryOn } = policy;
+  if (typeof retryOn === 'function') {
+    return retryOn(error, attempt);
+  }
+  if (Array.isArray(retryOn)) {
+    return retryOn.some(errorClass => error instanceof errorClass);
+  }
+  return error instanceof LLMError && error.retryable;
+}
+
+/**
+ * Compute the backoff delay before a retry
+ * @param retry - Number of the retry (1 = first retry)
+ */
+export function computeRetryDelay(policy: ResolvedRetryPolicy, retry: number, random: () => number = Math.random): number {
+  const exponential = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry - 1);
+  const delay = Math.min(exponential, policy.maxDelayMs);
+  if (!policy.jitter) {
+    return delay;
+  }
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+/**
+ * Run an operation and retry it according to the policy
+ * Rate limit errors with Retry-After wait as requested; waits longer than maxDelayMs are not retried.
+ * The last error is thrown when attempts, retryable errors or the deadline run out.
+ *
+ * @param operation - The request to run; receives the attempt number (1 = first request)
+ * @param policy - Resolved policy, or null to run the operation once
+ * @param onRetry - Called before waiting for each retry (e.g. for logging)
+ * @param signal - Stops retrying once aborted; a pending delay ends early so the operation can fail fast
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: ResolvedRetryPolicy | null,
+  onRetry?: (info: RetryAttemptInfo) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!policy) {
+    return operation(1);
+  }
+
+  const startTime = Date.now();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryableError(error, attempt, policy)) {
+        throw error;
+      }
+
+      let delayMs = computeRetryDelay(policy, attempt);
+      const retryAfterMs = error instanceof LLMRateLimitError ? error.retryAfterMs : undefined;
+      const fromRetryAfter = policy.respectRetryAfter && retryAfterMs !== undefined;
+      if (fromRetryAfter) {
+        if (retryAfterMs! > policy.maxDelayMs) {
+          throw error;
+        }
+        delayMs = retryAfterMs!;
+      }
+
+      if (policy.deadlineMs !== undefined && Date.now() - startTime + delayMs > policy.deadlineMs) {
+        throw error;
+      }
+
+      onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, fromRetryAfter: !!fromRetryAfter, error });
+      await waitForRetry(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Wait before a retry; resolves early when the signal is aborted
+ */
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
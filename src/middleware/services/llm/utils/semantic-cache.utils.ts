@@ -0,0 +1,139 @@
+/**
+ * Semantic matching for the response cache
+ * Keeps prompt vectors per scope (provider, model, system message, earlier messages and parameters)
+ * so that near-identical prompts can be answered with a cached response of the same scope
+ */
+
+import { ChatMessage } from '../types';
+import { CacheKeyInput, createCacheKey } from './response-cache.utils';
+
+export const DEFAULT_SEMANTIC_CACHE_THRESHOLD = 0.95;
+export const DEFAULT_SEMANTIC_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Cached prompt that is similar enough to a new prompt
+ */
+export interface SemanticCacheMatch {
+  /** Cache key of the matching entry */
+  key: string;
+  /** Cosine similarity of the two prompts */
+  similarity: number;
+}
+
+/**
+ * Prompt of a request and the scope it may be matched in
+ */
+export interface SemanticCachePrompt {
+  /** Text that is embedded and compared */
+  text: string;
+  /** Hash of everything but the prompt: provider, model, method, system message, earlier messages and parameters */
+  scope: string;
+}
+
+interface IndexedPrompt {
+  scope: string;
+  vector: number[];
+}
+
+/**
+ * Cosine similarity of two vectors (1 = same direction)
+ * Vectors of different length (e.g. from different embedding models) never match and return 0
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Get the prompt of a request for semantic matching
+ * @returns undefined if the request has no matchable prompt (the last message is no user message or has images)
+ */
+export function getSemanticCachePrompt(input: CacheKeyInput): SemanticCachePrompt | undefined {
+  const messages = input.messages as ChatMessage[] | undefined;
+  const last = messages?.[messages.length - 1];
+  if (messages && (last?.role !== 'user' || (last.images && last.images.length > 0))) {
+    return undefined;
+  }
+
+  const text = last ? last.content : input.userPrompt;
+  if (!text?.trim()) {
+    return undefined;
+  }
+  return {
+    text,
+    scope: createCacheKey({ ...input, userPrompt: undefined, messages: messages?.slice(0, -1) })
+  };
+}
+
+/**
+ * In-memory index of prompt vectors, evicting the least recently used prompt when full
+ */
+export class SemanticCacheIndex {
+  private prompts: Map<string, IndexedPrompt> = new Map();
+
+  constructor(private readonly maxEntries: number = DEFAULT_SEMANTIC_CACHE_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error('Semantic cache size must be a positive integer');
+    }
+  }
+
+  /**
+   * Add (or replace) the prompt vector of a cache entry
+   */
+  public add(key: string, scope: string, vector: number[]): void {
+    this.prompts.delete(key);
+    this.prompts.set(key, { scope, vector });
+    if (this.prompts.size > this.maxEntries) {
+      this.prompts.delete(this.prompts.keys().next().value!);
+    }
+  }
+
+  /**
+   * Find the most similar prompt of the same scope
+   * @returns The best match at or above the threshold, or undefined
+   */
+  public findMatch(scope: string, vector: number[], threshold: number): SemanticCacheMatch | undefined {
+    let best: SemanticCacheMatch | undefined;
+    this.prompts.forEach((prompt, key) => {
+      if (prompt.scope !== scope) {
+        return;
+      }
+      const similarity = cosineSimilarity(prompt.vector, vector);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { key, similarity };
+      }
+    });
+
+    if (best) {
+      // Re-insert to mark the prompt as most recently used
+      const prompt = this.prompts.get(best.key)!;
+      this.prompts.delete(best.key);
+      this.prompts.set(best.key, prompt);
+    }
+    return best;
+  }
+
+  public remove(key: string): void {
+    this.prompts.delete(key);
+  }
+
+  public clear(): void {
+    this.prompts.clear();
+  }
+
+  /** Number of indexed prompts */
+  public get size(): number {
+    return this.prompts.size;
+  }
+}
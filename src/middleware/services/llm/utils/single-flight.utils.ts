@@ -0,0 +1,118 @@
+/**
+ * Single-flight deduplication: concurrent identical requests share one provider call
+ * Keeps N clients that send the same input at once from paying for N identical generations
+ */
+
+import { LLMAbortedError } from '../errors';
+import { CacheKeyInput, createCacheKey } from './response-cache.utils';
+
+/**
+ * Outcome of a deduplicated request
+ */
+export interface SingleFlightResult<T> {
+  result: T;
+  /** true if the request joined a call that another request had started */
+  shared: boolean;
+}
+
+/**
+ * Build the key of a request for deduplication
+ * Unlike the cache key, it includes the connection (base URL, hosts, credentials, headers) and the timeout:
+ * requests of different tenants or hosts must not share a call, nor may a request wait longer than it allows.
+ */
+export function createDeduplicationKey(input: CacheKeyInput): string {
+  const { baseUrl, hosts, authToken, headers, timeoutMs } = input.options;
+  return createCacheKey({
+    ...input,
+    options: { ...input.options, $connection: { baseUrl, hosts, authToken, headers, timeoutMs } }
+  });
+}
+
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Requests still waiting for the result */
+  waiters: number;
+}
+
+export class SingleFlight {
+  private flights: Map<string, Flight<any>> = new Map();
+
+  /**
+   * Run a request, or join the identical request that is already in flight
+   * The shared call gets its own signal, which aborts once every waiting request has been aborted.
+   * A request aborted while others still wait leaves with LLMAbortedError; the call continues for the others.
+   *
+   * @param key - Identity of the request (requests with the same key share one call)
+   * @param provider - Provider name for error messages
+   * @param signal - Signal of this request
+   * @param request - Starts the call with the shared signal
+   * @param copy - Copies the result for requests that joined, so that callers cannot see each other's changes
+   */
+  public run<T>(
+    key: string,
+    provider: string,
+    signal: AbortSignal | undefined,
+    request: (signal: AbortSignal) => Promise<T>,
+    copy: (result: T) => T = result => result
+  ): Promise<SingleFlightResult<T>> {
+    if (signal?.aborted) {
+      return Promise.reject(new LLMAbortedError(`Request to ${provider} was aborted`, { provider }));
+    }
+
+    let flight: Flight<T> | undefined = this.flights.get(key);
+    const shared = !!flight;
+    if (!flight) {
+      const controller = new AbortController();
+      const started: Flight<T> = { promise: request(controller.signal), controller, waiters: 0 };
+      // Waiters that left early must not cause an unhandled rejection
+      started.promise.catch(() => undefined);
+      started.promise.finally(() => this.remove(key, started)).catch(() => undefined);
+      this.flights.set(key, started);
+      flight = started;
+    }
+    const current = flight;
+    current.waiters++;
+
+    return new Promise<SingleFlightResult<T>>((resolve, reject) => {
+      let left = false;
+      const onAbort = (): void => {
+        current.waiters--;
+        if (current.waiters > 0) {
+          left = true;
+          reject(new LLMAbortedError(`Request to ${provider} was aborted`, { provider }));
+          return;
+        }
+        // Last waiter: cancel the call and report its outcome (usually the provider's LLMAbortedError)
+        this.remove(key, current);
+        current.controller.abort();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      current.promise.then(
+        result => {
+          signal?.removeEventListener('abort', onAbort);
+          // Copied right away, before the starting request's caller can modify the result
+          if (!left) resolve({ result: shared ? copy(result) : result, shared });
+        },
+        error => {
+          signal?.removeEventListener('abort', onAbort);
+          if (!left) reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Number of calls currently in flight
+   */
+  public get size(): number {
+    return this.flights.size;
+  }
+
+  private remove(key: string, flight: Flight<any>): void {
+    if (this.flights.get(key) === flight) {
+      this.flights.delete(key);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Helpers for consuming streamed HTTP responses from LLM providers
+ * Supports newline-delimited JSON (Ollama) and Server-Sent Events (Anthropic, OpenAI)
+ */
+
+/**
+ * A single Server-Sent Event
+ */
+export interface SSEEvent {
+  /** Event name (defaults to 'message' when the server sends none) */
+  event: string;
+  /** Raw data payload (multiple data lines are joined with '\n') */
+  data: string;
+}
+
+/**
+ * Split a byte/string stream into lines
+ * Handles chunks that end in the middle of a line and both \n and \r\n line endings
+ */
+export async function* readLines(
+  stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<string> {
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : chunk.toString('utf8');
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+      yield line;
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.length > 0) {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+/**
+ * Parse a newline-delimited JSON stream, skipping empty lines
+ */
+export async function* parseNDJSON<T = any>(
+  stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<T> {
+  for await (const line of readLines(stream)) {
+    if (line.trim().length === 0) continue;
+    yield JSON.parse(line) as T;
+  }
+}
+
+/**
+ * Parse a Server-Sent Events stream into events
+ * Comment lines (starting with ':') are ignored
+ */
+export async function* parseSSE(
+  stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<SSEEvent> {
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  for await (const line of readLines(stream)) {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        yield { event: eventName || 'message', data: dataLines.join('\n') };
+      }
+      eventName = '';
+      dataLines = [];
+      continue;
+    }
+
+    if (line.startsWith(':')) continue;
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      eventName = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length > 0) {
+    yield { event: eventName || 'message', data: dataLines.join('\n') };
+  }
+}
+
+/**
+ * Read a complete stream into a string (e.g. the body of a failed streaming request)
+ */
+export async function readStreamToString(stream: AsyncIterable<Buffer | string>): Promise<string> {
+  let result = '';
+  for await (const chunk of stream) {
+    result += typeof chunk === 'string' ? chunk : chunk.toString('utf8');
+  }
+  return result;
+}
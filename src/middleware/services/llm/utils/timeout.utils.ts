@@ -0,0 +1,93 @@
+/**
+ * Request timeouts for provider calls
+ * Non-streaming requests use the axios timeout; streams get separate connect, first-token and total limits
+ */
+
+import { LLMTimeoutError } from '../errors';
+import { LLMErrorContext } from './llm-error.utils';
+
+/** Default time limit for a request (and for a stream until its response headers arrive) */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 90000;
+
+/**
+ * Time limits of a streaming request, both counted from the start of the request
+ */
+export interface StreamTimeoutOptions {
+  /** Time limit until the first token */
+  firstTokenTimeoutMs?: number;
+  /** Time limit for the whole stream */
+  totalTimeoutMs?: number;
+}
+
+type StreamTimeoutPhase = 'first-token' | 'total';
+
+/**
+ * Enforces first-token and total timeouts on a stream
+ * Pass `signal` to axios instead of the caller's signal: it aborts when the caller aborts
+ * or a limit expires, which destroys the response stream. Use createError() in the catch
+ * block to tell an expired limit apart from a cancellation.
+ */
+export class StreamTimeouts {
+  public readonly signal: AbortSignal;
+  private readonly controller = new AbortController();
+  private firstTokenTimer?: NodeJS.Timeout;
+  private totalTimer?: NodeJS.Timeout;
+  private expired?: StreamTimeoutPhase;
+  private readonly forwardAbort = () => this.controller.abort();
+
+  constructor(private readonly options: StreamTimeoutOptions, private readonly parentSignal?: AbortSignal) {
+    this.signal = this.controller.signal;
+
+    if (parentSignal?.aborted) {
+      this.controller.abort();
+    } else {
+      parentSignal?.addEventListener('abort', this.forwardAbort, { once: true });
+    }
+
+    if (options.firstTokenTimeoutMs) {
+      this.firstTokenTimer = setTimeout(() => this.expire('first-token'), options.firstTokenTimeoutMs);
+    }
+    if (options.totalTimeoutMs) {
+      this.totalTimer = setTimeout(() => this.expire('total'), options.totalTimeoutMs);
+    }
+  }
+
+  /**
+   * Stop the first-token timer (call for each received token)
+   */
+  public tokenReceived(): void {
+    clearTimeout(this.firstTokenTimer);
+  }
+
+  /**
+   * Build the timeout error if a limit expired, otherwise undefined
+   */
+  public createError(context: LLMErrorContext): LLMTimeoutError | undefined {
+    if (!this.expired) {
+      return undefined;
+    }
+
+    const timeoutMs = this.expired === 'first-token' ? this.options.firstTokenTimeoutMs : this.options.totalTimeoutMs;
+    const message = this.expired === 'first-token'
+      ? `No first token from ${context.provider} within ${timeoutMs}ms`
+      : `Stream from ${context.provider} did not complete within ${timeoutMs}ms`;
+    return new LLMTimeoutError(message, { provider: context.provider, model: context.model, timeoutMs });
+  }
+
+  /**
+   * Clear all timers and detach from the caller's signal
+   */
+  public dispose(): void {
+    clearTimeout(this.firstTokenTimer);
+    clearTimeout(this.totalTimer);
+    this.parentSignal?.removeEventListener('abort', this.forwardAbort);
+  }
+
+  private expire(phase: StreamTimeoutPhase): void {
+    if (this.signal.aborted) {
+      return;
+    }
+    this.expired = phase;
+    this.controller.abort();
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Helpers for normalizing tool calls returned by LLM providers
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { JsonCleanerService } from '../../json-cleaner';
+import { ChatMessage, ToolCall } from '../types';
+
+/**
+ * Parse tool call arguments into an object
+ * Objects are returned unchanged; strings are parsed as JSON and, if that fails,
+ * repaired with the JsonCleanerService (models often emit slightly malformed JSON)
+ */
+export async function parseToolArguments(
+  rawArguments: unknown
+): Promise<Pick<ToolCall, 'arguments' | 'rawArguments' | 'argumentsError'>> {
+  if (rawArguments === undefined || rawArguments === null) {
+    return { arguments: {} };
+  }
+
+  if (typeof rawArguments === 'object' && !Array.isArray(rawArguments)) {
+    return { arguments: rawArguments as Record<string, any> };
+  }
+
+  if (typeof rawArguments !== 'string') {
+    return { arguments: {}, argumentsError: `Unsupported arguments type: ${typeof rawArguments}` };
+  }
+
+  if (rawArguments.trim().length === 0) {
+    return { arguments: {}, rawArguments };
+  }
+
+  try {
+    return { arguments: JSON.parse(rawArguments), rawArguments };
+  } catch {
+    // Fall through to JSON cleaning
+  }
+
+  try {
+    const { cleanedJson } = await JsonCleanerService.processResponseAsync(rawArguments);
+    const parsed = JSON.parse(cleanedJson);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { arguments: parsed, rawArguments };
+    }
+    return { arguments: {}, rawArguments, argumentsError: 'Arguments are not a JSON object' };
+  } catch (error) {
+    return {
+      arguments: {},
+      rawArguments,
+      argumentsError: error instanceof Error ? error.message : 'Could not parse arguments'
+    };
+  }
+}
+
+/**
+ * Build a normalized tool call from provider data
+ * @param name - Tool name
+ * @param rawArguments - Arguments as object or JSON string
+ * @param id - Provider call ID (generated if missing)
+ */
+export async function createToolCall(name: string, rawArguments: unknown, id?: string): Promise<ToolCall> {
+  return {
+    id: id || `call_${uuidv4()}`,
+    name,
+    ...(await parseToolArguments(rawArguments))
+  };
+}
+
+/**
+ * Check whether a conversation uses tool calling (tool results or assistant tool calls)
+ */
+export function hasToolMessages(messages: ChatMessage[]): boolean {
+  return messages.some(message => message.role === 'tool' || (message.toolCalls?.length ?? 0) > 0);
+}
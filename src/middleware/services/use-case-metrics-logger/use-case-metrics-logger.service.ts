@@ -20,6 +20,18 @@ export interface UseCaseMetrics {
   presencePenalty?: number;
   repeatLastN?: number;
   numPredict?: number;
+  /** Provider that answered */
+  provider?: string;
+  /** Index of the fallback step that answered (only set when a fallback chain was used) */
+  fallbackStep?: number;
+  /** Number of failed fallback steps before the answer */
+  fallbackAttempts?: number;
+  /** Time the request waited for a free slot of the endpoint (only set when concurrency is limited) */
+  queueWaitMs?: number;
+  /** Requests queued ahead of this one when it arrived (only set when concurrency is limited) */
+  queueDepth?: number;
+  /** Whether the response came from the response cache (only set when the cache was used) */
+  cacheHit?: boolean;
 }
 
 /**
@@ -87,9 +99,12 @@ export class UseCaseMetricsLoggerService {
   public static logCompletion(useCaseName: string, metrics: UseCaseMetrics): void {
     const statusInfo = metrics.success ? 'SUCCESS' : 'WITH ERRORS';
     const errorInfo = metrics.errorMessage ? ` Error: ${metrics.errorMessage}` : '';
+    const fallbackInfo = metrics.fallbackStep ? `, Fallback: step ${metrics.fallbackStep} (${metrics.provider})` : '';
+    const queueInfo = metrics.queueWaitMs ? `, Queued: ${metrics.queueWaitMs}ms behind ${metrics.queueDepth} requests` : '';
+    const cacheInfo = metrics.cacheHit !== undefined ? `, Cache: ${metrics.cacheHit ? 'hit' : 'miss'}` : '';
     const executionTimeFormatted = metrics.executionTimeSeconds.toFixed(2);
 
-    const logMessage = `Completed AI use case [${useCaseName} = ${metrics.modelName}] ${statusInfo} - Time: ${executionTimeFormatted}s, Input tokens: ${metrics.inputTokenCount}, Output tokens: ${metrics.outputTokenCount}, Speed: ${metrics.tokensPerSecond} tokens/sec${errorInfo}`;
+    const logMessage = `Completed AI use case [${useCaseName} = ${metrics.modelName}] ${statusInfo} - Time: ${executionTimeFormatted}s, Input tokens: ${metrics.inputTokenCount}, Output tokens: ${metrics.outputTokenCount}, Speed: ${metrics.tokensPerSecond} tokens/sec${fallbackInfo}${queueInfo}${cacheInfo}${errorInfo}`;
 
     if (metrics.success) {
       logger.info(logMessage, {
@@ -1,8 +1,30 @@
 import { LLMModelConfig, ValidatedLLMModelConfig, ModelsConfigMap } from '../types';
+import { logger } from '../utils/logging.utils';
+import { parseHostList } from '../../services/llm/utils/host-balancer.utils';
 
 // Re-export for compatibility
 export { LLMModelConfig, ValidatedLLMModelConfig, ModelsConfigMap };
 
+/**
+ * Read a timeout in milliseconds from an environment variable
+ * Values that are not a positive integer are ignored with a warning, so the default timeout applies.
+ */
+function readTimeoutMs(variable: string): number | undefined {
+  const value = process.env[variable];
+  if (!value) {
+    return undefined;
+  }
+
+  const timeoutMs = Number(value);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    logger.warn(`Ignoring ${variable}: expected a positive number of milliseconds, got "${value}"`, {
+      context: 'ModelsConfig'
+    });
+    return undefined;
+  }
+  return timeoutMs;
+}
+
 /**
  * Default model configurations
  * Override these by setting environment variables
@@ -11,8 +33,10 @@ export const MODELS: ModelsConfigMap = {
   'MODEL1': {
     name: process.env.MODEL1_NAME,
     baseUrl: process.env.MODEL1_URL || 'http://localhost:11434',
+    baseUrls: parseHostList(process.env.MODEL1_URLS),
     bearerToken: process.env.MODEL1_TOKEN,
     temperature: 0.8,
+    timeoutMs: readTimeoutMs('MODEL1_TIMEOUT_MS'),
     description: 'Primary model for all text generation tasks'
   }
 };
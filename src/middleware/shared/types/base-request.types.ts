@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import { ClientInfo } from './client-info';
+import { ImageAttachment } from '../../services/llm/types';
 
 /**
  * Extended Express Request interface with user and client info
@@ -16,6 +17,13 @@ export interface RequestWithUser extends Request {
 export interface BaseAIRequest<TPrompt = string> {
   prompt: TPrompt;
   authToken?: string;
+  /**
+   * Images sent along with the prompt (multimodal models)
+   * Inline `data` only: requests may come from HTTP clients, so attachments with a server-side `path` are rejected
+   */
+  images?: Array<Omit<ImageAttachment, 'path'>>;
+  /** Cancels the LLM request when aborted (see BaseController.handleRequest) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -6,8 +6,10 @@ export * from './base-request.types';
 export interface LLMModelConfig {
   name: string | undefined;  // Can be undefined if not set in env
   baseUrl: string;
+  baseUrls?: string[];  // Several hosts serving the model; requests are load-balanced between them (Ollama)
   bearerToken?: string;
   temperature: number;
+  timeoutMs?: number;  // Request timeout in milliseconds (default: 90000)
   description?: string;
 }
 
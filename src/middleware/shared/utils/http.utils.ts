@@ -5,6 +5,8 @@ interface ResponseData {
   success?: boolean;
   data?: any;
   error?: string;
+  /** Machine-readable error code (e.g. 'rate_limit' for LLM errors) */
+  code?: string;
   timestamp: string;
   clientInfo?: ClientInfo;
 }
@@ -29,12 +31,14 @@ export function sendResponse(
   res: Response, 
   status: number, 
   data: any, 
-  clientInfo?: ClientInfo
+  clientInfo?: ClientInfo,
+  code?: string
 ): void {
   const responseData: ResponseData = {
     success: status < 400,
     data: status < 400 ? data : undefined,
     error: status >= 400 ? data : undefined,
+    ...(code && { code }),
     timestamp: new Date().toISOString(),
     clientInfo
   };
@@ -60,7 +64,8 @@ export function sendErrorResponse(
   res: Response, 
   status: number, 
   error: string, 
-  clientInfo?: ClientInfo
+  clientInfo?: ClientInfo,
+  code?: string
 ): void {
-  sendResponse(res, status, error, clientInfo);
+  sendResponse(res, status, error, clientInfo, code);
 }
\ No newline at end of file
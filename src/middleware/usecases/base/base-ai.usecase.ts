@@ -1,4 +1,4 @@
-import { llmService, LLMProvider } from '../../services/llm';
+import { llmService, LLMProvider, ResponseFormat, FallbackStep, LLMError, LLMInvalidRequestError, RequestPriority, CachePolicy } from '../../services/llm';
 import { getModelConfig, ModelConfigKey, ValidatedLLMModelConfig } from '../../shared/config/models.config';
 import { ResponseProcessorService } from '../../services/response-processor.service';
 import { ResponseProcessingOptions } from '../../services/response-processor/types';
@@ -98,12 +98,72 @@ export abstract class BaseAIUseCase<
   /**
    * Get the LLM provider to use for this use case
    * Override this method in child classes to use different providers (e.g., Anthropic, OpenAI)
+   * Return a custom name to use a provider registered via llmService.registerProvider()
    * @returns The LLM provider to use (default: OLLAMA)
    */
-  protected getProvider(): LLMProvider {
+  protected getProvider(): LLMProvider | string {
     return LLMProvider.OLLAMA; // Default: Ollama for backward compatibility
   }
 
+  /**
+   * Get the response format to request from the provider
+   * Override this method in child classes that expect JSON output to let the provider
+   * enforce it (Ollama `format`, OpenAI `response_format`, ...) instead of relying on JSON cleaning alone
+   * @returns 'json', { schema } or undefined for free-form output (default)
+   */
+  protected getResponseFormat(): ResponseFormat | undefined {
+    return undefined; // Default: no enforced format
+  }
+
+  /**
+   * Get the fallback chain for this use case
+   * Override this method in child classes to try other models or providers when the
+   * configured one fails, times out or answers empty (see LLMService.registerFallbackChain)
+   * @returns The name of a registered chain, inline steps, or undefined for no fallback (default)
+   */
+  protected getFallbackChain(): string | FallbackStep[] | undefined {
+    return undefined; // Default: no fallback
+  }
+
+  /**
+   * Get the request timeout for this use case
+   * Override this method in child classes with unusually long (or short) generations
+   * @returns Timeout in milliseconds, or undefined for the provider default of 90000
+   */
+  protected getTimeoutMs(): number | undefined {
+    return this.modelConfig.timeoutMs; // Default: timeout of the model config
+  }
+
+  /**
+   * Get the queue priority for this use case
+   * Only takes effect when LLMService limits concurrent requests (see LLMService.setConcurrencyLimit);
+   * override with 'interactive' for user-facing use cases or 'batch' for background jobs
+   * @returns The priority, or undefined for 'normal' (default)
+   */
+  protected getPriority(): RequestPriority | undefined {
+    return undefined; // Default: normal priority
+  }
+
+  /**
+   * Get the response cache policy for this use case
+   * Only takes effect when LLMService has a response cache (see LLMService.setResponseCache);
+   * override with 'bypass' for use cases that must always ask the model
+   * @returns The policy, or undefined for 'use' (default)
+   */
+  protected getCachePolicy(): CachePolicy | undefined {
+    return undefined; // Default: use the cache
+  }
+
+  /**
+   * Get the minimum prompt similarity for semantic cache hits of this use case
+   * Only takes effect when the response cache has semantic matching enabled; raise it for
+   * use cases where small wording changes matter, or return 1 for exact matches only
+   * @returns Cosine similarity between 0 and 1, or undefined for the cache default (default)
+   */
+  protected getSemanticCacheThreshold(): number | undefined {
+    return undefined; // Default: threshold of the cache config
+  }
+
   /**
    * Execute the AI use case
    * @param request The request parameters
@@ -114,6 +174,14 @@ export abstract class BaseAIUseCase<
       throw new Error('Valid prompt must be provided');
     }
 
+    // The type excludes path, but request bodies are not type-checked
+    if (request.images?.some(image => 'path' in image)) {
+      throw new LLMInvalidRequestError('Request images must contain inline data, file paths are not accepted', {
+        provider: String(this.getProvider()),
+        model: this.modelConfig.name
+      });
+    }
+
     // Format the raw prompt using formatUserMessage
     const formattedPrompt = this.formatUserMessage(request.prompt);
     
@@ -161,8 +229,19 @@ export abstract class BaseAIUseCase<
           model: this.modelConfig.name,
           temperature: validatedParams.temperature,
           authToken: this.modelConfig.bearerToken,
-          baseUrl: this.modelConfig.baseUrl,
+          // Several hosts: the provider balances between them instead of using baseUrl
+          ...(this.modelConfig.baseUrls?.length
+            ? { hosts: this.modelConfig.baseUrls }
+            : { baseUrl: this.modelConfig.baseUrl }),
           provider: provider,
+          responseFormat: this.getResponseFormat(),
+          fallbackChain: this.getFallbackChain(),
+          images: request.images,
+          signal: request.signal,
+          timeoutMs: this.getTimeoutMs(),
+          priority: this.getPriority(),
+          cachePolicy: this.getCachePolicy(),
+          semanticCacheThreshold: this.getSemanticCacheThreshold(),
           // Provider-agnostic maxTokens (works for Anthropic, OpenAI, Google, Ollama)
           // Maps from overrides.maxTokens or overrides.num_predict via getEffectiveParameters
           maxTokens: validatedParams.numPredict,
@@ -173,14 +252,18 @@ export abstract class BaseAIUseCase<
       );
 
       if (!result || !result.message) {
-        throw new Error('No response received from the LLM provider');
+        throw new LLMError('No response received from the LLM provider', {
+          provider: String(provider),
+          model: this.modelConfig.name
+        });
       }
 
       // Process the response using processResponse() method (uses getResponseProcessingOptions())
       const { cleanedJson: processedContent, thinking: extractedThinking } =
         await this.processResponse(result.message.content);
 
-      thinking = extractedThinking;
+      // Prefer provider-reported reasoning (e.g. Anthropic thinking blocks) over <think> tags
+      thinking = result.thinking || extractedThinking;
       success = true;
 
       // Extract actual token counts from provider response if available
@@ -194,6 +277,11 @@ export abstract class BaseAIUseCase<
         };
       }
 
+      // Report the model and provider that actually answered when a fallback chain was used
+      const fallback = result.metadata?.fallback;
+      const queue = result.metadata?.queue;
+      const cache = result.metadata?.cache;
+
       // Calculate and log metrics
       const metrics = UseCaseMetricsLoggerService.calculateMetrics(
         startTime,
@@ -201,7 +289,7 @@ export abstract class BaseAIUseCase<
         formattedUserMessage,
         result.message.content,
         thinking,
-        this.modelConfig.name,
+        fallback?.model || this.modelConfig.name,
         success,
         errorMessage,
         definedParams,
@@ -209,10 +297,22 @@ export abstract class BaseAIUseCase<
       );
 
       // Log completion with metrics
-      UseCaseMetricsLoggerService.logCompletion(this.constructor.name, metrics);
+      UseCaseMetricsLoggerService.logCompletion(this.constructor.name, {
+        ...metrics,
+        provider: result.metadata?.provider || String(provider),
+        ...(fallback && {
+          fallbackStep: fallback.step,
+          fallbackAttempts: fallback.attempts.length
+        }),
+        ...(queue && {
+          queueWaitMs: queue.waitMs,
+          queueDepth: queue.queueDepth
+        }),
+        ...(cache && { cacheHit: cache.hit })
+      });
 
       // Create and return the result
-      return this.createResult(processedContent, formattedUserMessage, extractedThinking);
+      return this.createResult(processedContent, formattedUserMessage, thinking);
     } catch (error) {
       errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -89,5 +89,33 @@ describe('Model Config Validation', () => {
       
       expect(config.bearerToken).toBe('test-token-123');
     });
+
+    it('should read timeoutMs from MODEL1_TIMEOUT_MS', () => {
+      process.env.MODEL1_NAME = 'test-model';
+      process.env.MODEL1_TIMEOUT_MS = '300000';
+
+      const { getModelConfig } = require('../../../src/middleware/shared/config/models.config');
+
+      expect(getModelConfig('MODEL1').timeoutMs).toBe(300000);
+
+      delete process.env.MODEL1_TIMEOUT_MS;
+    });
+
+    it('should ignore a MODEL1_TIMEOUT_MS that is not a positive integer', () => {
+      process.env.MODEL1_NAME = 'test-model';
+      process.env.MODEL1_TIMEOUT_MS = '30s';
+      const { logger } = require('../../../src/middleware/shared/utils/logging.utils');
+      const warnSpy = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+      const { getModelConfig } = require('../../../src/middleware/shared/config/models.config');
+
+      expect(getModelConfig('MODEL1').timeoutMs).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith('Ignoring MODEL1_TIMEOUT_MS: expected a positive number of milliseconds, got "30s"', {
+        context: 'ModelsConfig'
+      });
+
+      warnSpy.mockRestore();
+      delete process.env.MODEL1_TIMEOUT_MS;
+    });
   });
 });
@@ -0,0 +1,172 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { Response } from 'express';
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  OllamaProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  GoogleProvider,
+  LLMAbortedError,
+  LLMUpstreamError
+} from '../../../src/middleware/services/llm';
+import { BaseController } from '../../../src/middleware/controllers/base/base.controller';
+import { RequestWithUser } from '../../../src/middleware/shared/types/base-request.types';
+
+/**
+ * Provider stub that fails with a retryable error and honors aborted signals
+ */
+class UnstableProvider extends BaseLLMProvider {
+  public calls = 0;
+
+  constructor() {
+    super('unstable' as LLMProvider);
+  }
+
+  async callWithSystemMessage(_userPrompt: string, _systemMessage: string, options: CommonLLMOptions): Promise<CommonLLMResponse | null> {
+    this.calls++;
+    if (options.signal?.aborted) {
+      throw new LLMAbortedError('Request to unstable was aborted', { provider: 'unstable' });
+    }
+    throw new LLMUpstreamError('Provider error (unstable, HTTP 503)', { provider: 'unstable' });
+  }
+}
+
+describe('AbortSignal cancellation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should abort a pending Ollama request', async () => {
+    // Server that accepts requests but never answers
+    const server = http.createServer(() => undefined);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const controller = new AbortController();
+    const provider = new OllamaProvider({ baseUrl: `http://127.0.0.1:${port}`, model: 'llama3.1' });
+
+    try {
+      setTimeout(() => controller.abort(), 20);
+      const error = await provider.callWithSystemMessage('Hi', 'Be brief', { signal: controller.signal }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(LLMAbortedError);
+      expect(error.message).toBe('Request to ollama was aborted');
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  it.each([
+    ['OpenAI', () => new OpenAIProvider(), { authToken: 'sk-test', model: 'gpt-4o-mini' }],
+    ['Anthropic', () => new AnthropicProvider(), { authToken: 'sk-ant-test', model: 'claude-3-5-haiku-20241022' }],
+    ['Google', () => new GoogleProvider(), { authToken: 'google-key', model: 'gemini-2.0-flash' }]
+  ])('should pass the signal to axios for %s', async (_name, createProvider, options) => {
+    const postSpy = jest.spyOn(axios, 'post').mockRejectedValue(new axios.CanceledError('canceled'));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createProvider().callWithSystemMessage('Hi', 'Be brief', { ...options, signal: controller.signal }))
+      .rejects.toBeInstanceOf(LLMAbortedError);
+    expect(postSpy.mock.calls[0][2]?.signal).toBe(controller.signal);
+  });
+
+  it('should stop waiting for retries when the call is aborted', async () => {
+    const service = new LLMService();
+    const provider = new UnstableProvider();
+    service.registerProvider('unstable', provider);
+    const controller = new AbortController();
+    const startTime = Date.now();
+
+    setTimeout(() => controller.abort(), 20);
+    await expect(service.call('Hi', {
+      provider: 'unstable',
+      signal: controller.signal,
+      retry: { maxAttempts: 5, initialDelayMs: 5000 }
+    })).rejects.toBeInstanceOf(LLMAbortedError);
+
+    expect(Date.now() - startTime).toBeLessThan(2000);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('should not fall back after the call was aborted', async () => {
+    const service = new LLMService();
+    const first = new UnstableProvider();
+    const second = new UnstableProvider();
+    service.registerProvider('first', first);
+    service.registerProvider('second', second);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(service.call('Hi', {
+      signal: controller.signal,
+      fallbackChain: [{ provider: 'first' }, { provider: 'second' }]
+    })).rejects.toBeInstanceOf(LLMAbortedError);
+    expect(second.calls).toBe(0);
+  });
+});
+
+/**
+ * Controller exposing handleRequest for tests
+ */
+class TestController extends BaseController {
+  public handle(req: RequestWithUser, res: Response, handler: (signal: AbortSignal) => Promise<any>): Promise<void> {
+    return this.handleRequest(req, res, handler);
+  }
+}
+
+describe('BaseController abort on disconnect', () => {
+  const req = { path: '/generate', method: 'POST', query: {}, params: {} } as unknown as RequestWithUser;
+
+  function mockResponse() {
+    const listeners: Record<string, () => void> = {};
+    const res = {
+      writableFinished: false,
+      status: jest.fn(),
+      json: jest.fn(),
+      on: jest.fn((event: string, listener: () => void) => { listeners[event] = listener; }),
+      off: jest.fn(),
+      close: () => listeners.close()
+    };
+    res.status.mockReturnValue(res);
+    return res;
+  }
+
+  it('should abort the handler signal when the client disconnects', async () => {
+    const res = mockResponse();
+    let handlerSignal: AbortSignal | undefined;
+
+    const handled = new TestController().handle(req, res as unknown as Response, signal => {
+      handlerSignal = signal;
+      return new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(new LLMAbortedError('Request to ollama was aborted', { provider: 'ollama' })));
+      });
+    });
+    res.close();
+    await handled;
+
+    expect(handlerSignal?.aborted).toBe(true);
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.off).toHaveBeenCalledWith('close', expect.any(Function));
+  });
+
+  it('should not abort once the response was sent', async () => {
+    const res = mockResponse();
+    let handlerSignal: AbortSignal | undefined;
+
+    await new TestController().handle(req, res as unknown as Response, async signal => {
+      handlerSignal = signal;
+      return { ok: true };
+    });
+    res.writableFinished = true;
+    res.close();
+
+    expect(handlerSignal?.aborted).toBe(false);
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+});
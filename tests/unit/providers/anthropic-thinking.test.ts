@@ -0,0 +1,151 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { AnthropicProvider } from '../../../src/middleware/services/llm/providers/anthropic-provider';
+import { AnthropicResponse } from '../../../src/middleware/services/llm/types/anthropic.types';
+import { LLMStreamEvent } from '../../../src/middleware/services/llm';
+
+function anthropicResponse(content: any[], stopReason: string) {
+  return {
+    status: 200,
+    data: {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      content,
+      model: 'claude-test',
+      stop_reason: stopReason,
+      usage: { input_tokens: 20, output_tokens: 50 }
+    }
+  };
+}
+
+describe('AnthropicProvider - extended thinking', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the thinking config without temperature or top_k', async () => {
+    const postSpy = jest.spyOn(axios, 'post').mockResolvedValue(
+      anthropicResponse([{ type: 'text', text: '42' }], 'end_turn')
+    );
+    const provider = new AnthropicProvider();
+
+    await provider.callWithSystemMessage('Question?', 'Think carefully.', {
+      authToken: 'sk-ant-test',
+      model: 'claude-test',
+      maxTokens: 8000,
+      top_k: 5,
+      thinking: { type: 'enabled', budget_tokens: 2048 }
+    });
+
+    const payload = postSpy.mock.calls[0][1] as any;
+    expect(payload.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+    expect(payload.temperature).toBeUndefined();
+    expect(payload.top_k).toBeUndefined();
+  });
+
+  it('should separate thinking blocks from text and count redacted blocks', async () => {
+    jest.spyOn(axios, 'post').mockResolvedValue(anthropicResponse([
+      { type: 'thinking', thinking: 'First, consider the question.', signature: 'sig-1' },
+      { type: 'redacted_thinking', data: 'encrypted' },
+      { type: 'text', text: 'The answer' },
+      { type: 'text', text: 'is 42.' }
+    ], 'end_turn'));
+    const provider = new AnthropicProvider();
+
+    const response = await provider.callWithSystemMessage('Question?', 'Think carefully.', {
+      authToken: 'sk-ant-test',
+      model: 'claude-test',
+      thinking: { type: 'enabled', budget_tokens: 1024 }
+    }) as AnthropicResponse;
+
+    expect(response.message.content).toBe('The answer\nis 42.');
+    expect(response.thinking).toBe('First, consider the question.');
+    expect(response.redacted_thinking_blocks).toBe(1);
+    expect(response.content_blocks).toHaveLength(4);
+    expect(response.thinkingBlocks).toEqual([
+      { type: 'thinking', thinking: 'First, consider the question.', signature: 'sig-1' },
+      { type: 'redacted_thinking', data: 'encrypted' }
+    ]);
+  });
+
+  it('should send the thinking blocks first in the assistant turn of a tool-use conversation', async () => {
+    const postSpy = jest.spyOn(axios, 'post').mockResolvedValueOnce(anthropicResponse([
+      { type: 'thinking', thinking: 'I need the weather.', signature: 'sig-1' },
+      { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+    ], 'tool_use')).mockResolvedValueOnce(anthropicResponse([{ type: 'text', text: 'Sunny.' }], 'end_turn'));
+    const provider = new AnthropicProvider();
+    const options = { authToken: 'sk-ant-test', model: 'claude-test', thinking: { type: 'enabled' as const, budget_tokens: 1024 } };
+
+    const first = await provider.callWithMessages([{ role: 'user', content: 'Weather in Paris?' }], options);
+    await provider.callWithMessages([
+      { role: 'user', content: 'Weather in Paris?' },
+      { role: 'assistant', content: first!.message.content, toolCalls: first!.toolCalls, thinkingBlocks: first!.thinkingBlocks },
+      { role: 'tool', content: 'sunny', toolCallId: 'toolu_1' }
+    ], options);
+
+    const payload = postSpy.mock.calls[1][1] as any;
+    expect(payload.messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'I need the weather.', signature: 'sig-1' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+      ]
+    });
+  });
+
+  it.each([
+    ['end_turn', 'stop'],
+    ['stop_sequence', 'stop'],
+    ['max_tokens', 'length'],
+    ['tool_use', 'tool_calls'],
+    ['refusal', 'content_filter'],
+    ['pause_turn', 'other']
+  ])('should normalize stop_reason %s to %s', async (stopReason, expected) => {
+    jest.spyOn(axios, 'post').mockResolvedValue(anthropicResponse([{ type: 'text', text: 'ok' }], stopReason));
+    const provider = new AnthropicProvider();
+
+    const response = await provider.call('Hi', { authToken: 'sk-ant-test', model: 'claude-test' }) as AnthropicResponse;
+
+    expect(response.finishReason).toBe(expected);
+    expect(response.stop_reason).toBe(stopReason);
+  });
+
+  it('should collect streamed thinking deltas into response.thinking', async () => {
+    const sse = [
+      'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","type":"message","role":"assistant","content":[],"model":"claude-test","stop_reason":null,"usage":{"input_tokens":12,"output_tokens":1}}}\n\n',
+      'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"thinking","thinking":"","signature":""}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"thinking_delta","thinking":"Hmm, "}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"thinking_delta","thinking":"easy."}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"signature_delta","signature":"sig"}}\n\n',
+      'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n\n',
+      'event: content_block_start\ndata: {"type":"content_block_start","index":1,"content_block":{"type":"text","text":""}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":1,"delta":{"type":"text_delta","text":"42"}}\n\n',
+      'event: content_block_stop\ndata: {"type":"content_block_stop","index":1}\n\n',
+      'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn","stop_sequence":null},"usage":{"output_tokens":30}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+    ];
+    jest.spyOn(axios, 'post').mockResolvedValue({
+      status: 200,
+      data: Readable.from(sse.map(part => Buffer.from(part)))
+    });
+    const provider = new AnthropicProvider();
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of provider.streamWithMessages([{ role: 'user', content: 'Question?' }], {
+      authToken: 'sk-ant-test',
+      model: 'claude-test',
+      thinking: { type: 'enabled', budget_tokens: 1024 }
+    })) {
+      events.push(event);
+    }
+
+    expect(events.filter(e => e.type === 'delta')).toEqual([{ type: 'delta', content: '42' }]);
+    const done = events[events.length - 1];
+    expect(done.type).toBe('done');
+    if (done.type === 'done') {
+      expect(done.finishReason).toBe('stop');
+      expect(done.response.thinking).toBe('Hmm, easy.');
+    }
+  });
+});
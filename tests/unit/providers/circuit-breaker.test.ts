@@ -0,0 +1,155 @@
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  CircuitStateChangeEvent,
+  LLMNetworkError,
+  LLMAuthenticationError,
+  LLMCircuitOpenError,
+  OllamaProvider
+} from '../../../src/middleware/services/llm';
+
+/**
+ * Provider stub that fails while `down` is set
+ */
+class SwitchableProvider extends BaseLLMProvider {
+  public calls = 0;
+  public down = true;
+  public failure: () => Error = () => new LLMNetworkError('Could not reach switchable: connect ECONNREFUSED', { provider: 'switchable' });
+
+  constructor() {
+    super('switchable' as LLMProvider);
+  }
+
+  async callWithSystemMessage(_userPrompt: string, _systemMessage: string, _options: CommonLLMOptions): Promise<CommonLLMResponse | null> {
+    this.calls++;
+    if (this.down) {
+      throw this.failure();
+    }
+    return { message: { content: 'ok' }, metadata: { provider: 'switchable', model: 'm' } };
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('LLMService circuit breaker', () => {
+  let service: LLMService;
+  let provider: SwitchableProvider;
+  let events: CircuitStateChangeEvent[];
+
+  beforeEach(() => {
+    service = new LLMService();
+    provider = new SwitchableProvider();
+    service.registerProvider('switchable', provider);
+    service.setCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 500 });
+    events = [];
+    service.onCircuitStateChange(event => events.push(event));
+  });
+
+  const call = (baseUrl = 'http://gpu-1:11434') => service.call('Hi', { provider: 'switchable', baseUrl });
+
+  it('should open after consecutive failures and fail fast while open', async () => {
+    await expect(call()).rejects.toBeInstanceOf(LLMNetworkError);
+    await expect(call()).rejects.toBeInstanceOf(LLMNetworkError);
+
+    const error = await call().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMCircuitOpenError);
+    expect(error.message).toBe('Circuit breaker for switchable (http://gpu-1:11434) is open after: Could not reach switchable: connect ECONNREFUSED');
+    expect(error.retryAfterMs).toBeLessThanOrEqual(500);
+    expect(provider.calls).toBe(2);
+    expect(events).toEqual([expect.objectContaining({ key: 'switchable|http://gpu-1:11434', from: 'closed', to: 'open' })]);
+    expect(service.getCircuitBreakerStatus()).toEqual([expect.objectContaining({
+      provider: 'switchable',
+      baseUrl: 'http://gpu-1:11434',
+      state: 'open',
+      consecutiveFailures: 2,
+      nextAttemptAt: expect.any(Date)
+    })]);
+  });
+
+  it('should count failed streams and reject streams while open', async () => {
+    const stream = () => service.stream('Hi', { provider: 'switchable', baseUrl: 'http://gpu-1:11434' }).next();
+
+    await expect(stream()).rejects.toBeInstanceOf(LLMNetworkError);
+    await expect(stream()).rejects.toBeInstanceOf(LLMNetworkError);
+    await expect(stream()).rejects.toBeInstanceOf(LLMCircuitOpenError);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('should close again after a successful trial request', async () => {
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+    await wait(520);
+    provider.down = false;
+
+    expect(service.getCircuitBreakerStatus()[0].state).toBe('half-open');
+    await expect(call()).resolves.toMatchObject({ message: { content: 'ok' } });
+    expect(events.map(event => event.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial request fails', async () => {
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+    await wait(520);
+
+    await expect(call()).rejects.toBeInstanceOf(LLMNetworkError);
+    await expect(call()).rejects.toBeInstanceOf(LLMCircuitOpenError);
+    expect(events.map(event => event.to)).toEqual(['open', 'half-open', 'open']);
+  });
+
+  it('should keep separate circuits per base URL and ignore non-endpoint errors', async () => {
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+    provider.failure = () => new LLMAuthenticationError('Authentication failed', { provider: 'switchable' });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(call('http://gpu-2:11434')).rejects.toBeInstanceOf(LLMAuthenticationError);
+    }
+
+    const states = service.getCircuitBreakerStatus().map(status => [status.baseUrl, status.state]);
+    expect(states).toEqual([['http://gpu-1:11434', 'open'], ['http://gpu-2:11434', 'closed']]);
+  });
+
+  it('should key providers by their resolved default base URL and reset on demand', async () => {
+    const ollama = new OllamaProvider({ name: 'local', baseUrl: 'http://127.0.0.1:9' });
+    service.registerProvider('local', ollama);
+    jest.spyOn(ollama, 'callWithSystemMessage').mockRejectedValue(new LLMNetworkError('down', { provider: 'local' }));
+
+    await service.call('Hi', { provider: 'local' }).catch(() => undefined);
+
+    expect(service.getCircuitBreakerStatus()[0].key).toBe('local|http://127.0.0.1:9');
+    expect(service.resetCircuitBreaker('local|http://127.0.0.1:9')).toBe(true);
+    expect(service.resetCircuitBreaker('missing')).toBe(false);
+  });
+
+  it('should let fallback chains move on while a circuit is open', async () => {
+    const backup = new SwitchableProvider();
+    backup.down = false;
+    service.registerProvider('backup', backup);
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+
+    const response = await service.call('Hi', {
+      provider: 'switchable',
+      baseUrl: 'http://gpu-1:11434',
+      fallbackChain: [{ provider: 'switchable' }, { provider: 'backup' }]
+    });
+
+    expect(response?.metadata?.fallback?.step).toBe(1);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('should not track endpoints when disabled', async () => {
+    service.setCircuitBreaker(false);
+
+    for (let i = 0; i < 3; i++) {
+      await expect(call()).rejects.toBeInstanceOf(LLMNetworkError);
+    }
+
+    expect(provider.calls).toBe(3);
+    expect(service.getCircuitBreakerStatus()).toEqual([]);
+  });
+});
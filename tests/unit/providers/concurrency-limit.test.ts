@@ -0,0 +1,175 @@
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  LLMQueueTimeoutError,
+  LLMAbortedError,
+  LLMNetworkError,
+  ConcurrencyLimiter
+} from '../../../src/middleware/services/llm';
+
+/**
+ * Provider stub whose calls stay pending until they are finished by the test
+ */
+class PendingProvider extends BaseLLMProvider {
+  public started: string[] = [];
+  public options: CommonLLMOptions[] = [];
+  private pending: Array<() => void> = [];
+
+  constructor() {
+    super('pending' as LLMProvider);
+  }
+
+  async callWithSystemMessage(userPrompt: string, _systemMessage: string, options: CommonLLMOptions): Promise<CommonLLMResponse | null> {
+    this.started.push(userPrompt);
+    this.options.push(options);
+    await new Promise<void>(resolve => this.pending.push(resolve));
+    return { message: { content: userPrompt }, metadata: { provider: 'pending', model: 'm' } };
+  }
+
+  /** Finish the oldest pending call */
+  finishNext(): void {
+    this.pending.shift()?.();
+  }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('LLMService concurrency limit', () => {
+  let service: LLMService;
+  let provider: PendingProvider;
+
+  beforeEach(() => {
+    service = new LLMService();
+    provider = new PendingProvider();
+    service.registerProvider('pending', provider);
+  });
+
+  const call = (prompt: string, options: CommonLLMOptions = {}) =>
+    service.call(prompt, { provider: 'pending', baseUrl: 'http://gpu-1:11434', ...options });
+
+  it('should hold the slot of a stream until the consumer stops reading', async () => {
+    service.setConcurrencyLimit({ maxConcurrent: 1 });
+
+    const stream = service.stream('stream', { provider: 'pending', baseUrl: 'http://gpu-1:11434' });
+    const firstEvent = stream.next();
+    const queued = call('queued');
+    await flush();
+    provider.finishNext();
+
+    expect(await firstEvent).toEqual({ done: false, value: { type: 'delta', content: 'stream' } });
+    await flush();
+    expect(provider.started).toEqual(['stream']);
+
+    await stream.return(undefined);
+    await flush();
+    expect(provider.started).toEqual(['stream', 'queued']);
+
+    provider.finishNext();
+    await queued;
+  });
+
+  it('should queue requests over the limit and start them in priority order', async () => {
+    service.setConcurrencyLimit({ maxConcurrent: 1 });
+
+    const first = call('first');
+    const normal = call('normal');
+    const batch = call('batch', { priority: 'batch' });
+    const interactive = call('interactive', { priority: 'interactive' });
+    await flush();
+
+    expect(provider.started).toEqual(['first']);
+    expect(service.getQueueStatus()).toEqual([expect.objectContaining({
+      key: 'pending|http://gpu-1:11434',
+      maxConcurrent: 1,
+      active: 1,
+      queued: 3,
+      queuedByPriority: { interactive: 1, normal: 1, batch: 1 },
+      oldestWaitMs: expect.any(Number)
+    })]);
+
+    for (let i = 0; i < 4; i++) {
+      provider.finishNext();
+      await flush();
+    }
+
+    expect(provider.started).toEqual(['first', 'interactive', 'normal', 'batch']);
+    expect((await first)?.metadata?.queue).toEqual({ priority: 'normal', waitMs: 0, queueDepth: 0 });
+    expect((await interactive)?.metadata?.queue).toMatchObject({ priority: 'interactive', queueDepth: 0 });
+    expect((await normal)?.metadata?.queue).toMatchObject({ priority: 'normal', queueDepth: 0 });
+    expect((await batch)?.metadata?.queue).toMatchObject({ priority: 'batch', queueDepth: 1 });
+    expect(provider.options[0]).not.toHaveProperty('priority');
+  });
+
+  it('should fail with LLMQueueTimeoutError when no slot becomes free in time', async () => {
+    service.setConcurrencyLimit({ maxConcurrent: 1, queueTimeoutMs: 10000 });
+    const first = call('first');
+
+    const error = await call('second', { queueTimeoutMs: 20 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMQueueTimeoutError);
+    expect(error.message).toBe('Request to pending waited 20ms for a free slot (1 active, 0 queued)');
+    expect(provider.started).toEqual(['first']);
+    provider.finishNext();
+    await first;
+    expect(service.getQueueStatus()[0]).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should remove aborted requests from the queue', async () => {
+    service.setConcurrencyLimit({ maxConcurrent: 1 });
+    const controller = new AbortController();
+    const first = call('first');
+    const second = call('second', { signal: controller.signal });
+    await flush();
+
+    controller.abort();
+
+    await expect(second).rejects.toBeInstanceOf(LLMAbortedError);
+    expect(service.getQueueStatus()[0].queued).toBe(0);
+    provider.finishNext();
+    await first;
+  });
+
+  it('should keep separate limits per endpoint and apply endpoint overrides', async () => {
+    service.setConcurrencyLimit({ maxConcurrent: 1, endpoints: { 'pending|http://gpu-2:11434': 2 } });
+
+    const calls = [call('a'), call('b', { baseUrl: 'http://gpu-2:11434' }), call('c', { baseUrl: 'http://gpu-2:11434' })];
+    await flush();
+
+    expect(provider.started).toEqual(['a', 'b', 'c']);
+    expect(service.getQueueStatus().map(status => [status.baseUrl, status.maxConcurrent, status.active])).toEqual([
+      ['http://gpu-1:11434', 1, 1],
+      ['http://gpu-2:11434', 2, 2]
+    ]);
+    calls.forEach(() => provider.finishNext());
+    await Promise.all(calls);
+  });
+
+  it('should not limit requests by default', async () => {
+    const calls = [call('a'), call('b'), call('c')];
+    await flush();
+
+    expect(provider.started).toHaveLength(3);
+    expect(service.getQueueStatus()).toEqual([]);
+    calls.forEach(() => provider.finishNext());
+    expect((await calls[0])?.metadata).not.toHaveProperty('queue');
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('should release the slot when a request fails', async () => {
+    const limiter = new ConcurrencyLimiter('ollama', undefined, 1);
+    const failure = new LLMNetworkError('down', { provider: 'ollama' });
+
+    await expect(limiter.run(() => Promise.reject(failure))).rejects.toBe(failure);
+    await expect(limiter.run(() => Promise.resolve('ok'))).resolves.toBe('ok');
+    expect(limiter.getStatus()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new ConcurrencyLimiter('ollama', 'http://localhost:11434', 0))
+      .toThrow('Concurrency limit for ollama|http://localhost:11434 must be a positive integer');
+  });
+});
@@ -0,0 +1,138 @@
+import axios from 'axios';
+import {
+  OllamaProvider,
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+  AnthropicProvider,
+  LLMService,
+  LLMError
+} from '../../../src/middleware/services/llm';
+import { splitIntoBatches } from '../../../src/middleware/services/llm/utils/embedding.utils';
+
+function vector(seed: number): number[] {
+  return [seed, seed + 0.5, seed + 1];
+}
+
+describe('Embeddings', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('splitIntoBatches', () => {
+    it('should split texts into batches of at most batchSize', () => {
+      expect(splitIntoBatches(['a', 'b', 'c', 'd', 'e'], 2)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    });
+
+    it('should reject invalid batch sizes', () => {
+      expect(() => splitIntoBatches(['a'], 0)).toThrow('positive integer');
+    });
+  });
+
+  describe('OllamaProvider.embed', () => {
+    it('should batch inputs, keep their order and sum token usage', async () => {
+      let counter = 0;
+      const postSpy = jest.spyOn(axios, 'post').mockImplementation(async (_url, body: any) => ({
+        status: 200,
+        data: {
+          model: 'nomic-embed-text',
+          embeddings: body.input.map(() => vector(counter++)),
+          prompt_eval_count: body.input.length * 4
+        }
+      }));
+      const provider = new OllamaProvider();
+
+      const result = await provider.embed(['a', 'b', 'c'], {
+        model: 'nomic-embed-text',
+        baseUrl: 'http://ollama:11434',
+        batchSize: 2,
+        truncate: false
+      });
+
+      expect(postSpy).toHaveBeenCalledTimes(2);
+      expect(postSpy.mock.calls[0][0]).toBe('http://ollama:11434/api/embed');
+      expect(postSpy.mock.calls[0][1]).toEqual({ model: 'nomic-embed-text', input: ['a', 'b'], truncate: false });
+      expect(postSpy.mock.calls[1][1]).toEqual({ model: 'nomic-embed-text', input: ['c'], truncate: false });
+      expect(result).toMatchObject({
+        embeddings: [vector(0), vector(1), vector(2)],
+        dimensions: 3,
+        metadata: { provider: 'ollama', model: 'nomic-embed-text', batches: 2 },
+        usage: { inputTokens: 12, outputTokens: 0, totalTokens: 12 }
+      });
+    });
+
+    it('should require a model', async () => {
+      await expect(new OllamaProvider().embed('text')).rejects.toThrow('Embedding model name is required');
+    });
+
+    it('should throw an LLMError when a batch fails', async () => {
+      jest.spyOn(axios, 'post').mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(new OllamaProvider().embed(['a'], { model: 'nomic-embed-text' }))
+        .rejects.toBeInstanceOf(LLMError);
+    });
+  });
+
+  describe('OpenAIProvider.embed', () => {
+    it('should order vectors by index and report usage', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+        status: 200,
+        data: {
+          object: 'list',
+          model: 'text-embedding-3-small',
+          data: [
+            { object: 'embedding', index: 1, embedding: vector(1) },
+            { object: 'embedding', index: 0, embedding: vector(0) }
+          ],
+          usage: { prompt_tokens: 7, total_tokens: 7 }
+        }
+      });
+      const provider = new OpenAIProvider();
+
+      const result = await provider.embed(['first', 'second'], { authToken: 'sk-test', dimensions: 3 });
+
+      expect(postSpy.mock.calls[0][0]).toBe('https://api.openai.com/v1/embeddings');
+      expect(postSpy.mock.calls[0][1]).toEqual({
+        model: 'text-embedding-3-small',
+        input: ['first', 'second'],
+        encoding_format: 'float',
+        dimensions: 3
+      });
+      expect(result?.embeddings).toEqual([vector(0), vector(1)]);
+      expect(result?.dimensions).toBe(3);
+      expect(result?.usage).toEqual({ inputTokens: 7, outputTokens: 0, totalTokens: 7 });
+    });
+
+    it('should use the embedding model and name of OpenAI-compatible instances', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+        status: 200,
+        data: { object: 'list', model: 'bge-m3', data: [{ object: 'embedding', index: 0, embedding: vector(0) }] }
+      });
+      const provider = new OpenAICompatibleProvider({
+        name: 'vllm',
+        baseUrl: 'http://gpu-box:8000',
+        model: 'llama',
+        embeddingModel: 'bge-m3'
+      });
+
+      const result = await provider.embed('text');
+
+      expect(postSpy.mock.calls[0][0]).toBe('http://gpu-box:8000/v1/embeddings');
+      expect((postSpy.mock.calls[0][1] as any).model).toBe('bge-m3');
+      expect(result?.metadata.provider).toBe('vllm');
+      expect(result?.usage).toBeUndefined();
+    });
+  });
+
+  it('should route LLMService.embed to the selected provider', async () => {
+    const service = new LLMService();
+    const embedSpy = jest.spyOn(service.getProvider('ollama'), 'embed').mockResolvedValue(null);
+
+    await service.embed(['a'], { provider: 'ollama', model: 'nomic-embed-text' });
+
+    expect(embedSpy).toHaveBeenCalledWith(['a'], { provider: 'ollama', model: 'nomic-embed-text' });
+  });
+
+  it('should reject embeddings for providers without an embeddings endpoint', async () => {
+    await expect(new AnthropicProvider().embed('text')).rejects.toThrow('Provider anthropic does not support embeddings');
+  });
+});
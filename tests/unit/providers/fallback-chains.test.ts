@@ -0,0 +1,209 @@
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  LLMServiceCallOptions,
+  LLMAbortedError,
+  LLMTimeoutError
+} from '../../../src/middleware/services/llm';
+
+class InsufficientMemoryError extends Error {}
+
+/**
+ * Provider stub whose behavior is set per test
+ */
+class StubProvider extends BaseLLMProvider {
+  public calls: CommonLLMOptions[] = [];
+
+  constructor(
+    private readonly name: string,
+    private readonly behavior: (options: CommonLLMOptions) => Promise<CommonLLMResponse | null>
+  ) {
+    super(name as LLMProvider);
+  }
+
+  async callWithSystemMessage(_userPrompt: string, _systemMessage: string, options: CommonLLMOptions): Promise<CommonLLMResponse | null> {
+    this.calls.push(options);
+    return this.behavior(options);
+  }
+}
+
+function answer(provider: string, content: string) {
+  return async (options: CommonLLMOptions): Promise<CommonLLMResponse> => ({
+    message: { content },
+    metadata: { provider, model: options.model || 'default-model' }
+  });
+}
+
+describe('LLMService fallback chains', () => {
+  let service: LLMService;
+
+  beforeEach(() => {
+    service = new LLMService();
+  });
+
+  it('should fall back on errors and record the answering step', async () => {
+    const local = new StubProvider('local', async () => {
+      throw new InsufficientMemoryError('Insufficient memory to load model llama3.1:70b');
+    });
+    const remote = new StubProvider('remote', answer('remote', 'Hello from remote'));
+    service.registerProvider('local', local);
+    service.registerProvider('remote', remote);
+    service.registerFallbackChain('resilient', [
+      { provider: 'local', fallbackOn: { error: [InsufficientMemoryError] } },
+      { provider: 'remote', model: 'remote-model' }
+    ]);
+
+    const response = await service.callWithSystemMessage('Hi', 'System', {
+      provider: 'local',
+      model: 'llama3.1:70b',
+      fallbackChain: 'resilient'
+    });
+
+    expect(response?.message.content).toBe('Hello from remote');
+    expect(response?.metadata?.fallback).toMatchObject({
+      chain: 'resilient',
+      step: 1,
+      provider: 'remote',
+      model: 'remote-model',
+      attempts: [{ step: 0, provider: 'local', model: 'llama3.1:70b', reason: 'error', error: 'Insufficient memory to load model llama3.1:70b' }]
+    });
+  });
+
+  it('should not carry the model, URL and token of the call over to other providers', async () => {
+    const local = new StubProvider('local', async () => null);
+    const smaller = new StubProvider('local-small', async () => null);
+    const remote = new StubProvider('remote', answer('remote', 'ok'));
+    service.registerProvider('local', local);
+    service.registerProvider('local-small', smaller);
+    service.registerProvider('remote', remote);
+
+    await service.call('Hi', {
+      provider: 'local',
+      model: 'big',
+      baseUrl: 'http://localhost:11434',
+      authToken: 'token',
+      temperature: 0.2,
+      fallbackChain: [
+        { provider: 'local' },
+        { provider: 'local', model: 'small' },
+        { provider: 'remote' }
+      ]
+    });
+
+    expect(local.calls.map(options => options.model)).toEqual(['big', 'small']);
+    expect(local.calls[1].baseUrl).toBe('http://localhost:11434');
+    expect(remote.calls[0]).toEqual({ temperature: 0.2 });
+  });
+
+  it('should not carry the hosts of the call over to another provider instance', async () => {
+    const pool = new StubProvider('ollama', async () => {
+      throw new InsufficientMemoryError('Insufficient memory');
+    });
+    const small = new StubProvider('ollama-small', answer('ollama-small', 'ok'));
+    service.registerProvider('ollama', pool);
+    service.registerProvider('ollama-small', small);
+
+    await service.call('Hi', {
+      provider: 'ollama',
+      hosts: ['http://gpu-1:11434', 'http://gpu-2:11434'],
+      fallbackChain: [
+        { provider: 'ollama', fallbackOn: { error: true } },
+        { provider: 'ollama-small' }
+      ]
+    } as LLMServiceCallOptions);
+
+    expect(pool.calls[0]).toHaveProperty('hosts');
+    expect(small.calls[0]).not.toHaveProperty('hosts');
+  });
+
+  it('should fall back on empty responses and timeouts', async () => {
+    const empty = new StubProvider('empty', answer('empty', '   '));
+    const slow = new StubProvider('slow', () => new Promise(resolve => setTimeout(() => resolve(null), 200)));
+    const fast = new StubProvider('fast', answer('fast', 'done'));
+    service.registerProvider('empty', empty);
+    service.registerProvider('slow', slow);
+    service.registerProvider('fast', fast);
+
+    const response = await service.call('Hi', {
+      fallbackChain: [
+        { provider: 'empty' },
+        { provider: 'slow', fallbackOn: { timeoutMs: 20 } },
+        { provider: 'fast' }
+      ]
+    });
+
+    expect(response?.message.content).toBe('done');
+    expect(response?.metadata?.fallback?.attempts.map(attempt => attempt.reason)).toEqual(['empty', 'timeout']);
+    expect(response?.metadata?.fallback?.attempts[1].error).toBe('Provider slow did not answer within 20ms');
+  });
+
+  it('should cancel the request of a step that times out', async () => {
+    const signals: AbortSignal[] = [];
+    service.registerProvider('slow', new StubProvider('slow', options => new Promise((resolve, reject) => {
+      signals.push(options.signal!);
+      options.signal!.addEventListener('abort', () => reject(new LLMAbortedError('aborted', { provider: 'slow' })));
+    })));
+    service.registerProvider('fast', new StubProvider('fast', answer('fast', 'done')));
+
+    const response = await service.call('Hi', {
+      fallbackChain: [{ provider: 'slow', fallbackOn: { timeoutMs: 20 } }, { provider: 'fast' }]
+    });
+
+    expect(response?.message.content).toBe('done');
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('should throw LLMTimeoutError when the last step times out', async () => {
+    service.registerProvider('slow', new StubProvider('slow', () => new Promise(resolve => setTimeout(() => resolve(null), 200))));
+
+    const call = service.call('Hi', { fallbackChain: [{ provider: 'slow', fallbackOn: { timeoutMs: 20 } }] });
+
+    await expect(call).rejects.toBeInstanceOf(LLMTimeoutError);
+    await expect(call).rejects.toMatchObject({ timeoutMs: 20, provider: 'slow' });
+  });
+
+  it('should rethrow errors that do not match the step condition', async () => {
+    service.registerProvider('local', new StubProvider('local', async () => {
+      throw new TypeError('bug');
+    }));
+    const remote = new StubProvider('remote', answer('remote', 'ok'));
+    service.registerProvider('remote', remote);
+
+    await expect(service.call('Hi', {
+      fallbackChain: [
+        { provider: 'local', fallbackOn: { error: [InsufficientMemoryError] } },
+        { provider: 'remote' }
+      ]
+    })).rejects.toThrow('bug');
+    expect(remote.calls).toHaveLength(0);
+  });
+
+  it('should return the outcome of the last step when every step fails', async () => {
+    service.registerProvider('a', new StubProvider('a', async () => null));
+    service.registerProvider('b', new StubProvider('b', async () => {
+      throw new Error('b is down');
+    }));
+
+    await expect(service.call('Hi', {
+      fallbackChain: [{ provider: 'a' }, { provider: 'b' }]
+    })).rejects.toThrow('b is down');
+  });
+
+  it('should record the step for answers from the first provider', async () => {
+    service.registerProvider('a', new StubProvider('a', answer('a', 'first try')));
+
+    const response = await service.callWithMessages([{ role: 'user', content: 'Hi' }], {
+      fallbackChain: [{ provider: 'a' }, { provider: LLMProvider.ANTHROPIC }]
+    });
+
+    expect(response?.metadata?.fallback).toEqual({ step: 0, provider: 'a', model: 'default-model', attempts: [] });
+  });
+
+  it('should reject unknown and empty chains', async () => {
+    expect(() => service.registerFallbackChain('empty', [])).toThrow('at least one step');
+    await expect(service.call('Hi', { fallbackChain: 'missing' })).rejects.toThrow('Fallback chain missing is not registered');
+  });
+});
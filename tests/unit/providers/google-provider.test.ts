@@ -0,0 +1,114 @@
+import { GoogleProvider } from '../../../src/middleware/services/llm/providers/google-provider';
+import { LLMService, LLMProvider } from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const generateContentResponse = {
+  candidates: [
+    {
+      content: {
+        role: 'model',
+        parts: [{ text: 'Hello ' }, { text: 'from Gemini' }]
+      },
+      finishReason: 'STOP',
+      index: 0
+    }
+  ],
+  usageMetadata: {
+    promptTokenCount: 10,
+    candidatesTokenCount: 4,
+    thoughtsTokenCount: 2,
+    totalTokenCount: 16,
+    cachedContentTokenCount: 3
+  },
+  modelVersion: 'gemini-2.0-flash-001',
+  responseId: 'resp-123'
+};
+
+describe('GoogleProvider', () => {
+  let server: MockServer;
+  let provider: GoogleProvider;
+
+  beforeAll(async () => {
+    server = await startMockServer('/v1beta');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    provider = new GoogleProvider();
+    server.requests.length = 0;
+    server.respondWith(200, generateContentResponse);
+  });
+
+  it('should send a generateContent request with system instruction and generation config', async () => {
+    await provider.callWithSystemMessage('Hi', 'Be brief', {
+      baseUrl: server.baseUrl,
+      authToken: 'google-key',
+      model: 'gemini-2.0-flash',
+      temperature: 0.3,
+      maxTokens: 128,
+      top_k: 20,
+      stop_sequences: ['END']
+    });
+
+    expect(server.requests).toHaveLength(1);
+    const [request] = server.requests;
+    expect(request.url).toBe('/v1beta/models/gemini-2.0-flash:generateContent');
+    expect(request.headers['x-goog-api-key']).toBe('google-key');
+    expect(request.body).toEqual({
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      systemInstruction: { parts: [{ text: 'Be brief' }] },
+      generationConfig: {
+        temperature: 0.3,
+        maxOutputTokens: 128,
+        topK: 20,
+        stopSequences: ['END']
+      }
+    });
+  });
+
+  it('should normalize the response and usageMetadata', async () => {
+    const response: any = await provider.callWithSystemMessage('Hi', 'Be brief', {
+      baseUrl: server.baseUrl,
+      authToken: 'google-key',
+      model: 'gemini-2.0-flash'
+    });
+
+    expect(response.message.content).toBe('Hello from Gemini');
+    expect(response.metadata).toMatchObject({
+      provider: LLMProvider.GOOGLE,
+      model: 'gemini-2.0-flash-001',
+      tokensUsed: 16
+    });
+    expect(response.usage).toEqual({
+      inputTokens: 10,
+      outputTokens: 6,
+      totalTokens: 16,
+      cacheMetadata: { cacheReadTokens: 3 }
+    });
+    expect(response.finish_reason).toBe('STOP');
+  });
+
+  it('should throw typed errors on API errors', async () => {
+    server.respondWith(400, { error: { code: 400, message: 'API key not valid', status: 'INVALID_ARGUMENT' } });
+
+    await expect(provider.callWithSystemMessage('Hi', 'Be brief', {
+      baseUrl: server.baseUrl,
+      authToken: 'bad-key',
+      model: 'gemini-2.0-flash'
+    })).rejects.toMatchObject({
+      code: 'invalid_request',
+      provider: LLMProvider.GOOGLE,
+      statusCode: 400,
+      message: 'Invalid request (google, HTTP 400): API key not valid'
+    });
+  });
+
+  it('should be registered in LLMService', () => {
+    const service = new LLMService();
+
+    expect(service.getProvider(LLMProvider.GOOGLE)).toBeInstanceOf(GoogleProvider);
+  });
+});
@@ -0,0 +1,51 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Minimal HTTP server that records requests and replies with a canned JSON body
+ * Used to exercise providers against a local endpoint instead of the real APIs
+ */
+export interface MockServer {
+  baseUrl: string;
+  requests: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: any }>;
+  respondWith: (status: number, body: any) => void;
+  /** Reply with a raw body (e.g. NDJSON or SSE) instead of JSON */
+  respondWithRaw: (status: number, body: string, contentType: string) => void;
+  close: () => Promise<void>;
+}
+
+export async function startMockServer(basePath: string = '/v1'): Promise<MockServer> {
+  let nextStatus = 200;
+  let nextBody: string = '{}';
+  let nextContentType = 'application/json';
+  const requests: MockServer['requests'] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+      res.writeHead(nextStatus, { 'Content-Type': nextContentType });
+      res.end(nextBody);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}${basePath}`,
+    requests,
+    respondWith: (status, body) => {
+      nextStatus = status;
+      nextBody = JSON.stringify(body);
+      nextContentType = 'application/json';
+    },
+    respondWithRaw: (status, body, contentType) => {
+      nextStatus = status;
+      nextBody = body;
+      nextContentType = contentType;
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,189 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  OllamaProvider,
+  AnthropicProvider,
+  OpenAIProvider,
+  GoogleProvider,
+  LLMDebugger
+} from '../../../src/middleware/services/llm';
+import {
+  resolveMessageImages,
+  getImageAttachmentInfo,
+  MAX_IMAGE_FILE_BYTES
+} from '../../../src/middleware/services/llm/utils/image.utils';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+// 1x1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('Image inputs', () => {
+  let server: MockServer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-images-'));
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveMessageImages', () => {
+    it('should read files, strip data URL prefixes and detect MIME types', async () => {
+      const filePath = path.join(tempDir, 'product.png');
+      await fs.promises.writeFile(filePath, Buffer.from(PNG_BASE64, 'base64'));
+
+      const messages = await resolveMessageImages([{ role: 'user', content: 'Describe' }], [
+        { path: filePath },
+        { data: `data:image/png;base64,${PNG_BASE64}` },
+        { data: PNG_BASE64 }
+      ]);
+
+      expect(messages[0].images).toEqual([
+        { data: PNG_BASE64, mimeType: 'image/png', name: 'product.png', path: filePath },
+        { data: PNG_BASE64, mimeType: 'image/png' },
+        { data: PNG_BASE64, mimeType: 'image/png' }
+      ]);
+      expect(getImageAttachmentInfo(messages)).toEqual([
+        { messageIndex: 0, name: 'product.png', mimeType: 'image/png', sizeBytes: 70, source: 'file' },
+        { messageIndex: 0, mimeType: 'image/png', sizeBytes: 70, source: 'base64' },
+        { messageIndex: 0, mimeType: 'image/png', sizeBytes: 70, source: 'base64' }
+      ]);
+    });
+
+    it('should reject image files above the size limit without reading them', async () => {
+      const filePath = path.join(tempDir, 'huge.png');
+      await fs.promises.writeFile(filePath, '');
+      await fs.promises.truncate(filePath, MAX_IMAGE_FILE_BYTES + 1);
+      const readSpy = jest.spyOn(fs.promises, 'readFile');
+
+      await expect(
+        resolveMessageImages([{ role: 'user', content: 'Describe' }], [{ path: filePath }])
+      ).rejects.toThrow(`Image file huge.png is too large (${MAX_IMAGE_FILE_BYTES + 1} bytes, maximum ${MAX_IMAGE_FILE_BYTES})`);
+      expect(readSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject images whose type cannot be determined', async () => {
+      await expect(
+        resolveMessageImages([{ role: 'user', content: 'Describe' }], [{ data: Buffer.from('plain text').toString('base64') }])
+      ).rejects.toThrow('Could not determine the image type');
+    });
+
+    it('should reject images on non-user messages', async () => {
+      const provider = new OllamaProvider();
+
+      await expect(provider.callWithMessages([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello', images: [{ data: PNG_BASE64 }] }
+      ], { model: 'llava' })).rejects.toThrow('Images can only be attached to user messages');
+    });
+  });
+
+  it('should send raw base64 images in the Ollama images array', async () => {
+    server.respondWith(200, { model: 'llava', message: { role: 'assistant', content: 'A pixel.' }, done: true });
+    const provider = new OllamaProvider();
+
+    await provider.callWithSystemMessage('Describe the product', 'You describe images', {
+      model: 'llava',
+      baseUrl: server.baseUrl,
+      images: [{ data: `data:image/png;base64,${PNG_BASE64}` }]
+    });
+
+    expect(server.requests[0].body.messages[1]).toEqual({
+      role: 'user',
+      content: 'Describe the product',
+      images: [PNG_BASE64]
+    });
+  });
+
+  it('should send Anthropic image blocks before the text', async () => {
+    const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+      status: 200,
+      data: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'A pixel.' }],
+        model: 'claude-test',
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 3 }
+      }
+    });
+    const provider = new AnthropicProvider();
+
+    await provider.callWithMessages(
+      [{ role: 'user', content: 'Describe the product', images: [{ data: PNG_BASE64 }] }],
+      { authToken: 'sk-ant-test', model: 'claude-test' }
+    );
+
+    const payload = postSpy.mock.calls[0][1] as any;
+    expect(payload.messages[0].content).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: PNG_BASE64 } },
+      { type: 'text', text: 'Describe the product' }
+    ]);
+  });
+
+  it('should send OpenAI image_url parts as data URLs', async () => {
+    server.respondWith(200, {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1,
+      model: 'gpt-4o-mini',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'A pixel.' }, finish_reason: 'stop' }]
+    });
+    const provider = new OpenAIProvider();
+
+    await provider.call('Describe', { authToken: 'sk-test', baseUrl: server.baseUrl, images: [{ data: PNG_BASE64 }] });
+
+    expect(server.requests[0].body.messages[1].content).toEqual([
+      { type: 'text', text: 'Describe' },
+      { type: 'image_url', image_url: { url: `data:image/png;base64,${PNG_BASE64}` } }
+    ]);
+  });
+
+  it('should send Google inlineData parts', async () => {
+    server.respondWith(200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: 'A pixel.' }] }, finishReason: 'STOP' }]
+    });
+    const provider = new GoogleProvider();
+
+    await provider.call('Describe', {
+      authToken: 'google-key',
+      model: 'gemini-2.0-flash',
+      baseUrl: server.baseUrl,
+      images: [{ data: PNG_BASE64, mimeType: 'image/png' }]
+    });
+
+    expect(server.requests[0].body.contents[0].parts).toEqual([
+      { text: 'Describe' },
+      { inlineData: { mimeType: 'image/png', data: PNG_BASE64 } }
+    ]);
+  });
+
+  describe('LLMDebugger', () => {
+    it('should omit base64 payloads from logged request data', () => {
+      const longBase64 = Buffer.alloc(600, 7).toString('base64');
+      const serialized = JSON.stringify(
+        { images: [longBase64], url: `data:image/png;base64,${longBase64}`, prompt: 'Describe the product' },
+        LLMDebugger.omitBinaryData
+      );
+
+      expect(serialized).not.toContain(longBase64);
+      expect(serialized).toContain('[binary data omitted');
+      expect(serialized).toContain('Describe the product');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  LLMService,
+  LLMProvider,
+  OllamaProvider,
+  LLMInterceptor
+} from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+describe('LLMService interceptors', () => {
+  let server: MockServer;
+  let service: LLMService;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    server.respondWith(200, { model: 'llama3.1', message: { role: 'assistant', content: 'Contact: jane@example.com' }, done: true });
+    service = new LLMService();
+    service.registerProvider('local', new OllamaProvider({ name: 'local', baseUrl: server.baseUrl, model: 'llama3.1' }));
+    service.setDefaultProvider('local');
+  });
+
+  it('should inject headers and rewrite prompts before the request', async () => {
+    service.addInterceptor({
+      name: 'tenant',
+      beforeRequest: (context) => {
+        context.options.headers = { ...context.options.headers, 'X-Tenant-Id': 'acme' };
+        context.userPrompt = `[acme] ${context.userPrompt}`;
+      }
+    });
+
+    await service.callWithSystemMessage('Hello', 'Be brief');
+
+    expect(server.requests[0].headers['x-tenant-id']).toBe('acme');
+    expect(server.requests[0].body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: '[acme] Hello' }
+    ]);
+  });
+
+  it('should let afterResponse hooks replace the response', async () => {
+    service.addInterceptor({
+      name: 'redact',
+      afterResponse: (response) => response && {
+        ...response,
+        message: { content: response.message.content.replace(/\S+@\S+/g, '[email]') }
+      }
+    });
+
+    const response = await service.call('Who to contact?');
+
+    expect(response?.message.content).toBe('Contact: [email]');
+  });
+
+  it('should run beforeRequest in order and the other hooks in reverse order', async () => {
+    const order: string[] = [];
+    const tracer = (name: string): LLMInterceptor => ({
+      name,
+      beforeRequest: () => { order.push(`before:${name}`); },
+      afterResponse: () => { order.push(`after:${name}`); }
+    });
+    service.addInterceptor(tracer('outer'));
+    service.addInterceptor(tracer('inner'));
+
+    await service.callWithMessages([{ role: 'user', content: 'Hi' }]);
+
+    expect(order).toEqual(['before:outer', 'before:inner', 'after:inner', 'after:outer']);
+  });
+
+  it('should short-circuit with a synthetic response', async () => {
+    const skipped = jest.fn();
+    service.addInterceptor({
+      name: 'cache',
+      beforeRequest: (context) => ({
+        message: { content: `cached answer for ${context.userPrompt}` },
+        metadata: { provider: 'cache', model: 'none' }
+      })
+    });
+    service.addInterceptor({ name: 'later', beforeRequest: skipped, afterResponse: skipped });
+
+    const response = await service.call('Hi');
+
+    expect(response?.message.content).toBe('cached answer for Hi');
+    expect(server.requests).toHaveLength(0);
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('should recover from errors in onError hooks', async () => {
+    const seen: unknown[] = [];
+    service.addInterceptor({
+      name: 'recover',
+      onError: (error) => {
+        seen.push(error);
+        return { message: { content: 'fallback answer' } };
+      }
+    });
+
+    const response = await service.call('Hi', { provider: 'missing' });
+
+    expect(response?.message.content).toBe('fallback answer');
+    expect((seen[0] as Error).message).toContain('Provider missing is not available');
+  });
+
+  it('should rethrow errors that no hook handles and allow routing to another provider', async () => {
+    const onError = jest.fn();
+    service.addInterceptor({
+      name: 'route',
+      beforeRequest: (context) => { context.provider = 'missing'; },
+      onError
+    });
+
+    await expect(service.call('Hi', { provider: LLMProvider.OLLAMA })).rejects.toThrow('Provider missing is not available');
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should add and remove interceptors by name', () => {
+    service.addInterceptor({ name: 'tenant', beforeRequest: () => undefined });
+
+    expect(service.getInterceptors().map(interceptor => interceptor.name)).toEqual(['tenant']);
+    expect(service.removeInterceptor('tenant')).toBe(true);
+    expect(service.removeInterceptor('tenant')).toBe(false);
+    expect(() => service.addInterceptor({ name: 'empty' })).toThrow('must implement at least one hook');
+  });
+});
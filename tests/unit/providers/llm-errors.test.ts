@@ -0,0 +1,237 @@
+import { Response } from 'express';
+import {
+  OllamaProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  LLMError,
+  LLMAuthenticationError,
+  LLMRateLimitError,
+  LLMContextLengthError,
+  LLMModelNotFoundError,
+  LLMInsufficientMemoryError,
+  LLMTimeoutError,
+  LLMUpstreamError,
+  LLMNetworkError,
+  LLMInvalidRequestError,
+  LLMCircuitOpenError,
+  BaseLLMProvider,
+  LLMProvider
+} from '../../../src/middleware/services/llm';
+import { createHttpError, toLLMError, parseRetryAfter } from '../../../src/middleware/services/llm/utils/llm-error.utils';
+import { BaseController } from '../../../src/middleware/controllers/base/base.controller';
+import { RequestWithUser } from '../../../src/middleware/shared/types/base-request.types';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const context = { provider: 'ollama', model: 'llama3.1', timeoutMs: 90000 };
+
+describe('LLM error mapping', () => {
+  it.each([
+    [401, { error: { message: 'Incorrect API key provided' } }, LLMAuthenticationError],
+    [403, { error: { message: 'Forbidden' } }, LLMAuthenticationError],
+    [400, { error: { code: 'context_length_exceeded', message: 'Too long' } }, LLMContextLengthError],
+    [400, { error: { message: 'prompt is too long: 210000 tokens > 200000 maximum' } }, LLMContextLengthError],
+    [404, { error: "model 'llama3.1' not found, try pulling it first" }, LLMModelNotFoundError],
+    [500, { error: 'model requires more system memory (12.5 GiB) than is available (8.0 GiB)' }, LLMInsufficientMemoryError],
+    [504, {}, LLMTimeoutError],
+    [503, { error: { message: 'Overloaded' } }, LLMUpstreamError],
+    [422, { error: { message: 'temperature must be <= 2' } }, LLMInvalidRequestError]
+  ])('should map HTTP %i to the matching error class', (status, body, errorClass) => {
+    const error = createHttpError(status, body, context);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.name).toBe(errorClass.name);
+    expect(error.statusCode).toBe(status);
+    expect(error.provider).toBe('ollama');
+    expect(error.model).toBe('llama3.1');
+  });
+
+  it('should report Retry-After on rate limit errors', () => {
+    const error = createHttpError(429, { error: { message: 'Slow down' } }, context, { 'retry-after': '7' });
+
+    expect(error).toBeInstanceOf(LLMRateLimitError);
+    expect(error.message).toBe('Rate limit exceeded (ollama, HTTP 429): Slow down');
+    expect((error as LLMRateLimitError).retryAfterMs).toBe(7000);
+    expect(error.retryable).toBe(true);
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(50000);
+  });
+
+  it('should map axios network failures and timeouts', () => {
+    const refused = toLLMError({ isAxiosError: true, code: 'ECONNREFUSED', message: 'connect ECONNREFUSED 127.0.0.1:11434' }, context);
+    const timedOut = toLLMError({ isAxiosError: true, code: 'ECONNABORTED', message: 'timeout of 90000ms exceeded' }, context);
+
+    expect(refused).toBeInstanceOf(LLMNetworkError);
+    expect(refused.message).toBe('Could not reach ollama: connect ECONNREFUSED 127.0.0.1:11434');
+    expect(timedOut).toBeInstanceOf(LLMTimeoutError);
+    expect((timedOut as LLMTimeoutError).timeoutMs).toBe(90000);
+  });
+
+  it('should pass LLM errors through and wrap other errors', () => {
+    const original = new LLMAuthenticationError('denied', { provider: 'openai' });
+    const wrapped = toLLMError(new Error('boom'), context);
+
+    expect(toLLMError(original, context)).toBe(original);
+    expect(wrapped.code).toBe('unknown');
+    expect(wrapped.retryable).toBe(false);
+    expect(wrapped.cause).toBeInstanceOf(Error);
+  });
+});
+
+describe('Provider errors', () => {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should throw LLMModelNotFoundError for models that are not pulled', async () => {
+    server.respondWith(404, { error: "model 'llama9' not found, try pulling it first" });
+    const provider = new OllamaProvider({ name: 'local', baseUrl: server.baseUrl });
+
+    await expect(provider.callWithSystemMessage('Hi', 'Be brief', { model: 'llama9' })).rejects.toMatchObject({
+      name: 'LLMModelNotFoundError',
+      provider: 'local',
+      model: 'llama9',
+      statusCode: 404
+    });
+  });
+
+  it('should throw LLMInsufficientMemoryError when Ollama cannot load the model', async () => {
+    server.respondWith(500, { error: 'model requires more system memory (40 GiB) than is available (16 GiB)' });
+    const provider = new OllamaProvider({ baseUrl: server.baseUrl });
+
+    await expect(provider.callWithSystemMessage('Hi', 'Be brief', { model: 'llama3.1:70b' }))
+      .rejects.toThrow('Insufficient memory to load model llama3.1:70b');
+  });
+
+  it('should throw LLMUpstreamError for 5xx responses of OpenAI-compatible servers', async () => {
+    server.respondWith(502, { error: { message: 'Bad gateway' } });
+    const provider = new OpenAICompatibleProvider({ name: 'vllm', baseUrl: server.baseUrl, model: 'qwen' });
+
+    const error = await provider.callWithSystemMessage('Hi', 'Be brief').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMUpstreamError);
+    expect(error.message).toBe('Provider error (vllm, HTTP 502): Bad gateway');
+  });
+
+  it('should throw LLMInvalidRequestError for requests that fail validation before they are sent', async () => {
+    const ollama = new OllamaProvider({ name: 'local', baseUrl: server.baseUrl });
+    const anthropic = new AnthropicProvider();
+    const invalidRequest = { name: 'LLMInvalidRequestError', code: 'invalid_request' };
+
+    await expect(anthropic.call('Hi', { authToken: '', model: 'claude-test' })).rejects.toMatchObject({
+      ...invalidRequest,
+      message: expect.stringContaining('Anthropic API key is required'),
+      provider: 'anthropic'
+    });
+    await expect(ollama.callWithMessages([{ role: 'bot' as any, content: 'Hi' }], { model: 'llama3' })).rejects.toMatchObject({
+      ...invalidRequest,
+      provider: 'local',
+      model: 'llama3'
+    });
+    await expect(ollama.call('Hi', { model: 'llama3', images: [{ path: '/does/not/exist.png' }] })).rejects.toMatchObject(invalidRequest);
+    await expect(new OpenAICompatibleProvider({ name: 'vllm', baseUrl: server.baseUrl }).call('Hi')).rejects.toMatchObject({
+      ...invalidRequest,
+      provider: 'vllm'
+    });
+  });
+
+  it('should throw typed errors from the default stream and embeddings implementations', async () => {
+    class NoResponseProvider extends BaseLLMProvider {
+      constructor() {
+        super('silent' as LLMProvider);
+      }
+
+      async callWithSystemMessage() {
+        return null;
+      }
+    }
+    const provider = new NoResponseProvider();
+
+    const stream = provider.streamWithMessages([{ role: 'user', content: 'Hi' }], { model: 'm1' });
+    await expect(stream.next()).rejects.toMatchObject({
+      name: 'LLMError',
+      message: 'No response received from the silent provider',
+      provider: 'silent',
+      model: 'm1'
+    });
+    await expect(provider.embed('Hi', { model: 'e1' })).rejects.toMatchObject({
+      name: 'LLMInvalidRequestError',
+      message: 'Provider silent does not support embeddings',
+      provider: 'silent'
+    });
+  });
+});
+
+/**
+ * Controller that rethrows whatever the handler throws
+ */
+class TestController extends BaseController {
+  public handle(req: RequestWithUser, res: Response, handler: () => Promise<any>): Promise<void> {
+    return this.handleRequest(req, res, handler);
+  }
+}
+
+function mockResponse() {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn(),
+    setHeader: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn()
+  };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe('BaseController LLM error responses', () => {
+  const req = { path: '/generate', method: 'POST', query: {}, params: {} } as unknown as RequestWithUser;
+
+  it('should send 429 with Retry-After for rate limit errors', async () => {
+    const res = mockResponse();
+
+    await new TestController().handle(req, res as unknown as Response, async () => {
+      throw new LLMRateLimitError('Rate limit exceeded', { provider: 'anthropic', retryAfterMs: 1500 });
+    });
+
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '2');
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      success: false,
+      error: 'Rate limit exceeded',
+      code: 'rate_limit'
+    }));
+  });
+
+  it.each([
+    [new LLMContextLengthError('too long', { provider: 'openai' }), 413],
+    [new LLMInsufficientMemoryError('no memory', { provider: 'ollama' }), 503],
+    [new LLMTimeoutError('slow', { provider: 'ollama' }), 504],
+    [new LLMAuthenticationError('denied', { provider: 'google' }), 502],
+    [new LLMCircuitOpenError('circuit open', { provider: 'ollama' }), 503]
+  ])('should map %p to HTTP %i', async (error, status) => {
+    const res = mockResponse();
+
+    await new TestController().handle(req, res as unknown as Response, async () => {
+      throw error;
+    });
+
+    expect(res.status).toHaveBeenCalledWith(status);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: error.code }));
+  });
+
+  it('should keep 500 for other errors', async () => {
+    const res = mockResponse();
+
+    await new TestController().handle(req, res as unknown as Response, async () => {
+      throw new Error('bug');
+    });
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json.mock.calls[0][0]).not.toHaveProperty('code');
+  });
+});
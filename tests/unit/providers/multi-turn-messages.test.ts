@@ -0,0 +1,141 @@
+import axios from 'axios';
+import {
+  BaseLLMProvider,
+  OllamaProvider,
+  AnthropicProvider,
+  GoogleProvider,
+  LLMService,
+  LLMProvider,
+  ChatMessage,
+  CommonLLMOptions,
+  CommonLLMResponse
+} from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const conversation: ChatMessage[] = [
+  { role: 'system', content: 'You are a geography tutor.' },
+  { role: 'user', content: 'Capital of France?' },
+  { role: 'assistant', content: 'Paris.' },
+  { role: 'user', content: 'And of Germany?' }
+];
+
+/**
+ * Custom provider that only implements the classic single-prompt contract
+ */
+class SinglePromptProvider extends BaseLLMProvider {
+  public lastCall?: { userPrompt: string; systemMessage: string };
+
+  constructor() {
+    super(LLMProvider.OPENAI);
+  }
+
+  async callWithSystemMessage(
+    userPrompt: string,
+    systemMessage: string,
+    options: CommonLLMOptions
+  ): Promise<CommonLLMResponse | null> {
+    this.lastCall = { userPrompt, systemMessage };
+    return { message: { content: 'ok' } };
+  }
+}
+
+describe('Multi-turn messages', () => {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the conversation inline to Ollama, keeping system message placement', async () => {
+    server.respondWith(200, { model: 'llama3', message: { role: 'assistant', content: 'Berlin.' }, done: true });
+    const provider = new OllamaProvider();
+
+    const response = await provider.callWithMessages(conversation, { model: 'llama3', baseUrl: server.baseUrl });
+
+    expect(server.requests[0].body.messages).toEqual(conversation);
+    expect(response?.message.content).toBe('Berlin.');
+  });
+
+  it('should move system messages to the root-level system field for Anthropic', async () => {
+    const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+      status: 200,
+      data: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Berlin.' }],
+        model: 'claude-test',
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 20, output_tokens: 2 }
+      }
+    });
+    const provider = new AnthropicProvider();
+
+    await provider.callWithMessages(conversation, { authToken: 'sk-ant-test', model: 'claude-test' });
+
+    const payload = postSpy.mock.calls[0][1] as any;
+    expect(payload.system).toBe('You are a geography tutor.');
+    expect(payload.messages).toEqual([
+      { role: 'user', content: 'Capital of France?' },
+      { role: 'assistant', content: 'Paris.' },
+      { role: 'user', content: 'And of Germany?' }
+    ]);
+  });
+
+  it('should map system messages to systemInstruction and assistant turns to the model role for Google', async () => {
+    server.respondWith(200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Berlin.' }] }, finishReason: 'STOP' }]
+    });
+    const provider = new GoogleProvider();
+
+    await provider.callWithMessages(conversation, {
+      authToken: 'google-key',
+      model: 'gemini-2.0-flash',
+      baseUrl: server.baseUrl
+    });
+
+    const body = server.requests[0].body;
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'You are a geography tutor.' }] });
+    expect(body.contents.map((content: any) => content.role)).toEqual(['user', 'model', 'user']);
+  });
+
+  it('should route callWithMessages through LLMService to the selected provider', async () => {
+    const service = new LLMService();
+    const custom = new SinglePromptProvider();
+    service.registerProvider('single', custom);
+
+    await service.callWithMessages(
+      [{ role: 'system', content: 'sys' }, { role: 'user', content: 'hello' }],
+      { provider: 'single' }
+    );
+
+    expect(custom.lastCall).toEqual({ userPrompt: 'hello', systemMessage: 'sys' });
+  });
+
+  it('should reject multi-turn conversations for providers without native support', async () => {
+    const custom = new SinglePromptProvider();
+
+    await expect(custom.callWithMessages(conversation)).rejects.toThrow('does not support multi-turn messages');
+  });
+
+  it('should reject empty or system-only message arrays', async () => {
+    const provider = new OllamaProvider();
+
+    await expect(provider.callWithMessages([], { model: 'llama3' })).rejects.toThrow('At least one message is required');
+    await expect(
+      provider.callWithMessages([{ role: 'system', content: 'sys' }], { model: 'llama3' })
+    ).rejects.toThrow('At least one user or assistant message is required');
+  });
+});
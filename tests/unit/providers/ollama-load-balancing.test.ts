@@ -0,0 +1,167 @@
+import {
+  OllamaProvider,
+  HostBalancer,
+  LLMUpstreamError,
+  LLMAuthenticationError,
+  LLMAbortedError
+} from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const upstream = () => new LLMUpstreamError('Provider error (ollama, HTTP 503)', { provider: 'ollama', statusCode: 503 });
+
+/**
+ * Pick hosts and release them immediately
+ */
+function pickUrls(balancer: HostBalancer, count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const lease = balancer.acquire();
+    lease.release();
+    return lease.url;
+  });
+}
+
+describe('HostBalancer', () => {
+  it('should rotate hosts with round-robin', () => {
+    const balancer = new HostBalancer(['http://gpu-1', 'http://gpu-2', 'http://gpu-3']);
+
+    expect(pickUrls(balancer, 4)).toEqual(['http://gpu-1', 'http://gpu-2', 'http://gpu-3', 'http://gpu-1']);
+  });
+
+  it('should spread requests by weight', () => {
+    const balancer = new HostBalancer([{ url: 'http://big', weight: 3 }, { url: 'http://small' }], 'weighted');
+
+    expect(pickUrls(balancer, 4)).toEqual(['http://big', 'http://big', 'http://small', 'http://big']);
+  });
+
+  it('should prefer the host with the fewest running requests', () => {
+    const balancer = new HostBalancer(['http://gpu-1', 'http://gpu-2'], 'least-in-flight');
+
+    const first = balancer.acquire();
+    const second = balancer.acquire();
+    second.release();
+
+    expect([first.url, second.url]).toEqual(['http://gpu-1', 'http://gpu-2']);
+    expect(pickUrls(balancer, 2)).toEqual(['http://gpu-2', 'http://gpu-2']);
+  });
+
+  it('should take failing hosts out of rotation until the cooldown has passed', async () => {
+    const balancer = new HostBalancer(['http://gpu-1', 'http://gpu-2'], 'round-robin', { failureThreshold: 2, cooldownMs: 100 });
+
+    for (let i = 0; i < 2; i++) {
+      await balancer.run(url => url === 'http://gpu-1' ? Promise.reject(upstream()) : Promise.resolve(url)).catch(() => undefined);
+      await balancer.run(url => url === 'http://gpu-1' ? Promise.reject(upstream()) : Promise.resolve(url)).catch(() => undefined);
+    }
+
+    expect(balancer.getStatus()[0]).toMatchObject({
+      url: 'http://gpu-1',
+      healthy: false,
+      consecutiveFailures: 2,
+      unhealthyUntil: expect.any(Date),
+      lastError: 'Provider error (ollama, HTTP 503)'
+    });
+    expect(pickUrls(balancer, 3)).toEqual(['http://gpu-2', 'http://gpu-2', 'http://gpu-2']);
+
+    await wait(120);
+
+    expect(pickUrls(balancer, 2)).toContain('http://gpu-1');
+    expect(balancer.getStatus()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+  });
+
+  it('should not count request errors and cancellations as host failures', async () => {
+    const balancer = new HostBalancer(['http://gpu-1'], 'round-robin', { failureThreshold: 1 });
+
+    await balancer.run(() => Promise.reject(new LLMAuthenticationError('denied', { provider: 'ollama' }))).catch(() => undefined);
+    await balancer.run(() => Promise.reject(new LLMAbortedError('aborted', { provider: 'ollama' }))).catch(() => undefined);
+
+    expect(balancer.getStatus()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0, inFlight: 0 });
+  });
+
+  it('should keep sending requests when every host is out of rotation', async () => {
+    const balancer = new HostBalancer(['http://gpu-1', 'http://gpu-2'], 'round-robin', { failureThreshold: 1, cooldownMs: 60000 });
+
+    await balancer.run(() => Promise.reject(upstream())).catch(() => undefined);
+    await wait(5);
+    await balancer.run(() => Promise.reject(upstream())).catch(() => undefined);
+
+    expect(pickUrls(balancer, 1)).toEqual(['http://gpu-1']);
+  });
+});
+
+describe('OllamaProvider load balancing', () => {
+  let gpu1: MockServer;
+  let gpu2: MockServer;
+  const answer = { model: 'llama3.1', message: { role: 'assistant', content: 'ok' }, done: true };
+
+  beforeEach(async () => {
+    gpu1 = await startMockServer('');
+    gpu2 = await startMockServer('');
+    gpu1.respondWith(200, answer);
+    gpu2.respondWith(200, answer);
+  });
+
+  afterEach(async () => {
+    await gpu1.close();
+    await gpu2.close();
+  });
+
+  it('should balance requests between the configured hosts', async () => {
+    const provider = new OllamaProvider({ hosts: [gpu1.baseUrl, gpu2.baseUrl], model: 'llama3.1' });
+
+    for (let i = 0; i < 4; i++) {
+      await provider.callWithSystemMessage('Hi', 'Be brief');
+    }
+
+    expect(gpu1.requests).toHaveLength(2);
+    expect(gpu2.requests).toHaveLength(2);
+    expect(provider.getBaseUrl()).toBe(`${gpu1.baseUrl},${gpu2.baseUrl}`);
+  });
+
+  it('should route around a failing host', async () => {
+    gpu1.respondWith(503, { error: 'server busy' });
+    const provider = new OllamaProvider({
+      hosts: [gpu1.baseUrl, gpu2.baseUrl],
+      model: 'llama3.1',
+      hostHealth: { failureThreshold: 1, cooldownMs: 60000 }
+    });
+
+    await expect(provider.callWithSystemMessage('Hi', 'Be brief')).rejects.toBeInstanceOf(LLMUpstreamError);
+    for (let i = 0; i < 3; i++) {
+      await provider.callWithSystemMessage('Hi', 'Be brief');
+    }
+
+    expect(gpu1.requests).toHaveLength(1);
+    expect(gpu2.requests).toHaveLength(3);
+    expect(provider.getHostStatus().map(host => [host.url, host.healthy])).toEqual([
+      [gpu1.baseUrl, false],
+      [gpu2.baseUrl, true]
+    ]);
+  });
+
+  it('should balance streams and embeddings and use hosts passed per request', async () => {
+    gpu1.respondWithRaw(200, JSON.stringify(answer) + '\n', 'application/x-ndjson');
+    gpu2.respondWith(200, { model: 'nomic-embed-text', embeddings: [[0.1, 0.2]] });
+    const provider = new OllamaProvider({ model: 'llama3.1' });
+    const hosts = [gpu1.baseUrl, gpu2.baseUrl];
+
+    for await (const _event of provider.streamWithMessages([{ role: 'user', content: 'Hi' }], { hosts })) {
+      // drain
+    }
+    await provider.embed('text', { model: 'nomic-embed-text', hosts });
+
+    expect(gpu1.requests.map(request => request.url)).toEqual(['/api/chat']);
+    expect(gpu2.requests.map(request => request.url)).toEqual(['/api/embed']);
+    expect(provider.getHostStatus().every(host => host.inFlight === 0)).toBe(true);
+  });
+
+  it('should send requests with an explicit baseUrl to that host only', async () => {
+    const provider = new OllamaProvider({ hosts: [gpu1.baseUrl, gpu2.baseUrl], model: 'llama3.1' });
+
+    await provider.callWithSystemMessage('Hi', 'Be brief', { baseUrl: gpu2.baseUrl });
+    await provider.callWithSystemMessage('Hi', 'Be brief', { baseUrl: gpu2.baseUrl });
+
+    expect(gpu1.requests).toHaveLength(0);
+    expect(gpu2.requests).toHaveLength(2);
+    expect(provider.getHostStatus()).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  OllamaModelManager,
+  LLMModelNotFoundError,
+  LLMNetworkError,
+  LLMError,
+  normalizeOllamaModelName
+} from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const tags = {
+  models: [
+    { name: 'llama3.1:latest', model: 'llama3.1:latest', modified_at: '2026-01-01T00:00:00Z', size: 4920753328, digest: 'abc' },
+    { name: 'nomic-embed-text:v1.5', model: 'nomic-embed-text:v1.5', modified_at: '2026-01-01T00:00:00Z', size: 274302450, digest: 'def' }
+  ]
+};
+
+describe('OllamaModelManager', () => {
+  let server: MockServer;
+  let manager: OllamaModelManager;
+
+  beforeEach(async () => {
+    server = await startMockServer('');
+    manager = new OllamaModelManager({ baseUrl: server.baseUrl, authToken: 'secret' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should list the available models', async () => {
+    server.respondWith(200, tags);
+
+    const models = await manager.listModels();
+
+    expect(models.map(model => model.name)).toEqual(['llama3.1:latest', 'nomic-embed-text:v1.5']);
+    expect(server.requests[0]).toMatchObject({ method: 'GET', url: '/api/tags' });
+    expect(server.requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('should match model names without a tag against the latest tag', async () => {
+    server.respondWith(200, tags);
+
+    expect(await manager.hasModel('llama3.1')).toBe(true);
+    expect(await manager.hasModel('nomic-embed-text')).toBe(false);
+    expect(await manager.hasModel('nomic-embed-text:v1.5')).toBe(true);
+  });
+
+  it('should show model information and report unknown models', async () => {
+    server.respondWith(200, { details: { family: 'llama', parameter_size: '8.0B' }, capabilities: ['completion', 'tools'] });
+
+    const info = await manager.showModel('llama3.1');
+
+    expect(info.capabilities).toContain('tools');
+    expect(server.requests[0]).toMatchObject({ method: 'POST', url: '/api/show', body: { model: 'llama3.1' } });
+
+    server.respondWith(404, { error: "model 'mistral' not found" });
+    await expect(manager.showModel('mistral')).rejects.toBeInstanceOf(LLMModelNotFoundError);
+  });
+
+  it('should list running models and delete models', async () => {
+    server.respondWith(200, { models: [{ name: 'llama3.1:latest', model: 'llama3.1:latest', size: 6e9, size_vram: 6e9, digest: 'abc', expires_at: '2026-01-01T00:05:00Z' }] });
+
+    const running = await manager.listRunningModels();
+    server.respondWith(200, {});
+    await manager.deleteModel('llama3.1');
+
+    expect(running[0].size_vram).toBe(6e9);
+    expect(server.requests.map(request => [request.method, request.url])).toEqual([['GET', '/api/ps'], ['DELETE', '/api/delete']]);
+    expect(server.requests[1].body).toEqual({ model: 'llama3.1' });
+  });
+
+  it('should yield the progress events of a pull', async () => {
+    server.respondWithRaw(200, [
+      { status: 'pulling manifest' },
+      { status: 'pulling abc', digest: 'sha256:abc', total: 100, completed: 50 },
+      { status: 'pulling abc', digest: 'sha256:abc', total: 100, completed: 100 },
+      { status: 'success' }
+    ].map(event => JSON.stringify(event)).join('\n') + '\n', 'application/x-ndjson');
+
+    const events = [];
+    for await (const progress of manager.pullModel('llama3.1:8b')) {
+      events.push(progress);
+    }
+
+    expect(events.map(event => event.completed ?? event.status)).toEqual(['pulling manifest', 50, 100, 'success']);
+    expect(server.requests[0]).toMatchObject({ url: '/api/pull', body: { model: 'llama3.1:8b', stream: true } });
+  });
+
+  it('should fail pulls that report an error', async () => {
+    server.respondWithRaw(200, JSON.stringify({ status: 'pulling manifest' }) + '\n' + JSON.stringify({ error: 'pull model manifest: file does not exist' }) + '\n', 'application/x-ndjson');
+
+    const pull = async () => {
+      for await (const _progress of manager.pullModel('does-not-exist')) {
+        // drain
+      }
+    };
+
+    await expect(pull()).rejects.toThrow('pull model manifest: file does not exist');
+    await expect(pull()).rejects.toBeInstanceOf(LLMError);
+  });
+
+  describe('checkConfiguredModels', () => {
+    it('should report configured models that are missing on their host', async () => {
+      server.respondWith(200, tags);
+
+      const results = await manager.checkConfiguredModels({
+        MODEL1: { name: 'llama3.1', baseUrl: server.baseUrl, temperature: 0.8 },
+        MODEL2: { name: 'qwen3:8b', baseUrl: server.baseUrl, temperature: 0.8 },
+        MODEL3: { name: undefined, baseUrl: server.baseUrl, temperature: 0.8 }
+      });
+
+      expect(results.map(result => [result.key, result.available])).toEqual([
+        ['MODEL1', true],
+        ['MODEL2', false],
+        ['MODEL3', false]
+      ]);
+      expect(results[1].error).toContain('ollama pull qwen3:8b');
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should list the models of a host once per bearer token', async () => {
+      server.respondWith(200, tags);
+
+      await manager.checkConfiguredModels({
+        MODEL1: { name: 'llama3.1', baseUrl: server.baseUrl, bearerToken: 'token-a', temperature: 0.8 },
+        MODEL2: { name: 'llama3.1', baseUrl: server.baseUrl, bearerToken: 'token-b', temperature: 0.8 },
+        MODEL3: { name: 'llama3.1', baseUrl: server.baseUrl, bearerToken: 'token-a', temperature: 0.8 }
+      });
+
+      expect(server.requests.map(request => request.headers.authorization)).toEqual(['Bearer token-a', 'Bearer token-b']);
+    });
+
+    it('should check every host of a load-balanced config and throw on request', async () => {
+      server.respondWith(200, tags);
+      const models = {
+        MODEL1: { name: 'llama3.1', baseUrl: server.baseUrl, baseUrls: [server.baseUrl, 'http://127.0.0.1:1'], temperature: 0.8 }
+      };
+
+      const error = await manager.checkConfiguredModels(models, { throwOnMissing: true }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toContain('MODEL1 (Host http://127.0.0.1:1 could not be reached');
+    });
+  });
+
+  it('should map unreachable hosts to network errors', async () => {
+    await expect(new OllamaModelManager({ baseUrl: 'http://127.0.0.1:1' }).listModels()).rejects.toBeInstanceOf(LLMNetworkError);
+  });
+});
+
+describe('normalizeOllamaModelName', () => {
+  it('should add the latest tag only to names without a tag', () => {
+    expect(normalizeOllamaModelName('llama3.1')).toBe('llama3.1:latest');
+    expect(normalizeOllamaModelName('llama3.1:8b')).toBe('llama3.1:8b');
+    expect(normalizeOllamaModelName('registry.local:5000/team/model')).toBe('registry.local:5000/team/model:latest');
+  });
+});
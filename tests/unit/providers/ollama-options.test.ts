@@ -0,0 +1,127 @@
+import {
+  OllamaProvider,
+  buildOllamaModelOptions,
+  findUnknownOllamaOptions
+} from '../../../src/middleware/services/llm';
+import { logger } from '../../../src/middleware/shared/utils/logging.utils';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+describe('Ollama options', () => {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    server.respondWith(200, { model: 'llama3', message: { role: 'assistant', content: 'ok' }, done: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should forward every model parameter in the options field', async () => {
+    const provider = new OllamaProvider();
+
+    await provider.callWithSystemMessage('Hi', 'Be brief', {
+      model: 'llama3',
+      baseUrl: server.baseUrl,
+      temperature: 0.2,
+      seed: 42,
+      stop: ['</answer>', '\n\n'],
+      min_p: 0.05,
+      num_ctx: 8192,
+      num_batch: 256,
+      num_gpu: 99,
+      use_mmap: false,
+      mirostat: 2,
+      typical_p: 0.9,
+      num_thread: 8,
+      keep_alive: '10m'
+    });
+
+    const body = server.requests[0].body;
+    expect(body.options).toEqual({
+      temperature: 0.2,
+      seed: 42,
+      stop: ['</answer>', '\n\n'],
+      min_p: 0.05,
+      num_ctx: 8192,
+      num_batch: 256,
+      num_gpu: 99,
+      use_mmap: false,
+      mirostat: 2,
+      typical_p: 0.9,
+      num_thread: 8
+    });
+    expect(body.keep_alive).toBe('10m');
+    expect(body).not.toHaveProperty('temperature');
+  });
+
+  it('should forward the options of streaming requests', async () => {
+    server.respondWithRaw(200, `${JSON.stringify({ model: 'llama3', message: { role: 'assistant', content: 'ok' }, done: true })}\n`, 'application/x-ndjson');
+    const provider = new OllamaProvider();
+
+    for await (const _event of provider.streamWithMessages([{ role: 'user', content: 'Hi' }], { model: 'llama3', baseUrl: server.baseUrl, seed: 7, num_ctx: 4096 })) {
+      // consume the stream
+    }
+
+    expect(server.requests[0].body.options).toEqual({ temperature: 0.7, seed: 7, num_ctx: 4096 });
+  });
+
+  it('should use maxTokens as num_predict unless num_predict is set', async () => {
+    const provider = new OllamaProvider();
+
+    await provider.call('Hi', { model: 'llama3', baseUrl: server.baseUrl, maxTokens: 100 });
+    await provider.callWithSystemMessage('Hi', 'Be brief', { model: 'llama3', baseUrl: server.baseUrl, maxTokens: 100, num_predict: -1 });
+
+    expect(server.requests.map(request => request.body.options.num_predict)).toEqual([100, -1]);
+  });
+
+  it('should reject invalid values before sending the request', async () => {
+    const provider = new OllamaProvider();
+    const call = (options: Record<string, unknown>) => provider.call('Hi', { model: 'llama3', baseUrl: server.baseUrl, ...options });
+
+    await expect(call({ seed: 1.5 })).rejects.toThrow('Ollama option seed must be an integer (got 1.5)');
+    await expect(call({ stop: 'END' })).rejects.toThrow('Ollama option stop must be an array of strings');
+    await expect(call({ top_p: 1.5 })).rejects.toThrow('Ollama option top_p must be between 0 and 1 (got 1.5)');
+    await expect(call({ num_ctx: 0 })).rejects.toThrow('Ollama option num_ctx must be at least 1 (got 0)');
+    await expect(call({ keep_alive: '' })).rejects.toThrow('Ollama option keep_alive must be a duration');
+    await expect(call({ mirostat: 3 })).rejects.toMatchObject({ name: 'LLMInvalidRequestError', code: 'invalid_request', model: 'llama3' });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('should warn about unknown options and not send them', async () => {
+    const warn = jest.spyOn(logger, 'warn').mockResolvedValue(undefined);
+    const provider = new OllamaProvider();
+
+    await provider.call('Hi', { model: 'llama3', baseUrl: server.baseUrl, numCtx: 4096, foo: true } as any);
+
+    expect(warn).toHaveBeenCalledWith('Ignoring unknown Ollama options: numCtx (did you mean num_ctx?), foo', expect.any(Object));
+    expect(server.requests[0].body.options).toEqual({ temperature: 0.7 });
+    expect(server.requests[0].body).not.toHaveProperty('numCtx');
+  });
+
+  it('should not warn about common and service options', () => {
+    expect(findUnknownOllamaOptions({
+      provider: 'ollama',
+      fallbackChain: 'resilient',
+      cachePolicy: 'use',
+      deduplicate: false,
+      maxTokens: 10,
+      keep_alive: 0,
+      num_ctx: 2048,
+      unused: undefined
+    })).toEqual([]);
+  });
+
+  it('should leave unset parameters out', () => {
+    expect(buildOllamaModelOptions({ model: 'llama3' })).toEqual({ temperature: 0.7 });
+  });
+});
@@ -0,0 +1,108 @@
+import { OpenAICompatibleProvider } from '../../../src/middleware/services/llm/providers/openai-compatible-provider';
+import { LLMService } from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const completion = {
+  id: 'cmpl-local',
+  object: 'chat.completion',
+  created: 1700000000,
+  model: 'llama-3.1-8b-instruct',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: 'Hello from a local server' },
+      finish_reason: 'stop'
+    }
+  ]
+};
+
+describe('OpenAICompatibleProvider', () => {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    server.respondWith(200, completion);
+  });
+
+  it('should call the configured server with the default base path and model', async () => {
+    const provider = new OpenAICompatibleProvider({
+      name: 'vllm',
+      baseUrl: server.baseUrl,
+      model: 'llama-3.1-8b-instruct'
+    });
+
+    const response = await provider.call('Hi');
+
+    expect(server.requests[0].url).toBe('/v1/chat/completions');
+    expect(server.requests[0].body.model).toBe('llama-3.1-8b-instruct');
+    expect(server.requests[0].headers.authorization).toBeUndefined();
+    expect(response?.message.content).toBe('Hello from a local server');
+    expect(response?.metadata?.provider).toBe('vllm');
+  });
+
+  it('should support a custom base path and custom auth header', async () => {
+    const provider = new OpenAICompatibleProvider({
+      name: 'llamacpp',
+      baseUrl: server.baseUrl,
+      basePath: '/api/openai/v1',
+      model: 'local',
+      authToken: 'secret',
+      authHeader: 'X-API-Key',
+      headers: { 'X-Tenant': 'team-a' }
+    });
+
+    await provider.call('Hi');
+
+    const [request] = server.requests;
+    expect(request.url).toBe('/api/openai/v1/chat/completions');
+    expect(request.headers['x-api-key']).toBe('secret');
+    expect(request.headers['x-tenant']).toBe('team-a');
+    expect(request.headers.authorization).toBeUndefined();
+  });
+
+  it('should omit usage when the server does not report it', async () => {
+    const provider = new OpenAICompatibleProvider({ name: 'lmstudio', baseUrl: server.baseUrl, model: 'local' });
+
+    const response = await provider.call('Hi');
+
+    expect(response?.usage).toBeUndefined();
+    expect(response?.metadata?.tokensUsed).toBeUndefined();
+  });
+
+  it('should normalize partial usage fields', async () => {
+    server.respondWith(200, { ...completion, usage: { prompt_tokens: 8, completion_tokens: 3 } });
+    const provider = new OpenAICompatibleProvider({ name: 'lmstudio', baseUrl: server.baseUrl, model: 'local' });
+
+    const response = await provider.call('Hi');
+
+    expect(response?.usage).toEqual({ inputTokens: 8, outputTokens: 3, totalTokens: 11 });
+  });
+
+  it('should throw when no model is configured or passed', async () => {
+    const provider = new OpenAICompatibleProvider({ name: 'vllm', baseUrl: server.baseUrl });
+
+    await expect(provider.call('Hi')).rejects.toThrow('Model name is required');
+  });
+
+  it('should be registrable multiple times under different names', async () => {
+    const service = new LLMService();
+    service.registerProvider('gpu1', new OpenAICompatibleProvider({ name: 'gpu1', baseUrl: server.baseUrl, model: 'a' }));
+    service.registerProvider('gpu2', new OpenAICompatibleProvider({ name: 'gpu2', baseUrl: server.baseUrl, model: 'b' }));
+
+    const first = await service.call('Hi', { provider: 'gpu1' });
+    const second = await service.call('Hi', { provider: 'gpu2' });
+
+    expect(service.getAvailableProviders()).toEqual(expect.arrayContaining(['gpu1', 'gpu2']));
+    expect(server.requests.map(request => request.body.model)).toEqual(['a', 'b']);
+    expect(first?.metadata?.provider).toBe('gpu1');
+    expect(second?.metadata?.provider).toBe('gpu2');
+  });
+});
@@ -0,0 +1,137 @@
+import { OpenAIProvider } from '../../../src/middleware/services/llm/providers/openai-provider';
+import { LLMService, LLMProvider, LLMAuthenticationError } from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const completion = {
+  id: 'chatcmpl-123',
+  object: 'chat.completion',
+  created: 1700000000,
+  model: 'gpt-4o-mini-2024-07-18',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: 'Hello from OpenAI' },
+      finish_reason: 'stop'
+    }
+  ],
+  usage: {
+    prompt_tokens: 12,
+    completion_tokens: 5,
+    total_tokens: 17,
+    prompt_tokens_details: { cached_tokens: 4 }
+  },
+  system_fingerprint: 'fp_abc'
+};
+
+describe('OpenAIProvider', () => {
+  let server: MockServer;
+  let provider: OpenAIProvider;
+
+  beforeAll(async () => {
+    server = await startMockServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    provider = new OpenAIProvider();
+    server.requests.length = 0;
+    server.respondWith(200, completion);
+  });
+
+  it('should send a chat completions request with mapped options', async () => {
+    await provider.callWithSystemMessage('Hi', 'Be brief', {
+      baseUrl: server.baseUrl,
+      authToken: 'sk-test',
+      model: 'gpt-4o-mini',
+      temperature: 0.2,
+      maxTokens: 64,
+      seed: 7
+    });
+
+    expect(server.requests).toHaveLength(1);
+    const [request] = server.requests;
+    expect(request.url).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer sk-test');
+    expect(request.body).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' }
+      ],
+      temperature: 0.2,
+      stream: false,
+      max_tokens: 64,
+      seed: 7
+    });
+  });
+
+  it('should normalize the response and token usage', async () => {
+    const response: any = await provider.callWithSystemMessage('Hi', 'Be brief', {
+      baseUrl: server.baseUrl,
+      authToken: 'sk-test',
+      model: 'gpt-4o-mini',
+      sessionId: 'session-1'
+    });
+
+    expect(response.message.content).toBe('Hello from OpenAI');
+    expect(response.sessionId).toBe('session-1');
+    expect(response.metadata).toMatchObject({
+      provider: LLMProvider.OPENAI,
+      model: 'gpt-4o-mini-2024-07-18',
+      tokensUsed: 17
+    });
+    expect(response.usage).toEqual({
+      inputTokens: 12,
+      outputTokens: 5,
+      totalTokens: 17,
+      cacheMetadata: { cacheReadTokens: 4 }
+    });
+    expect(response.finish_reason).toBe('stop');
+    expect(response.id).toBe('chatcmpl-123');
+  });
+
+  it('should omit max_tokens when maxTokens is not provided', async () => {
+    await provider.callWithSystemMessage('Hi', 'Be brief', {
+      baseUrl: server.baseUrl,
+      authToken: 'sk-test',
+      model: 'gpt-4o-mini'
+    });
+
+    expect(server.requests[0].body).not.toHaveProperty('max_tokens');
+  });
+
+  it('should throw typed errors on API errors', async () => {
+    server.respondWith(401, { error: { message: 'Incorrect API key provided', type: 'invalid_request_error' } });
+
+    await expect(provider.callWithSystemMessage('Hi', 'Be brief', {
+      baseUrl: server.baseUrl,
+      authToken: 'sk-wrong',
+      model: 'gpt-4o-mini'
+    })).rejects.toBeInstanceOf(LLMAuthenticationError);
+  });
+
+  it('should throw when no API key is available', async () => {
+    const previousKey = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+
+    try {
+      await expect(
+        provider.callWithSystemMessage('Hi', 'Be brief', { baseUrl: server.baseUrl })
+      ).rejects.toThrow('OpenAI API key is required');
+    } finally {
+      if (previousKey !== undefined) {
+        process.env.OPENAI_API_KEY = previousKey;
+      }
+    }
+  });
+
+  it('should be registered in LLMService', () => {
+    const service = new LLMService();
+
+    expect(service.getAvailableProviders()).toContain(LLMProvider.OPENAI);
+    expect(service.getProvider(LLMProvider.OPENAI)).toBeInstanceOf(OpenAIProvider);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  OllamaProvider,
+  AnthropicProvider,
+  CommonLLMOptions,
+  CommonLLMResponse
+} from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+class EchoProvider extends BaseLLMProvider {
+  constructor() {
+    super('echo' as LLMProvider);
+  }
+
+  async callWithSystemMessage(userPrompt: string, _systemMessage: string, _options: CommonLLMOptions): Promise<CommonLLMResponse | null> {
+    return { message: { content: `echo: ${userPrompt}` } };
+  }
+}
+
+describe('LLMService provider registry', () => {
+  let hostA: MockServer;
+  let hostB: MockServer;
+
+  beforeAll(async () => {
+    hostA = await startMockServer('');
+    hostB = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await hostA.close();
+    await hostB.close();
+  });
+
+  it('should route calls to custom provider classes', async () => {
+    const service = new LLMService();
+    service.registerProvider('echo', new EchoProvider());
+
+    const response = await service.call('Hello', { provider: 'echo' });
+
+    expect(response?.message.content).toBe('echo: Hello');
+    expect(service.getAvailableProviders()).toContain('echo');
+  });
+
+  it('should keep several instances of the same class apart', async () => {
+    hostA.respondWith(200, { model: 'llama3.1', message: { role: 'assistant', content: 'from A' }, done: true });
+    hostB.respondWith(200, { model: 'qwen', message: { role: 'assistant', content: 'from B' }, done: true });
+    const service = new LLMService();
+    service.registerProvider('ollama-a', new OllamaProvider({ name: 'ollama-a', baseUrl: hostA.baseUrl, model: 'llama3.1' }));
+    service.registerProvider('ollama-b', new OllamaProvider({ name: 'ollama-b', baseUrl: hostB.baseUrl, model: 'qwen' }));
+
+    const responseA = await service.call('Hi', { provider: 'ollama-a' });
+    const responseB = await service.call('Hi', { provider: 'ollama-b' });
+
+    expect(responseA?.message.content).toBe('from A');
+    expect(responseB?.message.content).toBe('from B');
+    expect(hostA.requests[0].body.model).toBe('llama3.1');
+    expect(hostB.requests[0].body.model).toBe('qwen');
+  });
+
+  it('should return typed instances and check their class', () => {
+    const service = new LLMService();
+
+    const ollama: OllamaProvider = service.getProvider(LLMProvider.OLLAMA, OllamaProvider);
+
+    expect(ollama).toBeInstanceOf(OllamaProvider);
+    expect(() => service.getProvider(LLMProvider.OLLAMA, AnthropicProvider))
+      .toThrow('Provider ollama is a OllamaProvider, not a AnthropicProvider');
+  });
+
+  it('should unregister providers', () => {
+    const service = new LLMService();
+    service.registerProvider('echo', new EchoProvider());
+
+    expect(service.unregisterProvider('echo')).toBe(true);
+    expect(service.unregisterProvider('echo')).toBe(false);
+    expect(service.hasProvider('echo')).toBe(false);
+    expect(() => service.getProvider('echo')).toThrow('Provider echo is not available');
+  });
+
+  it('should not unregister the default provider', () => {
+    const service = new LLMService();
+
+    expect(() => service.unregisterProvider(LLMProvider.OLLAMA)).toThrow('is the default provider');
+
+    service.setDefaultProvider(LLMProvider.ANTHROPIC);
+    expect(service.unregisterProvider(LLMProvider.OLLAMA)).toBe(true);
+  });
+
+  it('should reject objects that are not providers', () => {
+    const service = new LLMService();
+
+    expect(() => service.registerProvider('fake', {} as BaseLLMProvider)).toThrow('must extend BaseLLMProvider');
+  });
+});
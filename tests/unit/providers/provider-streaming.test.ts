@@ -0,0 +1,139 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { OllamaProvider } from '../../../src/middleware/services/llm/providers/ollama-provider';
+import { AnthropicProvider } from '../../../src/middleware/services/llm/providers/anthropic-provider';
+import { OpenAICompatibleProvider } from '../../../src/middleware/services/llm/providers/openai-compatible-provider';
+import { LLMStreamEvent } from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+async function collect(stream: AsyncIterable<LLMStreamEvent>): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('Provider streaming', () => {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  describe('OllamaProvider', () => {
+    const ndjson = [
+      { model: 'llama3', message: { role: 'assistant', content: 'Hel' }, done: false },
+      { model: 'llama3', message: { role: 'assistant', content: 'lo' }, done: false },
+      {
+        model: 'llama3',
+        message: { role: 'assistant', content: '' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 9,
+        eval_count: 2
+      }
+    ].map(chunk => JSON.stringify(chunk)).join('\n') + '\n';
+
+    it('should yield deltas and a final done event with usage', async () => {
+      server.respondWithRaw(200, ndjson, 'application/x-ndjson');
+      const provider = new OllamaProvider();
+
+      const events = await collect(provider.streamWithSystemMessage('Hi', 'Be brief', {
+        model: 'llama3',
+        baseUrl: server.baseUrl
+      }));
+
+      expect(server.requests[0].url).toBe('/api/chat');
+      expect(server.requests[0].body.stream).toBe(true);
+      expect(events.filter(e => e.type === 'delta')).toEqual([
+        { type: 'delta', content: 'Hel' },
+        { type: 'delta', content: 'lo' }
+      ]);
+
+      const done = events[events.length - 1];
+      expect(done.type).toBe('done');
+      if (done.type === 'done') {
+        expect(done.finishReason).toBe('stop');
+        expect(done.usage).toEqual({ inputTokens: 9, outputTokens: 2, totalTokens: 11 });
+        expect(done.response.message.content).toBe('Hello');
+      }
+    });
+
+    it('should throw with the server error message on HTTP errors', async () => {
+      server.respondWithRaw(404, JSON.stringify({ error: "model 'missing' not found" }), 'application/json');
+      const provider = new OllamaProvider();
+
+      await expect(
+        collect(provider.streamWithSystemMessage('Hi', 'Be brief', { model: 'missing', baseUrl: server.baseUrl }))
+      ).rejects.toThrow("model 'missing' not found");
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should assemble text deltas from SSE events', async () => {
+      const sse = [
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","type":"message","role":"assistant","content":[],"model":"claude-test","stop_reason":null,"usage":{"input_tokens":12,"output_tokens":1}}}\n\n',
+        'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+        'event: ping\ndata: {"type":"ping"}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hello"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" world"}}\n\n',
+        'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn","stop_sequence":null},"usage":{"output_tokens":5}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+      ];
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+        status: 200,
+        data: Readable.from(sse.map(part => Buffer.from(part)))
+      });
+      const provider = new AnthropicProvider();
+
+      const events = await collect(provider.streamWithSystemMessage('Hi', 'Be brief', {
+        authToken: 'sk-ant-test',
+        model: 'claude-test'
+      }));
+
+      expect(postSpy.mock.calls[0][1]).toMatchObject({ stream: true, system: 'Be brief' });
+      expect(events.filter(e => e.type === 'delta').map(e => (e as any).content)).toEqual(['Hello', ' world']);
+
+      const done = events[events.length - 1];
+      expect(done.type).toBe('done');
+      if (done.type === 'done') {
+        expect(done.finishReason).toBe('stop');
+        expect(done.usage).toEqual({ inputTokens: 12, outputTokens: 5, totalTokens: 17 });
+        expect(done.response.message.content).toBe('Hello world');
+      }
+    });
+  });
+
+  describe('Fallback for providers without native streaming', () => {
+    it('should emit the complete content as one delta followed by done', async () => {
+      server.respondWith(200, {
+        id: 'cmpl-1',
+        object: 'chat.completion',
+        created: 1,
+        model: 'local',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Full answer' }, finish_reason: 'stop' }]
+      });
+      const provider = new OpenAICompatibleProvider({ name: 'local', baseUrl: server.baseUrl, model: 'local' });
+
+      const events = await collect(provider.stream('Hi'));
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toEqual({ type: 'delta', content: 'Full answer' });
+      expect(events[1].type).toBe('done');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  LLMAbortedError,
+  LLMUpstreamError,
+  SingleFlight
+} from '../../../src/middleware/services/llm';
+
+/**
+ * Provider stub whose calls stay pending until they are finished by the test
+ * Pending calls reject with LLMAbortedError when their signal aborts
+ */
+class PendingProvider extends BaseLLMProvider {
+  public options: CommonLLMOptions[] = [];
+  private pending: Array<{ finish: (error?: Error) => void }> = [];
+
+  constructor() {
+    super('pending' as LLMProvider);
+  }
+
+  async callWithSystemMessage(userPrompt: string, _systemMessage: string, options: CommonLLMOptions = {}): Promise<CommonLLMResponse | null> {
+    const callNumber = this.options.push(options);
+    await new Promise<void>((resolve, reject) => {
+      const entry = { finish: (error?: Error) => error ? reject(error) : resolve() };
+      this.pending.push(entry);
+      options.signal?.addEventListener('abort', () => {
+        this.pending = this.pending.filter(candidate => candidate !== entry);
+        reject(new LLMAbortedError('Request to pending was aborted', { provider: 'pending' }));
+      });
+    });
+    return { message: { content: `answer ${callNumber} to ${userPrompt}` }, metadata: { provider: 'pending', model: 'm' } };
+  }
+
+  /** Finish the oldest pending call, optionally with an error */
+  finishNext(error?: Error): void {
+    this.pending.shift()?.finish(error);
+  }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('LLMService request deduplication', () => {
+  let service: LLMService;
+  let provider: PendingProvider;
+
+  beforeEach(() => {
+    service = new LLMService();
+    provider = new PendingProvider();
+    service.registerProvider('pending', provider);
+  });
+
+  const call = (prompt: string, options: CommonLLMOptions = {}) =>
+    service.call(prompt, { provider: 'pending', model: 'm', temperature: 0, ...options });
+
+  it('should share one provider call between identical concurrent requests', async () => {
+    const calls = [call('Hi'), call('Hi'), call('Hi', { debugContext: 'other-client' }), call('Hello')];
+    await flush();
+
+    expect(provider.options).toHaveLength(2);
+
+    provider.finishNext();
+    provider.finishNext();
+    const [first, second, third, other] = await Promise.all(calls);
+
+    expect([first, second, third].map(response => response?.message.content)).toEqual(['answer 1 to Hi', 'answer 1 to Hi', 'answer 1 to Hi']);
+    expect(other?.message.content).toBe('answer 2 to Hello');
+    expect(first?.metadata).not.toHaveProperty('deduplicated');
+    expect(second?.metadata?.deduplicated).toBe(true);
+    expect(second).not.toBe(first);
+  });
+
+  it('should not share calls between different credentials, headers, hosts or timeouts', async () => {
+    const calls = [
+      call('Hi', { authToken: 'tenant-a' }),
+      call('Hi', { authToken: 'tenant-b' }),
+      call('Hi', { authToken: 'tenant-a', headers: { 'X-Tenant': 'b' } }),
+      call('Hi', { authToken: 'tenant-a', baseUrl: 'http://gpu-2:11434' }),
+      call('Hi', { authToken: 'tenant-a', timeoutMs: 1000 }),
+      call('Hi', { authToken: 'tenant-a' })
+    ];
+    await flush();
+
+    expect(provider.options.map(options => options.authToken)).toEqual(['tenant-a', 'tenant-b', 'tenant-a', 'tenant-a', 'tenant-a']);
+
+    provider.options.forEach(() => provider.finishNext());
+    const responses = await Promise.all(calls);
+    expect(responses[5]?.metadata?.deduplicated).toBe(true);
+  });
+
+  it('should send a new call once the shared call has finished', async () => {
+    const first = call('Hi');
+    await flush();
+    provider.finishNext();
+    await first;
+
+    const second = call('Hi');
+    await flush();
+    provider.finishNext();
+
+    expect((await second)?.message.content).toBe('answer 2 to Hi');
+  });
+
+  it('should pass the error of the shared call to every request', async () => {
+    const calls = [call('Hi'), call('Hi')];
+    await flush();
+    provider.finishNext(new LLMUpstreamError('server busy', { provider: 'pending', statusCode: 503 }));
+
+    const results = await Promise.allSettled(calls);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(provider.options).toHaveLength(1);
+  });
+
+  it('should let one request leave without cancelling the shared call', async () => {
+    const controller = new AbortController();
+    const first = call('Hi', { signal: controller.signal });
+    const second = call('Hi');
+    await flush();
+
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(LLMAbortedError);
+    expect(provider.options[0].signal?.aborted).toBe(false);
+    provider.finishNext();
+    expect((await second)?.message.content).toBe('answer 1 to Hi');
+  });
+
+  it('should cancel the shared call once every request has been aborted', async () => {
+    const controllers = [new AbortController(), new AbortController()];
+    const calls = controllers.map(controller => call('Hi', { signal: controller.signal }));
+    await flush();
+
+    controllers.forEach(controller => controller.abort());
+
+    const results = await Promise.allSettled(calls);
+    expect(results.every(result => result.status === 'rejected' && result.reason instanceof LLMAbortedError)).toBe(true);
+    expect(provider.options[0].signal?.aborted).toBe(true);
+
+    const next = call('Hi');
+    await flush();
+    provider.finishNext();
+    expect((await next)?.message.content).toBe('answer 2 to Hi');
+  });
+
+  it('should not deduplicate calls that opt out or when deduplication is off', async () => {
+    const optedOut = [call('Hi', { deduplicate: false }), call('Hi', { deduplicate: false })];
+    await flush();
+    expect(provider.options).toHaveLength(2);
+    expect(provider.options[0]).not.toHaveProperty('deduplicate');
+
+    service.setDeduplication(false);
+    const disabled = [call('Hello'), call('Hello')];
+    await flush();
+    expect(provider.options).toHaveLength(4);
+
+    [...optedOut, ...disabled].forEach(() => provider.finishNext());
+    await Promise.all([...optedOut, ...disabled]);
+  });
+});
+
+describe('SingleFlight', () => {
+  it('should remove finished calls', async () => {
+    const flights = new SingleFlight();
+
+    const result = await flights.run('key', 'ollama', undefined, () => Promise.resolve('ok'));
+
+    expect(result).toEqual({ result: 'ok', shared: false });
+    expect(flights.size).toBe(0);
+  });
+
+  it('should reject requests whose signal is already aborted', async () => {
+    const flights = new SingleFlight();
+    const request = jest.fn(() => Promise.resolve('ok'));
+
+    await expect(flights.run('key', 'ollama', AbortSignal.abort(), request)).rejects.toBeInstanceOf(LLMAbortedError);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
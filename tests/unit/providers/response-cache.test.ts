@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  MemoryCacheStore,
+  FileCacheStore,
+  ResponseCacheStore,
+  createCacheKey
+} from '../../../src/middleware/services/llm';
+
+/**
+ * Provider stub that numbers its answers
+ */
+class CountingProvider extends BaseLLMProvider {
+  public options: CommonLLMOptions[] = [];
+
+  constructor() {
+    super('counting' as LLMProvider);
+  }
+
+  async callWithSystemMessage(userPrompt: string, _systemMessage: string, options: CommonLLMOptions = {}): Promise<CommonLLMResponse | null> {
+    this.options.push(options);
+    return {
+      message: { content: `answer ${this.options.length} to ${userPrompt}` },
+      metadata: { provider: 'counting', model: options.model || 'default' }
+    };
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('LLMService response cache', () => {
+  let service: LLMService;
+  let provider: CountingProvider;
+
+  beforeEach(() => {
+    service = new LLMService();
+    provider = new CountingProvider();
+    service.registerProvider('counting', provider);
+    service.setResponseCache({});
+  });
+
+  const call = (prompt: string, options: CommonLLMOptions = {}) =>
+    service.callWithSystemMessage(prompt, 'Be brief', { provider: 'counting', model: 'm', temperature: 0, ...options });
+
+  it('should answer repeated calls from the cache', async () => {
+    const first = await call('Hi');
+    const second = await call('Hi');
+
+    expect(provider.options).toHaveLength(1);
+    expect(second?.message.content).toBe('answer 1 to Hi');
+    expect(first?.metadata?.cache).toEqual({ hit: false, key: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(second?.metadata?.cache).toEqual({ hit: true, key: first?.metadata?.cache?.key, ageMs: expect.any(Number) });
+    expect(provider.options[0]).not.toHaveProperty('cachePolicy');
+  });
+
+  it('should key on model, messages and parameters but not on connection options', async () => {
+    await call('Hi');
+    await call('Hi', { baseUrl: 'http://gpu-2:11434', headers: { 'X-Trace': '1' }, timeoutMs: 5000, debugContext: 'test' });
+    await call('Hi', { temperature: 0.5 });
+    await call('Hi', { model: 'other' });
+    await call('Hello');
+    await service.callWithMessages([{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }], { provider: 'counting', model: 'm', temperature: 0 });
+
+    expect(provider.options).toHaveLength(5);
+  });
+
+  it('should follow the cache policy of the call', async () => {
+    await call('Hi');
+
+    const bypassed = await call('Hi', { cachePolicy: 'bypass' });
+    const refreshed = await call('Hi', { cachePolicy: 'refresh' });
+    const cached = await call('Hi');
+
+    expect(bypassed?.metadata).not.toHaveProperty('cache');
+    expect(refreshed?.metadata?.cache?.hit).toBe(false);
+    expect(cached?.message.content).toBe('answer 3 to Hi');
+    expect(provider.options).toHaveLength(3);
+  });
+
+  it('should ask the provider again once an entry has expired', async () => {
+    service.setResponseCache({ ttlMs: 20 });
+
+    await call('Hi');
+    await call('Hi');
+    await call('Hello', { cacheTtlMs: 60000 });
+    await wait(30);
+    await call('Hi');
+    await call('Hello');
+
+    expect(provider.options.length).toBe(3);
+    expect((await call('Hi'))?.message.content).toBe('answer 3 to Hi');
+  });
+
+  it('should not let callers modify cached responses', async () => {
+    const first = await call('Hi');
+    first!.message.content = 'changed';
+    (await call('Hi'))!.message.content = 'changed again';
+
+    expect((await call('Hi'))?.message.content).toBe('answer 1 to Hi');
+  });
+
+  it('should call the provider when the cache store fails', async () => {
+    const failingStore: ResponseCacheStore = {
+      get: () => Promise.reject(new Error('disk full')),
+      set: () => Promise.reject(new Error('disk full')),
+      delete: () => Promise.resolve(),
+      clear: () => Promise.resolve()
+    };
+    service.setResponseCache({ store: failingStore });
+
+    await expect(call('Hi')).resolves.toMatchObject({ message: { content: 'answer 1 to Hi' } });
+  });
+
+  it('should not cache when the cache is disabled', async () => {
+    service.setResponseCache(false);
+
+    await call('Hi');
+    const second = await call('Hi');
+
+    expect(provider.options).toHaveLength(2);
+    expect(second?.metadata).not.toHaveProperty('cache');
+  });
+});
+
+describe('Response cache stores', () => {
+  const entry = (content: string) => ({ response: { message: { content } }, createdAt: Date.now() });
+
+  it('should evict the least recently used entry from the memory store', async () => {
+    const store = new MemoryCacheStore(2);
+
+    await store.set('a', entry('a'));
+    await store.set('b', entry('b'));
+    await store.get('a');
+    await store.set('c', entry('c'));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+
+  it('should keep entries in files across store instances', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+    try {
+      const key = createCacheKey({ provider: 'ollama', model: 'm', method: 'call', userPrompt: 'Hi', options: {} });
+      await new FileCacheStore(directory).set(key, entry('cached'));
+
+      const store = new FileCacheStore(directory);
+      expect((await store.get(key))?.response.message.content).toBe('cached');
+      expect(await store.get('missing')).toBeUndefined();
+
+      await store.clear();
+      expect(fs.readdirSync(directory)).toEqual([]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should build the same key regardless of option order', () => {
+    const input = { provider: 'ollama', model: 'm', method: 'call', userPrompt: 'Hi' };
+
+    expect(createCacheKey({ ...input, options: { temperature: 0, maxTokens: 10 } }))
+      .toBe(createCacheKey({ ...input, options: { maxTokens: 10, temperature: 0, signal: new AbortController().signal } }));
+  });
+});
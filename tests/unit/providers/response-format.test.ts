@@ -0,0 +1,185 @@
+import axios from 'axios';
+import {
+  OllamaProvider,
+  AnthropicProvider,
+  OpenAIProvider,
+  GoogleProvider
+} from '../../../src/middleware/services/llm';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const personSchema = {
+  type: 'object',
+  properties: { name: { type: 'string' }, age: { type: 'number' } },
+  required: ['name', 'age']
+};
+
+function anthropicMessage(text: string) {
+  return {
+    status: 200,
+    data: {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text }],
+      model: 'claude-test',
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 5 }
+    }
+  };
+}
+
+describe('Response format', () => {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('OllamaProvider', () => {
+    beforeEach(() => {
+      server.respondWith(200, { model: 'llama3', message: { role: 'assistant', content: '{"name":"Ada","age":36}' }, done: true });
+    });
+
+    it('should send json mode as format and report native-json', async () => {
+      const provider = new OllamaProvider();
+
+      const response = await provider.call('Who?', { model: 'llama3', baseUrl: server.baseUrl, responseFormat: 'json' });
+
+      expect(server.requests[0].body.format).toBe('json');
+      expect(response?.metadata?.responseFormat).toBe('native-json');
+    });
+
+    it('should send the JSON schema as format and report native-schema', async () => {
+      const provider = new OllamaProvider();
+
+      const response = await provider.call('Who?', {
+        model: 'llama3',
+        baseUrl: server.baseUrl,
+        responseFormat: { schema: personSchema }
+      });
+
+      expect(server.requests[0].body.format).toEqual(personSchema);
+      expect(response?.metadata?.responseFormat).toBe('native-schema');
+    });
+
+    it('should not send a format when none is requested', async () => {
+      const provider = new OllamaProvider();
+
+      const response = await provider.call('Who?', { model: 'llama3', baseUrl: server.baseUrl });
+
+      expect(server.requests[0].body.format).toBeUndefined();
+      expect(response?.metadata?.responseFormat).toBeUndefined();
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should add schema instructions and an assistant prefill, and restore the prefill in the response', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue(anthropicMessage('"name":"Ada","age":36}'));
+      const provider = new AnthropicProvider();
+
+      const response = await provider.callWithSystemMessage('Who?', 'Extract the person.', {
+        authToken: 'sk-ant-test',
+        model: 'claude-test',
+        responseFormat: { schema: personSchema }
+      });
+
+      const payload = postSpy.mock.calls[0][1] as any;
+      expect(payload.system).toContain('Extract the person.');
+      expect(payload.system).toContain('"required": [');
+      expect(payload.messages[payload.messages.length - 1]).toEqual({ role: 'assistant', content: '{' });
+      expect(response?.message.content).toBe('{"name":"Ada","age":36}');
+      expect(response?.metadata?.responseFormat).toBe('prompt-prefill');
+    });
+
+    it('should prefill with [ for array schemas', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue(anthropicMessage('1,2]'));
+      const provider = new AnthropicProvider();
+
+      const response = await provider.call('Numbers?', {
+        authToken: 'sk-ant-test',
+        model: 'claude-test',
+        responseFormat: { schema: { type: 'array', items: { type: 'number' } } }
+      });
+
+      const payload = postSpy.mock.calls[0][1] as any;
+      expect(payload.messages[payload.messages.length - 1].content).toBe('[');
+      expect(response?.message.content).toBe('[1,2]');
+    });
+
+    it('should fall back to prompt-only enforcement when tools are enabled', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue(anthropicMessage('{"ok":true}'));
+      const provider = new AnthropicProvider();
+
+      const response = await provider.call('Hi', {
+        authToken: 'sk-ant-test',
+        model: 'claude-test',
+        responseFormat: 'json',
+        tools: [{ name: 'noop', parameters: { type: 'object', properties: {} } }]
+      });
+
+      const payload = postSpy.mock.calls[0][1] as any;
+      expect(payload.messages[payload.messages.length - 1].role).toBe('user');
+      expect(response?.message.content).toBe('{"ok":true}');
+      expect(response?.metadata?.responseFormat).toBe('prompt');
+    });
+  });
+
+  describe('OpenAIProvider', () => {
+    it('should map a schema to json_schema structured output', async () => {
+      server.respondWith(200, {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1,
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, message: { role: 'assistant', content: '{"name":"Ada","age":36}' }, finish_reason: 'stop' }]
+      });
+      const provider = new OpenAIProvider();
+
+      const response = await provider.call('Who?', {
+        authToken: 'sk-test',
+        baseUrl: server.baseUrl,
+        responseFormat: { schema: personSchema, name: 'person' }
+      });
+
+      expect(server.requests[0].body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'person', schema: personSchema }
+      });
+      expect(response?.metadata?.responseFormat).toBe('native-schema');
+    });
+  });
+
+  describe('GoogleProvider', () => {
+    it('should enable JSON output with the schema in generationConfig', async () => {
+      server.respondWith(200, {
+        candidates: [{ content: { role: 'model', parts: [{ text: '{"name":"Ada","age":36}' }] }, finishReason: 'STOP' }]
+      });
+      const provider = new GoogleProvider();
+
+      const response = await provider.call('Who?', {
+        authToken: 'google-key',
+        model: 'gemini-2.0-flash',
+        baseUrl: server.baseUrl,
+        responseFormat: { schema: personSchema }
+      });
+
+      expect(server.requests[0].body.generationConfig).toMatchObject({
+        responseMimeType: 'application/json',
+        responseJsonSchema: personSchema
+      });
+      expect(response?.metadata?.responseFormat).toBe('native-schema');
+    });
+  });
+});
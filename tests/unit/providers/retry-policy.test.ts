@@ -0,0 +1,190 @@
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  LLMRateLimitError,
+  LLMUpstreamError,
+  LLMAuthenticationError
+} from '../../../src/middleware/services/llm';
+import {
+  computeRetryDelay,
+  resolveRetryPolicy,
+  withRetry,
+  DEFAULT_RETRY_POLICY
+} from '../../../src/middleware/services/llm/utils/retry.utils';
+import { DataFlowLoggerService } from '../../../src/middleware/services/data-flow-logger';
+
+/**
+ * Provider stub that fails with the queued errors before answering
+ */
+class FlakyProvider extends BaseLLMProvider {
+  public calls: CommonLLMOptions[] = [];
+
+  constructor(private readonly failures: Error[]) {
+    super('flaky' as LLMProvider);
+  }
+
+  async callWithSystemMessage(_userPrompt: string, _systemMessage: string, options: CommonLLMOptions): Promise<CommonLLMResponse | null> {
+    this.calls.push(options);
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    return { message: { content: 'ok' }, metadata: { provider: 'flaky', model: 'm' } };
+  }
+}
+
+const upstream = () => new LLMUpstreamError('Provider error (flaky, HTTP 503)', { provider: 'flaky', statusCode: 503 });
+const fastPolicy = { initialDelayMs: 1, jitter: false };
+
+describe('Retry policy', () => {
+  describe('computeRetryDelay', () => {
+    it('should grow exponentially up to maxDelayMs', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+      expect([1, 2, 3, 4, 5].map(retry => computeRetryDelay(policy, retry))).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it('should apply jitter between half and the full delay', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100 };
+
+      expect(computeRetryDelay(policy, 1, () => 0)).toBe(50);
+      expect(computeRetryDelay(policy, 1, () => 1)).toBe(100);
+    });
+  });
+
+  describe('resolveRetryPolicy', () => {
+    it('should merge the call policy over the global policy', () => {
+      expect(resolveRetryPolicy(undefined, undefined)).toBeNull();
+      expect(resolveRetryPolicy({ maxAttempts: 5 }, false)).toBeNull();
+      expect(resolveRetryPolicy({ maxAttempts: 5, initialDelayMs: 10 }, { initialDelayMs: 20 })).toMatchObject({
+        maxAttempts: 5,
+        initialDelayMs: 20,
+        backoffMultiplier: 2
+      });
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should honor Retry-After of rate limit errors', async () => {
+      const delays: number[] = [];
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new LLMRateLimitError('Rate limit exceeded', { provider: 'anthropic', retryAfterMs: 5 }))
+        .mockResolvedValue('done');
+
+      const result = await withRetry(operation, resolveRetryPolicy(fastPolicy, undefined), info => delays.push(info.delayMs));
+
+      expect(result).toBe('done');
+      expect(delays).toEqual([5]);
+    });
+
+    it('should not retry when Retry-After exceeds maxDelayMs', async () => {
+      const rateLimit = new LLMRateLimitError('Rate limit exceeded', { provider: 'anthropic', retryAfterMs: 60000 });
+      const operation = jest.fn().mockRejectedValue(rateLimit);
+
+      await expect(withRetry(operation, resolveRetryPolicy({ ...fastPolicy, maxDelayMs: 1000 }, undefined))).rejects.toBe(rateLimit);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying at the deadline', async () => {
+      const operation = jest.fn().mockRejectedValue(upstream());
+
+      await expect(withRetry(operation, resolveRetryPolicy({ maxAttempts: 10, initialDelayMs: 20, jitter: false, deadlineMs: 50 }, undefined)))
+        .rejects.toBeInstanceOf(LLMUpstreamError);
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only retry the configured error classes', async () => {
+      const operation = jest.fn().mockRejectedValue(new TypeError('bug'));
+
+      await expect(withRetry(operation, resolveRetryPolicy(fastPolicy, undefined))).rejects.toThrow('bug');
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      operation.mockReset().mockRejectedValueOnce(new TypeError('flaky')).mockResolvedValue('done');
+      await expect(withRetry(operation, resolveRetryPolicy({ ...fastPolicy, retryOn: [TypeError] }, undefined))).resolves.toBe('done');
+    });
+  });
+
+  describe('LLMService', () => {
+    let service: LLMService;
+
+    beforeEach(() => {
+      service = new LLMService();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should not retry without a policy', async () => {
+      const provider = new FlakyProvider([upstream()]);
+      service.registerProvider('flaky', provider);
+
+      await expect(service.call('Hi', { provider: 'flaky' })).rejects.toBeInstanceOf(LLMUpstreamError);
+      expect(provider.calls).toHaveLength(1);
+    });
+
+    it('should retry retryable errors with the global policy and log each attempt', async () => {
+      const logSpy = jest.spyOn(DataFlowLoggerService.getInstance(), 'logRetryAttempt').mockImplementation(() => undefined);
+      const provider = new FlakyProvider([upstream(), upstream()]);
+      service.registerProvider('flaky', provider);
+      service.setRetryPolicy(fastPolicy);
+
+      const response = await service.call('Hi', { provider: 'flaky', model: 'm', debugContext: 'RetryTest' });
+
+      expect(response?.message.content).toBe('ok');
+      expect(provider.calls).toHaveLength(3);
+      expect(provider.calls[0]).not.toHaveProperty('retry');
+      expect(logSpy).toHaveBeenCalledTimes(2);
+      expect(logSpy).toHaveBeenLastCalledWith('RetryTest', { debugContext: 'RetryTest' }, expect.objectContaining({
+        provider: 'flaky',
+        model: 'm',
+        attempt: 2,
+        maxAttempts: 3,
+        delayMs: 2
+      }));
+    });
+
+    it('should let calls override or disable the global policy', async () => {
+      jest.spyOn(DataFlowLoggerService.getInstance(), 'logRetryAttempt').mockImplementation(() => undefined);
+      service.setRetryPolicy(fastPolicy);
+
+      const disabled = new FlakyProvider([upstream()]);
+      service.registerProvider('disabled', disabled);
+      await expect(service.call('Hi', { provider: 'disabled', retry: false })).rejects.toBeInstanceOf(LLMUpstreamError);
+      expect(disabled.calls).toHaveLength(1);
+
+      const limited = new FlakyProvider([upstream(), upstream()]);
+      service.registerProvider('limited', limited);
+      await expect(service.call('Hi', { provider: 'limited', retry: { maxAttempts: 2 } })).rejects.toBeInstanceOf(LLMUpstreamError);
+      expect(limited.calls).toHaveLength(2);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const provider = new FlakyProvider([new LLMAuthenticationError('Authentication failed', { provider: 'flaky' })]);
+      service.registerProvider('flaky', provider);
+
+      await expect(service.call('Hi', { provider: 'flaky', retry: fastPolicy })).rejects.toBeInstanceOf(LLMAuthenticationError);
+      expect(provider.calls).toHaveLength(1);
+    });
+
+    it('should retry each fallback step before moving on', async () => {
+      jest.spyOn(DataFlowLoggerService.getInstance(), 'logRetryAttempt').mockImplementation(() => undefined);
+      const first = new FlakyProvider([upstream(), upstream()]);
+      const second = new FlakyProvider([]);
+      service.registerProvider('first', first);
+      service.registerProvider('second', second);
+
+      const response = await service.call('Hi', {
+        retry: { ...fastPolicy, maxAttempts: 2 },
+        fallbackChain: [{ provider: 'first' }, { provider: 'second' }]
+      });
+
+      expect(first.calls).toHaveLength(2);
+      expect(second.calls).toHaveLength(1);
+      expect(response?.metadata?.fallback?.step).toBe(1);
+    });
+  });
+});
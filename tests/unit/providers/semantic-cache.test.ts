@@ -0,0 +1,173 @@
+import {
+  LLMService,
+  LLMProvider,
+  BaseLLMProvider,
+  CommonLLMOptions,
+  CommonLLMResponse,
+  SemanticCacheIndex,
+  cosineSimilarity,
+  getSemanticCachePrompt
+} from '../../../src/middleware/services/llm';
+
+/**
+ * Provider stub that numbers its answers
+ */
+class CountingProvider extends BaseLLMProvider {
+  public prompts: string[] = [];
+
+  constructor() {
+    super('counting' as LLMProvider);
+  }
+
+  async callWithSystemMessage(userPrompt: string, _systemMessage: string, options: CommonLLMOptions = {}): Promise<CommonLLMResponse | null> {
+    this.prompts.push(userPrompt);
+    return {
+      message: { content: `answer ${this.prompts.length}` },
+      metadata: { provider: 'counting', model: options.model || 'default' }
+    };
+  }
+}
+
+/**
+ * Bag-of-words embedding: case, punctuation and whitespace do not change the vector
+ */
+async function embedWords(text: string): Promise<number[]> {
+  const vector = new Array(64).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z]+/g) || []) {
+    const hash = Array.from(word).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 64, 7);
+    vector[hash]++;
+  }
+  return vector;
+}
+
+describe('LLMService semantic cache', () => {
+  let service: LLMService;
+  let provider: CountingProvider;
+  let embed: jest.Mock<Promise<number[]>, [string]>;
+
+  beforeEach(() => {
+    service = new LLMService();
+    provider = new CountingProvider();
+    service.registerProvider('counting', provider);
+    embed = jest.fn(embedWords);
+    service.setResponseCache({ semantic: { embed, threshold: 0.9 } });
+  });
+
+  const call = (prompt: string, options: CommonLLMOptions & { system?: string } = {}) => {
+    const { system = 'Answer briefly', ...callOptions } = options;
+    return service.callWithSystemMessage(prompt, system, { provider: 'counting', model: 'm', temperature: 0, ...callOptions });
+  };
+
+  it('should answer near-identical prompts from the cache', async () => {
+    const first = await call('What is the capital of France?');
+    const second = await call('what is the   capital of France');
+
+    expect(provider.prompts).toHaveLength(1);
+    expect(second?.message.content).toBe('answer 1');
+    expect(second?.metadata?.cache).toEqual({
+      hit: true,
+      key: first?.metadata?.cache?.key,
+      similarity: expect.closeTo(1, 5),
+      ageMs: expect.any(Number)
+    });
+  });
+
+  it('should ask the provider for prompts below the threshold', async () => {
+    await call('What is the capital of France?');
+    await call('Which river flows through Paris?');
+
+    expect(provider.prompts).toHaveLength(2);
+  });
+
+  it('should never match across system messages, models or parameters', async () => {
+    await call('What is the capital of France?');
+    await call('What is the capital of France', { system: 'Answer in German' });
+    await call('What is the capital of France', { model: 'other' });
+    await call('What is the capital of France', { temperature: 0.8 });
+
+    expect(provider.prompts).toHaveLength(4);
+  });
+
+  it('should apply the threshold of the call', async () => {
+    await call('What is the capital of France?');
+    const strict = await call('What is the capital city of France?', { semanticCacheThreshold: 1 });
+    const loose = await call('What is the capital town of France?', { semanticCacheThreshold: 0.5 });
+
+    expect(strict?.metadata?.cache?.hit).toBe(false);
+    expect(loose?.metadata?.cache?.hit).toBe(true);
+  });
+
+  it('should embed each prompt once per call and skip the embedding for exact hits', async () => {
+    await call('What is the capital of France?');
+    await call('What is the capital of France?');
+
+    expect(embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to exact matching when the embedding function fails', async () => {
+    embed.mockRejectedValue(new Error('embedding model not loaded'));
+
+    await call('What is the capital of France?');
+    await call('What is the capital of France?');
+    await call('what is the capital of France');
+
+    expect(provider.prompts).toHaveLength(2);
+  });
+
+  it('should forget prompts when the cache is cleared', async () => {
+    await call('What is the capital of France?');
+    await service.clearResponseCache();
+    await call('what is the capital of France');
+
+    expect(provider.prompts).toHaveLength(2);
+  });
+
+  it('should reject invalid thresholds', () => {
+    expect(() => service.setResponseCache({ semantic: { embed, threshold: 0 } }))
+      .toThrow('Semantic cache threshold must be greater than 0 and at most 1');
+  });
+
+  it('should reject invalid thresholds of a call before the provider is asked', async () => {
+    for (const semanticCacheThreshold of [0, 1.5, NaN]) {
+      await expect(call('What is the capital of France?', { semanticCacheThreshold })).rejects.toMatchObject({
+        name: 'LLMInvalidRequestError',
+        message: 'Semantic cache threshold must be greater than 0 and at most 1',
+        provider: 'counting'
+      });
+    }
+    expect(provider.prompts).toHaveLength(0);
+  });
+});
+
+describe('Semantic cache utilities', () => {
+  it('should compute the cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+
+  it('should only match prompts of the same scope and evict the least recently used prompt', () => {
+    const index = new SemanticCacheIndex(2);
+    index.add('a', 'scope-1', [1, 0]);
+    index.add('b', 'scope-2', [1, 0]);
+
+    expect(index.findMatch('scope-1', [1, 0.1], 0.9)).toEqual({ key: 'a', similarity: expect.any(Number) });
+
+    index.add('c', 'scope-2', [0, 1]);
+
+    expect(index.findMatch('scope-2', [1, 0], 0.9)).toBeUndefined();
+    expect(index.findMatch('scope-1', [1, 0], 0.9)?.key).toBe('a');
+  });
+
+  it('should use the last user message as the prompt of a conversation', () => {
+    const input = { provider: 'ollama', model: 'm', method: 'callWithMessages', options: {} };
+    const prompt = getSemanticCachePrompt({
+      ...input,
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }]
+    });
+
+    expect(prompt?.text).toBe('Hi');
+    expect(getSemanticCachePrompt({ ...input, messages: [{ role: 'user', content: 'Hi' }] })?.scope).not.toBe(prompt?.scope);
+    expect(getSemanticCachePrompt({ ...input, messages: [{ role: 'tool', content: '42', toolCallId: 'call-1' }] })).toBeUndefined();
+  });
+});
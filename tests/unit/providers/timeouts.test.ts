@@ -0,0 +1,157 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import {
+  OllamaProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  GoogleProvider,
+  LLMTimeoutError,
+  LLMAbortedError
+} from '../../../src/middleware/services/llm';
+
+/**
+ * Start a server whose request handler decides how (and whether) to answer
+ */
+async function startServer(handler: http.RequestListener): Promise<{ baseUrl: string; close: () => Promise<void> }> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+/**
+ * Drain a stream, collecting the deltas until it fails
+ */
+async function consume(stream: AsyncIterable<{ type: string; content?: string }>): Promise<{ deltas: string[]; error?: any }> {
+  const deltas: string[] = [];
+  try {
+    for await (const event of stream) {
+      if (event.type === 'delta') {
+        deltas.push(event.content!);
+      }
+    }
+    return { deltas };
+  } catch (error) {
+    return { deltas, error };
+  }
+}
+
+const ndjsonHeaders = { 'Content-Type': 'application/x-ndjson' };
+
+describe('Request timeouts', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject with LLMTimeoutError when Ollama does not answer within timeoutMs', async () => {
+    const server = await startServer(() => undefined);
+    const provider = new OllamaProvider({ baseUrl: server.baseUrl, model: 'llama3.1' });
+
+    try {
+      const error = await provider.callWithSystemMessage('Hi', 'Be brief', { timeoutMs: 50 }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(LLMTimeoutError);
+      expect(error.message).toBe('Request to ollama timed out after 50ms');
+      expect(error.timeoutMs).toBe(50);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it.each([
+    ['OpenAI', () => new OpenAIProvider(), { authToken: 'sk-test', model: 'gpt-4o-mini' }],
+    ['Anthropic', () => new AnthropicProvider(), { authToken: 'sk-ant-test', model: 'claude-3-5-haiku-20241022' }],
+    ['Google', () => new GoogleProvider(), { authToken: 'google-key', model: 'gemini-2.0-flash' }]
+  ])('should pass timeoutMs to axios for %s', async (_name, createProvider, options) => {
+    const postSpy = jest.spyOn(axios, 'post').mockRejectedValue(new Error('stop'));
+
+    await createProvider().callWithSystemMessage('Hi', 'Be brief', options).catch(() => undefined);
+    await createProvider().callWithSystemMessage('Hi', 'Be brief', { ...options, timeoutMs: 1234 }).catch(() => undefined);
+
+    expect(postSpy.mock.calls[0][2]?.timeout).toBe(90000);
+    expect(postSpy.mock.calls[1][2]?.timeout).toBe(1234);
+  });
+
+  it('should apply timeoutMs to each embedding batch', async () => {
+    const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200, data: { embeddings: [[0.1], [0.2]] } });
+    const provider = new OllamaProvider({ baseUrl: 'http://127.0.0.1:9' });
+
+    await provider.embed(['a', 'b', 'c'], { model: 'nomic-embed-text', batchSize: 2, timeoutMs: 5000 }).catch(() => undefined);
+
+    expect(postSpy.mock.calls.map(call => call[2]?.timeout)).toEqual([5000, 5000]);
+  });
+
+  describe('Streaming', () => {
+    it('should fail when the first token does not arrive within firstTokenTimeoutMs', async () => {
+      // Model still loading: headers are sent, tokens never arrive
+      const server = await startServer((_req, res) => {
+        res.writeHead(200, ndjsonHeaders);
+      });
+      const provider = new OllamaProvider({ baseUrl: server.baseUrl, model: 'llama3.1' });
+
+      try {
+        const { error } = await consume(provider.stream('Hi', { firstTokenTimeoutMs: 50 }));
+
+        expect(error).toBeInstanceOf(LLMTimeoutError);
+        expect(error.message).toBe('No first token from ollama within 50ms');
+        expect(error.timeoutMs).toBe(50);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should fail when the stream does not complete within timeoutMs', async () => {
+      const server = await startServer((_req, res) => {
+        res.writeHead(200, ndjsonHeaders);
+        res.write(JSON.stringify({ message: { role: 'assistant', content: 'Hello' }, done: false }) + '\n');
+      });
+      const provider = new OllamaProvider({ baseUrl: server.baseUrl, model: 'llama3.1' });
+
+      try {
+        const { deltas, error } = await consume(provider.stream('Hi', { firstTokenTimeoutMs: 500, timeoutMs: 600 }));
+
+        expect(deltas).toEqual(['Hello']);
+        expect(error).toBeInstanceOf(LLMTimeoutError);
+        expect(error.message).toBe('Stream from ollama did not complete within 600ms');
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should apply connectTimeoutMs until the response headers arrive', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockRejectedValue({ isAxiosError: true, code: 'ECONNABORTED', message: 'timeout of 2000ms exceeded' });
+      const provider = new OllamaProvider({ baseUrl: 'http://127.0.0.1:9', model: 'llama3.1' });
+
+      const { error } = await consume(provider.stream('Hi', { connectTimeoutMs: 2000 }));
+
+      expect(postSpy.mock.calls[0][2]?.timeout).toBe(2000);
+      expect(error).toBeInstanceOf(LLMTimeoutError);
+      expect(error.timeoutMs).toBe(2000);
+    });
+
+    it('should still report cancellation by the caller as LLMAbortedError', async () => {
+      const server = await startServer((_req, res) => {
+        res.writeHead(200, ndjsonHeaders);
+      });
+      const provider = new OllamaProvider({ baseUrl: server.baseUrl, model: 'llama3.1' });
+      const controller = new AbortController();
+
+      try {
+        setTimeout(() => controller.abort(), 20);
+        const { error } = await consume(provider.stream('Hi', { signal: controller.signal, firstTokenTimeoutMs: 5000 }));
+
+        expect(error).toBeInstanceOf(LLMAbortedError);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import axios from 'axios';
+import {
+  OllamaProvider,
+  AnthropicProvider,
+  OpenAIProvider,
+  GoogleProvider,
+  ChatMessage,
+  ToolDefinition
+} from '../../../src/middleware/services/llm';
+import { parseToolArguments } from '../../../src/middleware/services/llm/utils/tool-call.utils';
+import { startMockServer, MockServer } from './helpers/mock-server';
+
+const weatherTool: ToolDefinition = {
+  name: 'get_weather',
+  description: 'Get the current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city']
+  }
+};
+
+const toolRoundTrip: ChatMessage[] = [
+  { role: 'user', content: 'Weather in Paris?' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }]
+  },
+  { role: 'tool', content: '{"temp":21}', toolCallId: 'call_1', toolName: 'get_weather' }
+];
+
+describe('Tool calling', () => {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer('');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('OllamaProvider', () => {
+    it('should send tools and normalize tool calls from the response', async () => {
+      server.respondWith(200, {
+        model: 'llama3.1',
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }]
+        },
+        done: true
+      });
+      const provider = new OllamaProvider();
+
+      const response = await provider.call('Weather in Paris?', {
+        model: 'llama3.1',
+        baseUrl: server.baseUrl,
+        tools: [weatherTool]
+      });
+
+      expect(server.requests[0].body.tools).toEqual([
+        { type: 'function', function: { name: 'get_weather', description: weatherTool.description, parameters: weatherTool.parameters } }
+      ]);
+      expect(response?.toolCalls).toHaveLength(1);
+      expect(response?.toolCalls?.[0]).toMatchObject({ name: 'get_weather', arguments: { city: 'Paris' } });
+      expect(response?.toolCalls?.[0].id).toMatch(/^call_/);
+    });
+
+    it('should send tool calls and tool results back in the conversation', async () => {
+      server.respondWith(200, { model: 'llama3.1', message: { role: 'assistant', content: '21 degrees.' }, done: true });
+      const provider = new OllamaProvider();
+
+      const response = await provider.callWithMessages(toolRoundTrip, { model: 'llama3.1', baseUrl: server.baseUrl });
+
+      expect(server.requests[0].body.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }]
+        },
+        { role: 'tool', content: '{"temp":21}', tool_name: 'get_weather' }
+      ]);
+      expect(response?.toolCalls).toBeUndefined();
+    });
+
+    it('should omit tools when toolChoice is none', async () => {
+      server.respondWith(200, { model: 'llama3.1', message: { role: 'assistant', content: 'ok' }, done: true });
+      const provider = new OllamaProvider();
+
+      await provider.call('Hi', { model: 'llama3.1', baseUrl: server.baseUrl, tools: [weatherTool], toolChoice: 'none' });
+
+      expect(server.requests[0].body.tools).toBeUndefined();
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should map tools and tool choice and extract tool_use blocks', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+        status: 200,
+        data: {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me check.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+          ],
+          model: 'claude-test',
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 30, output_tokens: 12 }
+        }
+      });
+      const provider = new AnthropicProvider();
+
+      const response = await provider.call('Weather in Paris?', {
+        authToken: 'sk-ant-test',
+        model: 'claude-test',
+        tools: [weatherTool],
+        toolChoice: 'required'
+      });
+
+      const payload = postSpy.mock.calls[0][1] as any;
+      expect(payload.tools).toEqual([
+        { name: 'get_weather', description: weatherTool.description, input_schema: weatherTool.parameters }
+      ]);
+      expect(payload.tool_choice).toEqual({ type: 'any' });
+      expect(response?.message.content).toBe('Let me check.');
+      expect(response?.toolCalls).toEqual([{ id: 'toolu_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+    });
+
+    it('should send tool_use and tool_result content blocks', async () => {
+      const postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+        status: 200,
+        data: {
+          id: 'msg_2',
+          type: 'message',
+          role: 'assistant',
+          content: [{ type: 'text', text: '21 degrees.' }],
+          model: 'claude-test',
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 40, output_tokens: 4 }
+        }
+      });
+      const provider = new AnthropicProvider();
+
+      await provider.callWithMessages(toolRoundTrip, { authToken: 'sk-ant-test', model: 'claude-test' });
+
+      const payload = postSpy.mock.calls[0][1] as any;
+      expect(payload.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }]
+        },
+        {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"temp":21}' }]
+        }
+      ]);
+    });
+  });
+
+  describe('OpenAIProvider', () => {
+    it('should send tools, map a named tool choice and parse string arguments', async () => {
+      server.respondWith(200, {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1,
+        model: 'gpt-4o-mini',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_abc', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+          },
+          finish_reason: 'tool_calls'
+        }]
+      });
+      const provider = new OpenAIProvider();
+
+      const response = await provider.call('Weather in Paris?', {
+        authToken: 'sk-test',
+        baseUrl: server.baseUrl,
+        tools: [weatherTool],
+        toolChoice: { name: 'get_weather' }
+      });
+
+      const body = server.requests[0].body;
+      expect(body.tools[0]).toEqual({
+        type: 'function',
+        function: { name: 'get_weather', description: weatherTool.description, parameters: weatherTool.parameters }
+      });
+      expect(body.tool_choice).toEqual({ type: 'function', function: { name: 'get_weather' } });
+      expect(response?.toolCalls).toEqual([
+        { id: 'call_abc', name: 'get_weather', arguments: { city: 'Paris' }, rawArguments: '{"city":"Paris"}' }
+      ]);
+    });
+
+    it('should send tool calls with JSON arguments and tool results with their call id', async () => {
+      server.respondWith(200, {
+        id: 'chatcmpl-2',
+        object: 'chat.completion',
+        created: 1,
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, message: { role: 'assistant', content: '21 degrees.' }, finish_reason: 'stop' }]
+      });
+      const provider = new OpenAIProvider();
+
+      await provider.callWithMessages(toolRoundTrip, { authToken: 'sk-test', baseUrl: server.baseUrl });
+
+      expect(server.requests[0].body.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+        },
+        { role: 'tool', content: '{"temp":21}', tool_call_id: 'call_1' }
+      ]);
+    });
+  });
+
+  describe('Unsupported providers and validation', () => {
+    it('should reject tools for the Google provider', async () => {
+      const provider = new GoogleProvider();
+
+      await expect(
+        provider.call('Hi', { authToken: 'google-key', tools: [weatherTool] })
+      ).rejects.toThrow('Tool calling is not supported');
+    });
+
+    it('should require a toolCallId on tool messages', async () => {
+      const provider = new OllamaProvider();
+
+      await expect(
+        provider.callWithMessages([{ role: 'tool', content: '{}' }], { model: 'llama3.1' })
+      ).rejects.toThrow('Tool messages require a toolCallId');
+    });
+  });
+
+  describe('parseToolArguments', () => {
+    it('should repair malformed JSON arguments', async () => {
+      const result = await parseToolArguments('{"city": "Paris",}');
+
+      expect(result.arguments).toEqual({ city: 'Paris' });
+      expect(result.argumentsError).toBeUndefined();
+    });
+
+    it('should report unparseable arguments instead of throwing', async () => {
+      const result = await parseToolArguments('not json at all');
+
+      expect(result.arguments).toEqual({});
+      expect(result.argumentsError).toBeDefined();
+      expect(result.rawArguments).toBe('not json at all');
+    });
+  });
+});
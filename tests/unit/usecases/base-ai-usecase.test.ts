@@ -1,6 +1,7 @@
 import { BaseAIUseCase } from '../../../src/middleware/usecases/base/base-ai.usecase';
 import { BaseAIRequest, BaseAIResult } from '../../../src/middleware/shared/types/base-request.types';
-import { LLMProvider } from '../../../src/middleware/services/llm';
+import { LLMProvider, llmService, FallbackStep, LLMRateLimitError, RequestPriority, CachePolicy } from '../../../src/middleware/services/llm';
+import { UseCaseMetricsLoggerService } from '../../../src/middleware/services/use-case-metrics-logger';
 import { ModelConfigKey, ValidatedLLMModelConfig } from '../../../src/middleware/shared/config/models.config';
 
 /**
@@ -85,6 +86,29 @@ class OpenAIProviderUseCase extends BaseAIUseCase<string, TestRequest, TestResul
   }
 }
 
+/**
+ * Model config for tests that execute a use case, so that they do not depend on MODEL1_NAME
+ */
+const testModelConfig: ValidatedLLMModelConfig = { name: 'test-model', baseUrl: 'http://localhost:11434', temperature: 0.7 };
+
+/**
+ * Test use case (Ollama) with a fixed model config
+ */
+class TestModelUseCase extends DefaultProviderUseCase {
+  protected getModelConfigProvider(): ValidatedLLMModelConfig {
+    return testModelConfig;
+  }
+}
+
+/**
+ * Test use case (Anthropic) with a fixed model config
+ */
+class AnthropicTestModelUseCase extends AnthropicProviderUseCase {
+  protected getModelConfigProvider(): ValidatedLLMModelConfig {
+    return testModelConfig;
+  }
+}
+
 describe('BaseAIUseCase - Provider Selection', () => {
   describe('getProvider() method', () => {
     it('should return OLLAMA as default provider', () => {
@@ -310,3 +334,271 @@ describe('BaseAIUseCase - Model Config Provider Pattern', () => {
     });
   });
 });
+
+describe('BaseAIUseCase - Provider Thinking', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass provider-reported thinking to createResult', async () => {
+    jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({
+      message: { content: '{"answer": 42}' },
+      thinking: 'Let me reason about this step by step.',
+      finishReason: 'stop'
+    });
+    const useCase = new AnthropicTestModelUseCase();
+
+    const result = await useCase.execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(result.thinking).toBe('Let me reason about this step by step.');
+    expect(JSON.parse(result.response)).toEqual({ answer: 42 });
+  });
+});
+
+describe('BaseAIUseCase - Image Inputs', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject request images with a file path before calling the LLM service', async () => {
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage');
+    const useCase = new TestModelUseCase();
+    // As parsed from an HTTP request body
+    const images = JSON.parse('[{ "path": "/etc/passwd", "mimeType": "image/png" }]');
+
+    await expect(useCase.execute({ prompt: 'Question?', message: 'Question?', images })).rejects.toMatchObject({
+      name: 'LLMInvalidRequestError',
+      code: 'invalid_request'
+    });
+    expect(callSpy).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * Test use case with a fallback chain
+ */
+class FallbackUseCase extends TestModelUseCase {
+  protected getFallbackChain(): FallbackStep[] {
+    return [
+      { provider: LLMProvider.OLLAMA },
+      { provider: LLMProvider.ANTHROPIC, model: 'claude-fallback' }
+    ];
+  }
+}
+
+describe('BaseAIUseCase - Fallback Chain', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the fallback chain and report the answering provider in the metrics', async () => {
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({
+      message: { content: '{"answer": 42}' },
+      metadata: {
+        provider: 'anthropic',
+        model: 'claude-fallback',
+        fallback: {
+          step: 1,
+          provider: 'anthropic',
+          model: 'claude-fallback',
+          attempts: [{ step: 0, provider: 'ollama', reason: 'error', error: 'Insufficient memory', durationMs: 5 }]
+        }
+      }
+    });
+    const completionSpy = jest.spyOn(UseCaseMetricsLoggerService, 'logCompletion').mockImplementation(() => undefined);
+    const useCase = new FallbackUseCase();
+
+    await useCase.execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(callSpy.mock.calls[0][2]?.fallbackChain).toEqual([
+      { provider: LLMProvider.OLLAMA },
+      { provider: LLMProvider.ANTHROPIC, model: 'claude-fallback' }
+    ]);
+    expect(completionSpy).toHaveBeenCalledWith('FallbackUseCase', expect.objectContaining({
+      modelName: 'claude-fallback',
+      provider: 'anthropic',
+      fallbackStep: 1,
+      fallbackAttempts: 1
+    }));
+  });
+});
+
+describe('BaseAIUseCase - Typed Errors', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should rethrow provider errors unchanged', async () => {
+    const rateLimit = new LLMRateLimitError('Rate limit exceeded', { provider: 'anthropic', retryAfterMs: 1000 });
+    jest.spyOn(llmService, 'callWithSystemMessage').mockRejectedValue(rateLimit);
+    const useCase = new AnthropicTestModelUseCase();
+
+    await expect(useCase.execute({ prompt: 'Question?', message: 'Question?' })).rejects.toBe(rateLimit);
+  });
+
+  it('should throw an LLMError when no response is received', async () => {
+    jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue(null);
+    const useCase = new TestModelUseCase();
+
+    await expect(useCase.execute({ prompt: 'Question?', message: 'Question?' })).rejects.toMatchObject({
+      name: 'LLMError',
+      message: 'No response received from the LLM provider',
+      provider: LLMProvider.OLLAMA
+    });
+  });
+});
+
+describe('BaseAIUseCase - Request Cancellation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the request signal to the LLM service', async () => {
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({ message: { content: '{}' } });
+    const controller = new AbortController();
+    const useCase = new TestModelUseCase();
+
+    await useCase.execute({ prompt: 'Question?', message: 'Question?', signal: controller.signal });
+
+    expect(callSpy.mock.calls[0][2]?.signal).toBe(controller.signal);
+  });
+});
+
+describe('BaseAIUseCase - Timeouts', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the model config timeout to the LLM service', async () => {
+    /**
+     * Test use case with a model config that sets timeoutMs
+     */
+    class SlowModelUseCase extends DefaultProviderUseCase {
+      protected getModelConfigProvider(): ValidatedLLMModelConfig {
+        return { name: 'slow-model', baseUrl: 'http://slow.server.com', temperature: 0.7, timeoutMs: 300000 };
+      }
+    }
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({ message: { content: '{}' } });
+
+    await new SlowModelUseCase().execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(callSpy.mock.calls[0][2]?.timeoutMs).toBe(300000);
+  });
+
+  it('should pass the hosts of a load-balanced model config instead of its baseUrl', async () => {
+    /**
+     * Test use case with a model served by several hosts
+     */
+    class PooledModelUseCase extends DefaultProviderUseCase {
+      protected getModelConfigProvider(): ValidatedLLMModelConfig {
+        return {
+          name: 'pooled-model',
+          baseUrl: 'http://gpu-1:11434',
+          baseUrls: ['http://gpu-1:11434', 'http://gpu-2:11434'],
+          temperature: 0.7
+        };
+      }
+    }
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({ message: { content: '{}' } });
+
+    await new PooledModelUseCase().execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(callSpy.mock.calls[0][2]).toMatchObject({ hosts: ['http://gpu-1:11434', 'http://gpu-2:11434'] });
+    expect(callSpy.mock.calls[0][2]).not.toHaveProperty('baseUrl');
+  });
+
+  it('should let use cases override the timeout', async () => {
+    /**
+     * Test use case with a longer timeout than the model config
+     */
+    class LongFormUseCase extends TestModelUseCase {
+      protected getTimeoutMs(): number | undefined {
+        return 600000;
+      }
+    }
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({ message: { content: '{}' } });
+
+    await new LongFormUseCase().execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(callSpy.mock.calls[0][2]?.timeoutMs).toBe(600000);
+  });
+});
+
+describe('BaseAIUseCase - Request Queue', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the use case priority and report the queue wait in the metrics', async () => {
+    /**
+     * Background use case that yields to interactive requests
+     */
+    class BatchUseCase extends TestModelUseCase {
+      protected getPriority(): RequestPriority | undefined {
+        return 'batch';
+      }
+    }
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({
+      message: { content: '{}' },
+      metadata: { provider: 'ollama', model: 'test', queue: { priority: 'batch', waitMs: 1200, queueDepth: 3 } }
+    });
+    const completionSpy = jest.spyOn(UseCaseMetricsLoggerService, 'logCompletion').mockImplementation(() => undefined);
+
+    await new BatchUseCase().execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(callSpy.mock.calls[0][2]?.priority).toBe('batch');
+    expect(completionSpy).toHaveBeenCalledWith('BatchUseCase', expect.objectContaining({
+      queueWaitMs: 1200,
+      queueDepth: 3
+    }));
+  });
+});
+
+describe('BaseAIUseCase - Response Cache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the use case cache policy and report cache hits in the metrics', async () => {
+    /**
+     * Use case that must always ask the model
+     */
+    class UncachedUseCase extends TestModelUseCase {
+      protected getCachePolicy(): CachePolicy | undefined {
+        return 'bypass';
+      }
+    }
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({
+      message: { content: '{}' },
+      metadata: { provider: 'ollama', model: 'test', cache: { hit: true, key: 'abc', ageMs: 500 } }
+    });
+    const completionSpy = jest.spyOn(UseCaseMetricsLoggerService, 'logCompletion').mockImplementation(() => undefined);
+
+    await new UncachedUseCase().execute({ prompt: 'Question?', message: 'Question?' });
+    await new TestModelUseCase().execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(callSpy.mock.calls[0][2]?.cachePolicy).toBe('bypass');
+    expect(callSpy.mock.calls[1][2]?.cachePolicy).toBeUndefined();
+    expect(completionSpy).toHaveBeenLastCalledWith('TestModelUseCase', expect.objectContaining({ cacheHit: true }));
+  });
+
+  it('should pass the semantic cache threshold of the use case', async () => {
+    /**
+     * Use case where small wording changes matter
+     */
+    class StrictCacheUseCase extends TestModelUseCase {
+      protected getSemanticCacheThreshold(): number | undefined {
+        return 0.99;
+      }
+    }
+    const callSpy = jest.spyOn(llmService, 'callWithSystemMessage').mockResolvedValue({
+      message: { content: '{}' },
+      metadata: { provider: 'ollama', model: 'test' }
+    });
+    jest.spyOn(UseCaseMetricsLoggerService, 'logCompletion').mockImplementation(() => undefined);
+
+    await new StrictCacheUseCase().execute({ prompt: 'Question?', message: 'Question?' });
+
+    expect(callSpy.mock.calls[0][2]?.semanticCacheThreshold).toBe(0.99);
+  });
+});
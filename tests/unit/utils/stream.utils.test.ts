@@ -0,0 +1,50 @@
+import { readLines, parseNDJSON, parseSSE } from '../../../src/middleware/services/llm/utils/stream.utils';
+
+async function* chunks(...parts: string[]): AsyncGenerator<Buffer> {
+  for (const part of parts) {
+    yield Buffer.from(part, 'utf8');
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('stream.utils', () => {
+  describe('readLines', () => {
+    it('should join lines split across chunks and strip carriage returns', async () => {
+      const lines = await collect(readLines(chunks('first li', 'ne\r\nsecond\n', 'third')));
+
+      expect(lines).toEqual(['first line', 'second', 'third']);
+    });
+  });
+
+  describe('parseNDJSON', () => {
+    it('should parse one JSON object per line and skip empty lines', async () => {
+      const objects = await collect(parseNDJSON(chunks('{"a":1}\n\n{"b"', ':2}\n')));
+
+      expect(objects).toEqual([{ a: 1 }, { b: 2 }]);
+    });
+  });
+
+  describe('parseSSE', () => {
+    it('should parse named events, join multi-line data and ignore comments', async () => {
+      const events = await collect(parseSSE(chunks(
+        ': keep-alive\n',
+        'event: message_start\ndata: {"x":1}\n\n',
+        'data: line one\ndata: line two\n\n',
+        'event: message_stop\ndata: {}'
+      )));
+
+      expect(events).toEqual([
+        { event: 'message_start', data: '{"x":1}' },
+        { event: 'message', data: 'line one\nline two' },
+        { event: 'message_stop', data: '{}' }
+      ]);
+    });
+  });
+});